@@ -82,7 +82,7 @@ function Router() {
       </Route>
       
       <Route path="/documents">
-        <ProtectedRoute>
+        <ProtectedRoute module="documents">
           <AppLayout>
             <Documents />
           </AppLayout>
@@ -90,7 +90,7 @@ function Router() {
       </Route>
       
       <Route path="/declarations">
-        <ProtectedRoute>
+        <ProtectedRoute module={["inbound_declarations", "outbound_declarations"]}>
           <AppLayout>
             <Declarations />
           </AppLayout>
@@ -98,7 +98,7 @@ function Router() {
       </Route>
       
       <Route path="/customers">
-        <ProtectedRoute>
+        <ProtectedRoute module="customers">
           <AppLayout>
             <Customers />
           </AppLayout>
@@ -106,7 +106,7 @@ function Router() {
       </Route>
       
       <Route path="/suppliers">
-        <ProtectedRoute>
+        <ProtectedRoute module="suppliers">
           <AppLayout>
             <Suppliers />
           </AppLayout>
@@ -138,7 +138,7 @@ function Router() {
       </Route>
       
       <Route path="/saqs">
-        <ProtectedRoute>
+        <ProtectedRoute module="saqs">
           <AppLayout>
             <SAQs />
           </AppLayout>
@@ -156,7 +156,7 @@ function Router() {
 
       {/* Admin Routes */}
       <Route path="/admin/entities">
-        <ProtectedRoute>
+        <ProtectedRoute module="administration">
           <AppLayout>
             <Entities />
           </AppLayout>
@@ -164,7 +164,7 @@ function Router() {
       </Route>
       
       <Route path="/admin/entities/:id">
-        <ProtectedRoute>
+        <ProtectedRoute module="administration">
           <AppLayout>
             <EntityDetails />
           </AppLayout>
@@ -172,7 +172,7 @@ function Router() {
       </Route>
 
       <Route path="/admin/invitations">
-        <ProtectedRoute>
+        <ProtectedRoute module="administration">
           <AppLayout>
             <Invitations />
           </AppLayout>
@@ -180,7 +180,7 @@ function Router() {
       </Route>
 
       <Route path="/admin/products">
-        <ProtectedRoute>
+        <ProtectedRoute module="products">
           <AppLayout>
             <Products />
           </AppLayout>
@@ -13,13 +13,31 @@ import {
   Info, 
   Clock, 
   X,
-  AlertTriangle 
+  AlertTriangle,
+  Download
 } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import DeclarationItemsTable, { fromStoredDeclarationItem, type StoredDeclarationItem } from "./declaration-items-table";
+import DeclarationVersionsPanel from "./declaration-versions-panel";
+import ActivityTimeline from "@/components/ui/activity-timeline";
+import StatusBadge from "@/components/ui/status-badge";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  DECLARATION_STATE_LABELS,
+  type DeclarationState,
+  type DeclarationTransitionRule,
+} from "@shared/declaration-lifecycle";
+import {
+  EU_REFERENCE_SOURCE_LABELS,
+  EU_REFERENCE_VALIDATION_LABELS,
+  type EUReferenceSource,
+  type EUReferenceValidationStatus,
+} from "@shared/eu-reference-numbers";
+import type { DeclarationOverlapResult, EUISExportRejection, GeoJSONEditChange, PlotOverlap } from "@shared/geojson-validation";
 
 interface Declaration {
   id: number;
@@ -49,8 +67,24 @@ interface Declaration {
   comments?: string;
   rmId?: string | null;
   complianceStatus?: "compliant" | "non-compliant" | "non-compliant-geometry";
+  items?: StoredDeclarationItem[];
+  references?: DeclarationReferenceEntry[];
 }
 
+interface DeclarationReferenceEntry {
+  id: number;
+  referenceNumber: string;
+  verificationNumber: string | null;
+  source: EUReferenceSource;
+  validationStatus: EUReferenceValidationStatus;
+}
+
+const overlapKindLabels: Record<PlotOverlap["kind"], string> = {
+  "identical-geometry": "Identical plot",
+  "overlap": "Overlapping plot",
+  "duplicate-production-place": "Same production place ID",
+};
+
 interface Supplier {
   id: number;
   name: string;
@@ -68,6 +102,85 @@ interface Customer {
   type: string;
 }
 
+interface GeojsonEditEntry {
+  id: number;
+  userId: number;
+  userName: string;
+  changes: GeoJSONEditChange[];
+  createdAt: string;
+}
+
+interface DeclarationTransitionEntry {
+  id: number;
+  action: string;
+  fromStatus: DeclarationState;
+  toStatus: DeclarationState;
+  actorName: string;
+  actorRole: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface AllocationEntry {
+  id: number;
+  outboundDeclarationId: number;
+  inboundDeclarationId: number;
+  quantity: number;
+  unit: string | null;
+}
+
+interface DeclarationAllocations {
+  balance: { quantity: number; unit: string | null; allocated: number; remaining: number } | null;
+  drawsFrom: AllocationEntry[];
+  drawnBy: AllocationEntry[];
+}
+
+interface EUISSubmissionEntry {
+  id: number;
+  declarationVersion: number | null;
+  ddsIdentifier: string | null;
+  status: "submitting" | "submitted" | "available" | "rejected" | "failed";
+  referenceNumber: string | null;
+  verificationNumber: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+const euisStatusLabels: Record<EUISSubmissionEntry["status"], string> = {
+  submitting: "Submitting",
+  submitted: "Submitted",
+  available: "Filed",
+  rejected: "Rejected",
+  failed: "Failed",
+};
+
+// Submissions being sent to, or awaiting registration in, the EU-IS
+const isPendingSubmission = (submission: EUISSubmissionEntry) =>
+  submission.status === "submitting" || submission.status === "submitted";
+
+interface DeclarationLifecycle {
+  state: DeclarationState;
+  available: DeclarationTransitionRule[];
+  transitions: DeclarationTransitionEntry[];
+}
+
+// Message of an apiRequest error, whose text is "status: response body"
+function serverMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+const editChangeLabels: Record<GeoJSONEditChange["change"], string> = {
+  "added": "added",
+  "deleted": "deleted",
+  "geometry-changed": "moved boundary of",
+  "properties-changed": "updated details of",
+};
+
 interface DeclarationDetailViewProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -106,6 +219,80 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
     enabled: !!declaration?.customerId && open && declaration?.type === 'outbound',
   });
 
+  // Fetch plots shared with other declarations
+  const { data: overlapResult, isLoading: isLoadingOverlaps } = useQuery<DeclarationOverlapResult>({
+    queryKey: [`/api/declarations/${declarationId}/overlaps`],
+    enabled: !!declarationId && open,
+  });
+  const overlaps = overlapResult?.overlaps ?? [];
+
+  // Fetch the history of plot edits made on the map
+  const { data: geojsonEdits = [] } = useQuery<GeojsonEditEntry[]>({
+    queryKey: [`/api/declarations/${declarationId}/geojson/edits`],
+    enabled: !!declarationId && open,
+  });
+
+  // Fetch the mass-balance ledger entries
+  const { data: allocations } = useQuery<DeclarationAllocations>({
+    queryKey: [`/api/declarations/${declarationId}/allocations`],
+    enabled: !!declarationId && open,
+  });
+
+  // Fetch the lifecycle state and status history
+  const { data: lifecycle } = useQuery<DeclarationLifecycle>({
+    queryKey: [`/api/declarations/${declarationId}/transitions`],
+    enabled: !!declarationId && open,
+  });
+  const { can } = usePermissions();
+  const declarationModule = declaration?.type === "outbound" ? "outbound_declarations" : "inbound_declarations";
+  const [transitionReason, setTransitionReason] = useState("");
+  // The server only offers the steps the user's role permissions allow
+  const allowedTransitions = lifecycle?.available ?? [];
+
+  // Mutation for moving the declaration through its lifecycle
+  const transitionMutation = useMutation({
+    mutationFn: (rule: DeclarationTransitionRule) => {
+      return apiRequest(`/api/declarations/${declarationId}/transitions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action: rule.action, reason: transitionReason.trim() || undefined })
+      });
+    },
+    onSuccess: (_, rule) => {
+      toast({
+        title: "Status Updated",
+        description: `Declaration is now ${DECLARATION_STATE_LABELS[rule.to].toLowerCase()}`,
+        variant: "default",
+      });
+      setTransitionReason("");
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations', declarationId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/declarations/${declarationId}/transitions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/declarations/${declarationId}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Status Change Failed",
+        description: serverMessage(error),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleTransition = (rule: DeclarationTransitionRule) => {
+    if (rule.requiresReason && !transitionReason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: `Enter a reason to ${rule.label.toLowerCase()} this declaration`,
+        variant: "destructive",
+      });
+      return;
+    }
+    transitionMutation.mutate(rule);
+  };
+
   // Mutation for updating RM ID
   const updateDeclarationMutation = useMutation({
     mutationFn: (data: { rmId: string }) => {
@@ -142,12 +329,109 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
     }
   };
 
+  // Submissions to the EU Information System, polled while one awaits registration
+  const { data: euisSubmissions = [] } = useQuery<EUISSubmissionEntry[]>({
+    queryKey: [`/api/declarations/${declarationId}/eu-is-submissions`],
+    enabled: !!declarationId && open,
+    refetchInterval: (query) =>
+      query.state.data?.some(isPendingSubmission) ? 15000 : false,
+  });
+  const awaitingRegistration = euisSubmissions.some(isPendingSubmission);
+  const latestSubmission = euisSubmissions[0];
+  const latestSubmissionStatus = latestSubmission?.status;
+
+  // Registration stores the reference numbers and files the declaration
+  useEffect(() => {
+    if (latestSubmission && !isPendingSubmission(latestSubmission)) {
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations', declarationId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/declarations/${declarationId}/transitions`] });
+    }
+  }, [latestSubmissionStatus]);
+
+  const fileDDSMutation = useMutation({
+    mutationFn: () => {
+      return apiRequest(`/api/declarations/${declarationId}/eu-is-submissions`, {
+        method: 'POST'
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "DDS Submitted",
+        description: "The EU Information System accepted the statement; its reference number follows once it is registered",
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/declarations/${declarationId}/eu-is-submissions`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "DDS Filing Failed",
+        description: serverMessage(error),
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/declarations/${declarationId}/eu-is-submissions`] });
+    }
+  });
+
   const handleFileDDS = () => {
-    toast({
-      title: "DDS Filing Initiated",
-      description: "Your Due Diligence Statement is being prepared for submission to EU Traces",
-      variant: "default",
+    fileDDSMutation.mutate();
+  };
+
+  // Download the plots in the EU Information System GeoJSON profile
+  const handleExportEUIS = async () => {
+    if (!declaration) return;
+    
+    const res = await fetch(`/api/declarations/${declaration.id}/geojson/export?profile=eu-is`, {
+      credentials: "include",
     });
+    
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      const rejected: EUISExportRejection[] = body?.rejected || [];
+      toast({
+        title: "EU-IS Export Failed",
+        description: rejected.length > 0
+          ? `${rejected[0].plotId}: ${rejected[0].reasons[0]}${rejected.length > 1 ? ` (and ${rejected.length - 1} more plot(s))` : ""}`
+          : body?.message || "Failed to export GeoJSON",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const fileName = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1]
+      || `declaration-${declaration.id}-eu-is.geojson`;
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadDDS = async (ddsFormat: "pdf" | "json") => {
+    if (!declaration) return;
+    
+    const res = await fetch(`/api/declarations/${declaration.id}/dds?format=${ddsFormat}`, {
+      credentials: "include",
+    });
+    
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      toast({
+        title: "DDS Download Failed",
+        description: body?.message || "Failed to generate the due diligence statement",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const fileName = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1]
+      || `dds-declaration-${declaration.id}.${ddsFormat}`;
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   // Return early if dialog is not open
@@ -253,6 +537,9 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
             
             <div>
               <h3 className="text-sm font-medium text-gray-500 mb-2">Items</h3>
+              {declaration.items && declaration.items.length > 0 ? (
+                <DeclarationItemsTable items={declaration.items.map(fromStoredDeclarationItem)} readOnly />
+              ) : (
               <div className="bg-gray-50 p-3 rounded-md">
                 {declaration.productName ? (
                   <p>
@@ -262,6 +549,7 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
                   <p className="text-gray-400">1.</p>
                 )}
               </div>
+              )}
             </div>
             
             <div>
@@ -272,6 +560,23 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
                     <>
                       <CheckCircle2 className="h-4 w-4 text-green-500 mr-2" />
                       <span>Uploaded</span>
+                      <a
+                        href={`/api/map-proxy?declarationId=${declaration.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-3 inline-flex items-center text-sm text-primary hover:underline"
+                      >
+                        View on map
+                        <ExternalLink className="h-3 w-3 ml-1" />
+                      </a>
+                      <button
+                        type="button"
+                        onClick={handleExportEUIS}
+                        className="ml-3 inline-flex items-center text-sm text-primary hover:underline"
+                      >
+                        Export for EU-IS
+                        <Download className="h-3 w-3 ml-1" />
+                      </button>
                     </>
                   ) : (
                     <>
@@ -307,9 +612,81 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
                     <p className="mt-1 ml-6">The provided GeoJSON data contains geometry validation errors. Please correct the geometry issues and resubmit.</p>
                   </div>
                 )}
+
+                {isLoadingOverlaps ? (
+                  <p className="text-sm text-gray-500 mt-2">Checking for overlapping plots...</p>
+                ) : overlaps.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 p-2 rounded-md text-sm text-red-800 mt-2 w-full">
+                    <div className="flex items-center">
+                      <AlertCircle className="h-4 w-4 text-red-500 mr-2" />
+                      <span className="font-medium">
+                        {overlaps.length} plot conflict{overlaps.length === 1 ? "" : "s"} with other declarations
+                      </span>
+                    </div>
+                    <ul className="mt-2 ml-6 space-y-1">
+                      {overlaps.map((overlap, index) => (
+                        <li key={`${overlap.plotId}-${overlap.otherDeclarationId}-${overlap.otherPlotId}-${index}`}>
+                          <span className="font-medium">{overlapKindLabels[overlap.kind]}:</span>{" "}
+                          {overlap.plotId} matches {overlap.otherPlotId} in declaration #{overlap.otherDeclarationId}{" "}
+                          ({overlap.otherProductName}, {overlap.otherSupplierName || `Supplier ${overlap.otherSupplierId}`})
+                          {overlap.overlapPercent !== null && overlap.kind === "overlap" && (
+                            <> &ndash; {overlap.overlapPercent}% shared{overlap.overlapHectares !== null ? ` (${overlap.overlapHectares} ha)` : ""}</>
+                          )}
+                          {overlap.differentSupplier && (
+                            <Badge className="ml-2 bg-red-500">Different supplier</Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {geojsonEdits.length > 0 && (
+                  <div className="bg-gray-50 p-2 rounded-md text-sm mt-2 w-full">
+                    <div className="flex items-center">
+                      <Clock className="h-4 w-4 text-gray-500 mr-2" />
+                      <span className="font-medium">Plot edit history</span>
+                    </div>
+                    <ul className="mt-2 ml-6 space-y-1">
+                      {geojsonEdits.map(edit => (
+                        <li key={edit.id}>
+                          <span className="text-gray-500">{format(new Date(edit.createdAt), "MMM d, yyyy HH:mm")}</span>{" "}
+                          <span className="font-medium">{edit.userName}</span>{" "}
+                          {edit.changes
+                            .map(change => `${editChangeLabels[change.change]} ${change.plotId}`)
+                            .join(", ")}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
             
+            {allocations && (allocations.balance || allocations.drawsFrom.length > 0) && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-2">Mass Balance</h3>
+                <div className="bg-gray-50 p-3 rounded-md text-sm space-y-1">
+                  {allocations.balance && (
+                    <p>
+                      {allocations.balance.allocated.toLocaleString()} of {allocations.balance.quantity.toLocaleString()} {allocations.balance.unit || "units"} drawn
+                      by outbound declarations; <span className="font-medium">{allocations.balance.remaining.toLocaleString()} {allocations.balance.unit || "units"} remaining</span>
+                    </p>
+                  )}
+                  {allocations.drawnBy.map(allocation => (
+                    <p key={allocation.id} className="text-gray-600">
+                      Outbound declaration #{allocation.outboundDeclarationId}: {allocation.quantity.toLocaleString()} {allocation.unit || "units"}
+                    </p>
+                  ))}
+                  {allocations.drawsFrom.map(allocation => (
+                    <p key={allocation.id}>
+                      Draws {allocation.quantity.toLocaleString()} {allocation.unit || "units"} from inbound declaration #{allocation.inboundDeclarationId}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {declaration.type === "outbound" && (
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-2">Customer</h3>
@@ -335,6 +712,30 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
                   supplier?.name || "Supplier undefined"}
               </p>
             </div>
+
+            {declaration.references && declaration.references.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-2">
+                  {declaration.type === "outbound" ? "Upstream EU Reference Numbers" : "EU Reference Numbers"}
+                </h3>
+                <div className="space-y-1">
+                  {declaration.references.map(reference => (
+                    <div key={reference.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-mono">
+                        {reference.referenceNumber}{reference.verificationNumber ? ` / ${reference.verificationNumber}` : ""}
+                      </span>
+                      <Badge variant="outline">{EU_REFERENCE_SOURCE_LABELS[reference.source]}</Badge>
+                      <Badge
+                        variant="outline"
+                        className={reference.validationStatus === "invalid_format" ? "border-red-200 text-red-700" : "border-green-200 text-green-700"}
+                      >
+                        {EU_REFERENCE_VALIDATION_LABELS[reference.validationStatus]}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             
             {declaration.type === "outbound" && (
               <div>
@@ -381,6 +782,82 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
               </div>
             )}
             
+            <div>
+              <div className="flex items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-500 mr-2">Status:</h3>
+                {lifecycle && <StatusBadge status={DECLARATION_STATE_LABELS[lifecycle.state]} />}
+              </div>
+              {allowedTransitions.length > 0 && (
+                <div className="space-y-2 mb-4">
+                  <Textarea
+                    placeholder="Reason (required to reject, amend or withdraw)"
+                    className="min-h-[60px]"
+                    value={transitionReason}
+                    onChange={(e) => setTransitionReason(e.target.value)}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {allowedTransitions.map(rule => (
+                      <Button
+                        key={rule.action}
+                        type="button"
+                        size="sm"
+                        variant={rule.action === "reject" || rule.action === "withdraw" ? "destructive" : "outline"}
+                        disabled={transitionMutation.isPending}
+                        onClick={() => handleTransition(rule)}
+                      >
+                        {rule.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {lifecycle && lifecycle.transitions.length > 0 ? (
+                <ActivityTimeline
+                  activities={lifecycle.transitions.map(transition => ({
+                    id: transition.id,
+                    type: transition.toStatus,
+                    title: `${DECLARATION_STATE_LABELS[transition.fromStatus]} → ${DECLARATION_STATE_LABELS[transition.toStatus]}`,
+                    description: `${transition.actorName}${transition.actorRole ? ` (${transition.actorRole})` : ""}${transition.reason ? `: ${transition.reason}` : ""}`,
+                    timestamp: transition.createdAt,
+                  }))}
+                />
+              ) : (
+                <p className="text-sm text-gray-400">No status changes recorded yet</p>
+              )}
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Versions</h3>
+              <DeclarationVersionsPanel declarationId={declaration.id} />
+            </div>
+            
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">EU Information System</h3>
+              {euisSubmissions.length > 0 ? (
+                <ul className="text-sm space-y-2">
+                  {euisSubmissions.map(submission => (
+                    <li key={submission.id} className="flex items-start gap-2">
+                      <StatusBadge status={euisStatusLabels[submission.status]} />
+                      <div>
+                        <p>
+                          {submission.declarationVersion ? `Version ${submission.declarationVersion}` : "Statement"} submitted{" "}
+                          {format(new Date(submission.createdAt), "MMM d, yyyy HH:mm")}
+                        </p>
+                        {submission.referenceNumber && (
+                          <p className="text-gray-600">
+                            Reference {submission.referenceNumber} · Verification {submission.verificationNumber || "-"}
+                          </p>
+                        )}
+                        {submission.errorMessage && <p className="text-red-600">{submission.errorMessage}</p>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-400">Not submitted to the EU-IS yet</p>
+              )}
+            </div>
+            
             <div>
               <h3 className="text-sm font-medium text-gray-500 mb-2">Comments</h3>
               <Textarea 
@@ -403,14 +880,25 @@ export default function DeclarationDetailView({ open, onOpenChange, declarationI
         </div>
         
         <DialogFooter className="space-x-2">
-          <Button 
-            type="button" 
-            className="bg-blue-600 hover:bg-blue-700"
-            onClick={handleFileDDS}
-          >
-            <FileText className="h-4 w-4 mr-2" />
-            File DDS in EU Traces
+          <Button type="button" variant="outline" onClick={() => handleDownloadDDS("pdf")}>
+            <Download className="h-4 w-4 mr-2" />
+            Download DDS (PDF)
+          </Button>
+          <Button type="button" variant="outline" onClick={() => handleDownloadDDS("json")}>
+            <Download className="h-4 w-4 mr-2" />
+            DDS JSON
           </Button>
+          {can(declarationModule, "file_eu_is") && (
+            <Button 
+              type="button" 
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={handleFileDDS}
+              disabled={fileDDSMutation.isPending || awaitingRegistration || lifecycle?.state !== "approved"}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              File DDS in EU Traces
+            </Button>
+          )}
           <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
             Close
           </Button>
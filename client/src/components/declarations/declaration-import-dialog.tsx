@@ -0,0 +1,186 @@
+import React, { useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface ImportRowError {
+  row: number;
+  shipmentReference: string | null;
+  reason: string;
+}
+
+interface DeclarationImport {
+  id: number;
+  fileName: string;
+  totalRows: number;
+  importedRows: number;
+  rejectedRows: number;
+  declarations: { declarationId: number; shipmentReference: string }[];
+  errors: ImportRowError[];
+}
+
+interface DeclarationImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Rejected rows listed in the dialog; the error report has all of them
+const SHOWN_ERRORS = 10;
+
+async function uploadImport(file: File): Promise<DeclarationImport> {
+  const res = await fetch(`/api/declarations/import?filename=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/octet-stream"
+    },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || `${file.name} could not be imported`);
+  }
+  return await res.json();
+}
+
+const DeclarationImportDialog: React.FC<DeclarationImportDialogProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<DeclarationImport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: uploadImport,
+    onSuccess: (declarationImport) => {
+      setResult(declarationImport);
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations/stats'] });
+      toast({
+        title: "Import finished",
+        description: `${declarationImport.declarations.length} declaration(s) created from ${declarationImport.importedRows} of ${declarationImport.totalRows} rows`,
+        variant: declarationImport.rejectedRows > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setFile(null);
+      setResult(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Inbound Declarations</DialogTitle>
+          <DialogDescription>
+            Upload an ERP export as XLSX or CSV, one row per line item. Rows with the same shipment reference
+            become one draft declaration. To attach geolocation, upload a ZIP with the spreadsheet and the
+            files named in its GeoJSON File column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border-2 border-dashed rounded-md p-6 text-center">
+          <FileSpreadsheet className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-700 mb-3">{file ? file.name : "No file selected"}</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx,.csv,.zip"
+            className="hidden"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setResult(null);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Browse Files
+          </Button>
+          <p className="text-xs text-gray-500 mt-2">Supported formats: .xlsx, .csv, .zip (max 50MB)</p>
+        </div>
+
+        <a href="/api/declarations/import-template" className="flex items-center text-sm text-blue-600 hover:text-blue-800">
+          <Download className="h-4 w-4 mr-1" />
+          Download import template
+        </a>
+
+        {result && (
+          <div className="space-y-3 text-sm">
+            <p>
+              <span className="font-medium">{result.declarations.length} declaration(s)</span> created from {result.importedRows} of {result.totalRows} rows.
+              {result.declarations.length > 0 && (
+                <span className="text-gray-600"> Shipments: {result.declarations.map(declaration => declaration.shipmentReference).join(", ")}</span>
+              )}
+            </p>
+            {result.rejectedRows > 0 && (
+              <div className="border border-red-200 rounded-md">
+                <div className="flex items-center justify-between bg-red-50 px-3 py-2">
+                  <span className="font-medium text-red-700">{result.rejectedRows} row(s) rejected</span>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/declarations/imports/${result.id}/error-report`}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Error report
+                    </a>
+                  </Button>
+                </div>
+                <table className="w-full">
+                  <tbody>
+                    {result.errors.slice(0, SHOWN_ERRORS).map(error => (
+                      <tr key={error.row} className="border-t">
+                        <td className="px-3 py-1 text-gray-500 whitespace-nowrap">Row {error.row}</td>
+                        <td className="px-3 py-1 text-gray-500">{error.shipmentReference || "-"}</td>
+                        <td className="px-3 py-1">{error.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.errors.length > SHOWN_ERRORS && (
+                  <p className="px-3 py-2 text-gray-500 border-t">
+                    {result.errors.length - SHOWN_ERRORS} more in the error report
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {result ? "Close" : "Cancel"}
+          </Button>
+          <Button
+            disabled={!file || importMutation.isPending}
+            onClick={() => file && importMutation.mutate(file)}
+          >
+            {importMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              "Import"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeclarationImportDialog;
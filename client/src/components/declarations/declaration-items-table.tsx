@@ -1,6 +1,7 @@
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ProductSearchCombobox } from "@/components/ui/product-search-combobox";
+import { countries } from "@/lib/countries";
 
 export interface DeclarationItem {
   id: string;
@@ -11,33 +12,98 @@ export interface DeclarationItem {
   unit: string;
   rmId?: string; // RM ID
   skuCode?: string; // SKU Code
+  netMassKg?: string; // Net mass in kg, required when the unit is not a mass
+  countryOfProduction?: string;
   isProductSelected?: boolean; // Track if product was selected from dropdown
 }
 
+// Line item as stored in declaration_items and returned with a declaration
+export interface StoredDeclarationItem {
+  id: number;
+  productName: string;
+  hsCode: string | null;
+  quantity: number | null;
+  unit: string | null;
+  netMassKg: number | null;
+  countryOfProduction: string | null;
+  rmId: string | null;
+  skuCode: string | null;
+  batchId: string | null;
+}
+
+export function fromStoredDeclarationItem(item: StoredDeclarationItem): DeclarationItem {
+  return {
+    id: String(item.id),
+    hsnCode: item.hsCode || "",
+    productName: item.productName,
+    productCode: item.batchId || undefined,
+    quantity: item.quantity !== null ? String(item.quantity) : "",
+    unit: item.unit || "",
+    rmId: item.rmId || undefined,
+    skuCode: item.skuCode || undefined,
+    netMassKg: item.netMassKg !== null ? String(item.netMassKg) : undefined,
+    countryOfProduction: item.countryOfProduction || undefined,
+  };
+}
+
 interface DeclarationItemsTableProps {
   items: DeclarationItem[];
-  updateItem: (id: string, field: keyof DeclarationItem, value: string | boolean) => void;
+  updateItem?: (id: string, field: keyof DeclarationItem, value: string | boolean) => void;
+  readOnly?: boolean; // Show saved items without inputs
 }
 
-export default function DeclarationItemsTable({ items, updateItem }: DeclarationItemsTableProps) {
+export default function DeclarationItemsTable({ items, updateItem = () => {}, readOnly = false }: DeclarationItemsTableProps) {
+  if (readOnly) {
+    return (
+      <div className="border rounded overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="px-3 py-2 text-left font-medium">Product Name</th>
+              <th className="px-3 py-2 text-left font-medium">HSN Code</th>
+              <th className="px-3 py-2 text-left font-medium">Quantity</th>
+              <th className="px-3 py-2 text-left font-medium">Net Mass</th>
+              <th className="px-3 py-2 text-left font-medium">Country of Production</th>
+              <th className="px-3 py-2 text-left font-medium">RM ID / Batch</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.id} className="border-b last:border-0">
+                <td className="px-3 py-2">{item.productName}</td>
+                <td className="px-3 py-2">{item.hsnCode || "-"}</td>
+                <td className="px-3 py-2">{item.quantity ? `${item.quantity} ${item.unit}` : "-"}</td>
+                <td className="px-3 py-2">{item.netMassKg ? `${item.netMassKg} kg` : "-"}</td>
+                <td className="px-3 py-2">{item.countryOfProduction || "-"}</td>
+                <td className="px-3 py-2">{[item.rmId, item.productCode].filter(Boolean).join(" / ") || "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
   return (
     <div className="border rounded overflow-hidden">
       <table className="w-full table-fixed">
         <thead>
           <tr className="bg-gray-50 border-b">
-            <th className="w-[22%] px-3 py-2 text-left text-sm font-medium">Product Name <span className="text-red-500">*</span><br/><span className="text-xs font-normal text-gray-500">Select from dropdown</span></th>
-            <th className="w-[13%] px-3 py-2 text-left text-sm font-medium">SKU Code</th>
-            <th className="w-[15%] px-3 py-2 text-left text-sm font-medium">HSN Code <span className="text-red-500">*</span></th>
-            <th className="w-[12%] px-3 py-2 text-left text-sm font-medium">RM ID</th>
-            <th className="w-[18%] px-3 py-2 text-left text-sm font-medium">Outbound Batch ID</th>
-            <th className="w-[12%] px-3 py-2 text-left text-sm font-medium">Quantity <span className="text-red-500">*</span></th>
-            <th className="w-[8%] px-3 py-2 text-left text-sm font-medium">Unit</th>
+            <th className="w-[18%] px-3 py-2 text-left text-sm font-medium">Product Name <span className="text-red-500">*</span><br/><span className="text-xs font-normal text-gray-500">Select from dropdown</span></th>
+            <th className="w-[10%] px-3 py-2 text-left text-sm font-medium">SKU Code</th>
+            <th className="w-[12%] px-3 py-2 text-left text-sm font-medium">HSN Code <span className="text-red-500">*</span></th>
+            <th className="w-[9%] px-3 py-2 text-left text-sm font-medium">RM ID</th>
+            <th className="w-[12%] px-3 py-2 text-left text-sm font-medium">Outbound Batch ID</th>
+            <th className="w-[10%] px-3 py-2 text-left text-sm font-medium">Quantity <span className="text-red-500">*</span></th>
+            <th className="w-[9%] px-3 py-2 text-left text-sm font-medium">Unit</th>
+            <th className="w-[10%] px-3 py-2 text-left text-sm font-medium">Net Mass (kg)</th>
+            <th className="w-[10%] px-3 py-2 text-left text-sm font-medium">Country of Production</th>
           </tr>
         </thead>
         <tbody>
           {items.map(item => (
             <tr key={item.id}>
-              <td className="w-[22%] px-3 py-2">
+              <td className="w-[18%] px-3 py-2">
                 <div className="w-full">
                   <ProductSearchCombobox
                     value={item.productName}
@@ -57,7 +123,7 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   />
                 </div>
               </td>
-              <td className="w-[13%] px-3 py-2">
+              <td className="w-[10%] px-3 py-2">
                 <Input
                   id={`sku-code-${item.id}`}
                   placeholder="e.g. SKU-123"
@@ -66,7 +132,7 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   className="text-sm"
                 />
               </td>
-              <td className="w-[15%] px-3 py-2">
+              <td className="w-[12%] px-3 py-2">
                 <Input
                   id={`hsn-code-${item.id}`}
                   placeholder="e.g. 1511.10.00"
@@ -76,7 +142,7 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   className={`text-sm ${item.isProductSelected ? "bg-gray-50 cursor-not-allowed" : ""}`}
                 />
               </td>
-              <td className="w-[12%] px-3 py-2">
+              <td className="w-[9%] px-3 py-2">
                 <Input
                   id={`rm-id-${item.id}`}
                   placeholder="e.g. RM123"
@@ -85,7 +151,7 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   className="text-sm"
                 />
               </td>
-              <td className="w-[18%] px-3 py-2">
+              <td className="w-[12%] px-3 py-2">
                 <Input
                   id={`outbound-batch-id-${item.id}`}
                   placeholder="e.g. OB12345"
@@ -94,7 +160,7 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   className="text-sm"
                 />
               </td>
-              <td className="w-[12%] px-3 py-2">
+              <td className="w-[10%] px-3 py-2">
                 <Input
                   id={`quantity-${item.id}`}
                   type="text"
@@ -108,7 +174,7 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   className="text-sm"
                 />
               </td>
-              <td className="w-[8%] px-3 py-2">
+              <td className="w-[9%] px-3 py-2">
                 <Select
                   value={item.unit}
                   onValueChange={(value) => updateItem(item.id, 'unit', value)}
@@ -125,6 +191,34 @@ export default function DeclarationItemsTable({ items, updateItem }: Declaration
                   </SelectContent>
                 </Select>
               </td>
+              <td className="w-[10%] px-3 py-2">
+                <Input
+                  id={`net-mass-${item.id}`}
+                  type="text"
+                  placeholder={item.unit === "kg" || item.unit === "ton" ? "Auto" : "e.g. 5000"}
+                  value={item.netMassKg || ''}
+                  onChange={(e) => {
+                    const value = e.target.value.replace(/[^0-9.]/g, '');
+                    updateItem(item.id, 'netMassKg', value);
+                  }}
+                  className="text-sm"
+                />
+              </td>
+              <td className="w-[10%] px-3 py-2">
+                <Select
+                  value={item.countryOfProduction || ''}
+                  onValueChange={(value) => updateItem(item.id, 'countryOfProduction', value)}
+                >
+                  <SelectTrigger id={`country-of-production-${item.id}`} className="text-sm">
+                    <SelectValue placeholder="Country" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {countries.map(country => (
+                      <SelectItem key={country} value={country}>{country}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </td>
             </tr>
           ))}
         </tbody>
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { GeoJSONEditChange } from "@shared/geojson-validation";
+import type { DeclarationSnapshotItem, DeclarationVersionDiff } from "@shared/declaration-versions";
+
+interface DeclarationVersionEntry {
+  id: number;
+  version: number;
+  previousVersionId: number | null;
+  reason: string | null;
+  createdByName: string;
+  createdAt: string;
+}
+
+interface DeclarationVersions {
+  editable: boolean; // The working copy may differ from the latest version
+  versions: DeclarationVersionEntry[];
+}
+
+const plotChangeLabels: Record<GeoJSONEditChange["change"], string> = {
+  "added": "Added",
+  "deleted": "Removed",
+  "geometry-changed": "Boundary changed",
+  "properties-changed": "Details changed",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "MMM d, yyyy");
+  }
+  if (Array.isArray(value)) {
+    // EU reference pairs as "reference / verification"
+    return value
+      .map(entry => entry?.referenceNumber ? [entry.referenceNumber, entry.verificationNumber].filter(Boolean).join(" / ") : formatValue(entry))
+      .join(", ") || "-";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function formatItem(item: DeclarationSnapshotItem | null): string {
+  if (!item) return "-";
+  return [
+    item.quantity !== null ? `${item.quantity} ${item.unit || ""}`.trim() : null,
+    item.netMassKg !== null ? `${item.netMassKg} kg net` : null,
+    item.hsCode ? `HS ${item.hsCode}` : null,
+    item.countryOfProduction,
+  ].filter(Boolean).join(" · ") || "-";
+}
+
+const versionLabel = (version: number | "current") => version === "current" ? "Working copy" : `Version ${version}`;
+
+interface DeclarationVersionsPanelProps {
+  declarationId: number;
+}
+
+// Sealed versions of a declaration and a side-by-side comparison of two of them
+export default function DeclarationVersionsPanel({ declarationId }: DeclarationVersionsPanelProps) {
+  const { data } = useQuery<DeclarationVersions>({
+    queryKey: [`/api/declarations/${declarationId}/versions`],
+  });
+  const versions = data?.versions ?? [];
+
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+
+  // Compare the latest version with its predecessor, or with the working copy while it is being edited
+  useEffect(() => {
+    if (!data || versions.length === 0) return;
+    const latest = versions[versions.length - 1].version;
+    if (data.editable) {
+      setFrom(String(latest));
+      setTo("current");
+    } else {
+      setFrom(String(Math.max(latest - 1, 1)));
+      setTo(String(latest));
+    }
+  }, [data]);
+
+  const { data: diff, isLoading: isComparing } = useQuery<DeclarationVersionDiff>({
+    queryKey: [`/api/declarations/${declarationId}/versions/compare?from=${from}&to=${to}`],
+    enabled: !!from && !!to && from !== to,
+    staleTime: 0, // The working copy changes while a declaration is amended
+  });
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-400">No version has been submitted yet</p>;
+  }
+
+  const options = [
+    ...versions.map(version => ({ value: String(version.version), label: versionLabel(version.version) })),
+    ...(data?.editable ? [{ value: "current", label: versionLabel("current") }] : []),
+  ];
+  const hasChanges = !!diff && (diff.fields.length > 0 || diff.items.length > 0 || diff.geometry.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <ul className="text-sm space-y-1">
+        {versions.map(version => (
+          <li key={version.id}>
+            <span className="font-medium">Version {version.version}</span>{" "}
+            <span className="text-gray-500">
+              submitted {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")} by {version.createdByName}
+            </span>
+            {version.reason && <span className="text-gray-600"> — {version.reason}</span>}
+          </li>
+        ))}
+      </ul>
+
+      {options.length > 1 && (
+        <div className="border rounded-md p-3 space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-500">Compare</span>
+            <Select value={from} onValueChange={setFrom}>
+              <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {options.filter(option => option.value !== "current").map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-gray-500">with</span>
+            <Select value={to} onValueChange={setTo}>
+              <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {from === to ? (
+            <p className="text-sm text-gray-400">Select two different versions</p>
+          ) : isComparing || !diff ? (
+            <p className="text-sm text-gray-400">Comparing...</p>
+          ) : !hasChanges ? (
+            <p className="text-sm text-gray-500">No differences</p>
+          ) : (
+            <table className="w-full text-sm table-fixed">
+              <thead>
+                <tr className="bg-gray-50 border-b text-left">
+                  <th className="w-1/4 px-3 py-2 font-medium"></th>
+                  <th className="px-3 py-2 font-medium">{versionLabel(diff.from)}</th>
+                  <th className="px-3 py-2 font-medium">{versionLabel(diff.to)}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.fields.map(change => (
+                  <tr key={change.field} className="border-b">
+                    <td className="px-3 py-2 text-gray-500">{change.label}</td>
+                    <td className="px-3 py-2 bg-red-50 break-words">{formatValue(change.before)}</td>
+                    <td className="px-3 py-2 bg-green-50 break-words">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+                {diff.items.map(change => (
+                  <tr key={`item-${change.key}`} className="border-b">
+                    <td className="px-3 py-2 text-gray-500">Item: {change.key}</td>
+                    <td className={cn("px-3 py-2", change.before && "bg-red-50")}>{formatItem(change.before)}</td>
+                    <td className={cn("px-3 py-2", change.after && "bg-green-50")}>{formatItem(change.after)}</td>
+                  </tr>
+                ))}
+                {diff.geometry.map(change => (
+                  <tr key={`plot-${change.plotId}`} className="border-b last:border-0">
+                    <td className="px-3 py-2 text-gray-500">Plot: {change.plotId}</td>
+                    <td className={cn("px-3 py-2", change.change !== "added" && "bg-red-50")}>
+                      {change.change === "added" ? "-" : change.geometryType || "Plot"}
+                    </td>
+                    <td className={cn("px-3 py-2", change.change !== "deleted" && "bg-green-50")}>
+                      {plotChangeLabels[change.change]}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
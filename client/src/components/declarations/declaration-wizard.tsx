@@ -26,6 +26,10 @@ import ValidationDetailsDialog, {
   ValidationPlot
 } from "./validation-details-dialog";
 import GeoJSONValidationModal from "./geojson-validation-modal";
+import { convertGeoFile, GEO_FILE_ACCEPT, GeoFileConversionError, isGeoFile } from "@/lib/geo-file";
+import { applySatelliteResults } from "@shared/geojson-validation";
+import { referenceFormatError } from "@shared/eu-reference-numbers";
+import type { DeforestationCheckResult, GeoJSONValidationResult, ValidationLocation } from "@shared/geojson-validation";
 import satelliteMapImage from "../../assets/satellite-map.png";
 
 // Declaration types
@@ -128,6 +132,9 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
   const [showValidationDetails, setShowValidationDetails] = useState<string | null>(null); // 'validation' or null
   const [selectedPlot, setSelectedPlot] = useState<string | null>(null); // To store which plot is selected in the details view
   const [validationPlots, setValidationPlots] = useState<ValidationPlot[]>([]);
+  const [validationLocations, setValidationLocations] = useState<ValidationLocation[]>([]);
+  const [geojsonData, setGeojsonData] = useState<any>(null);
+  const [conversionWarnings, setConversionWarnings] = useState<string[]>([]);
   const [plotSearchTerm, setPlotSearchTerm] = useState("");
   const [showGeoJSONValidationModal, setShowGeoJSONValidationModal] = useState(false);
   
@@ -286,147 +293,6 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
     }
   };
 
-  // Generate sample validation plots with various validation states
-  const generateValidationPlots = () => {
-    const currentDate = new Date().toISOString().split('T')[0];
-    
-    // Plot A - All compliant
-    const plotA: ValidationPlot = {
-      id: "plot-1",
-      name: "Plot A",
-      plotId: "POL-001",
-      area: 125.4,
-      areaUnit: "hectares",
-      perimeter: 2.4,
-      perimeterUnit: "km",
-      coordinates: "12.345°N, 76.901°E",
-      vertices: 28,
-      status: "compliant",
-      geometryStatus: "compliant",
-      satelliteStatus: "compliant",
-      lastValidated: currentDate,
-      createdAt: "2025-01-15",
-      issues: []
-    };
-
-    // Plot B - Geometry issues
-    const plotB: ValidationPlot = {
-      id: "plot-2",
-      name: "Plot B",
-      plotId: "POL-002",
-      area: 98.7,
-      areaUnit: "hectares",
-      perimeter: 1.8,
-      perimeterUnit: "km",
-      coordinates: "12.355°N, 76.912°E",
-      vertices: 24,
-      status: "non-compliant",
-      geometryStatus: "non-compliant",
-      satelliteStatus: "warning",
-      lastValidated: currentDate,
-      createdAt: "2025-01-18",
-      issues: [
-        {
-          type: "geometry",
-          message: "Self-intersection detected",
-          details: "Polygon has self-intersecting boundaries at coordinates (12.352°N, 76.908°E)",
-          severity: "error"
-        },
-        {
-          type: "geometry",
-          message: "Invalid vertex count",
-          details: "Polygons must have at least 4 vertices to form a valid closed shape",
-          severity: "error"
-        }
-      ]
-    };
-
-    // Plot C - Satellite issues
-    const plotC: ValidationPlot = {
-      id: "plot-3",
-      name: "Plot C",
-      plotId: "POL-003",
-      area: 142.1,
-      areaUnit: "hectares",
-      perimeter: 3.2,
-      perimeterUnit: "km",
-      coordinates: "12.365°N, 76.925°E",
-      vertices: 32,
-      status: "non-compliant",
-      geometryStatus: "compliant",
-      satelliteStatus: "non-compliant",
-      lastValidated: currentDate,
-      createdAt: "2025-01-20",
-      issues: [
-        {
-          type: "satellite",
-          message: "Deforestation detected",
-          details: "Satellite imagery shows evidence of recent deforestation in the northwest section",
-          severity: "error"
-        },
-        {
-          type: "satellite",
-          message: "Land use change detected",
-          details: "Comparison with historical imagery shows unauthorized land use change since 2020",
-          severity: "error"
-        }
-      ]
-    };
-
-    // Plot D - Both geometry and satellite warnings
-    const plotD: ValidationPlot = {
-      id: "plot-4",
-      name: "Plot D",
-      plotId: "POL-004",
-      area: 110.8,
-      areaUnit: "hectares",
-      perimeter: 2.7,
-      perimeterUnit: "km",
-      coordinates: "12.375°N, 76.938°E",
-      vertices: 26,
-      status: "warning",
-      geometryStatus: "warning",
-      satelliteStatus: "warning",
-      lastValidated: currentDate,
-      createdAt: "2025-01-25",
-      issues: [
-        {
-          type: "geometry",
-          message: "Boundary proximity warning",
-          details: "Polygon boundary is within 10m of a protected area border",
-          severity: "warning"
-        },
-        {
-          type: "satellite",
-          message: "Potential water body encroachment",
-          details: "Satellite imagery suggests possible encroachment into seasonal water body",
-          severity: "warning"
-        }
-      ]
-    };
-
-    // Plot E - All compliant
-    const plotE: ValidationPlot = {
-      id: "plot-5",
-      name: "Plot E",
-      plotId: "POL-005",
-      area: 135.6,
-      areaUnit: "hectares",
-      perimeter: 2.2,
-      perimeterUnit: "km",
-      coordinates: "12.385°N, 76.945°E",
-      vertices: 30,
-      status: "compliant",
-      geometryStatus: "compliant",
-      satelliteStatus: "compliant",
-      lastValidated: currentDate,
-      createdAt: "2025-01-28",
-      issues: []
-    };
-    
-    return [plotA, plotB, plotC, plotD, plotE];
-  };
-
   // Handle file upload simulation
   const handleGeoJSONUpload = () => {
     if (geoJsonFileInputRef.current) {
@@ -440,10 +306,10 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
       const file = files[0];
       
       // Validate file type
-      if (!file.name.toLowerCase().endsWith('.geojson') && !file.name.toLowerCase().endsWith('.json')) {
+      if (!isGeoFile(file.name)) {
         toast({
           title: "Invalid file type",
-          description: "Please select a GeoJSON file (.geojson or .json)",
+          description: "Please select a GeoJSON, KML, KMZ, zipped Shapefile or GPX file",
           variant: "destructive",
         });
         return;
@@ -453,7 +319,7 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
       if (file.size > 10 * 1024 * 1024) {
         toast({
           title: "File too large",
-          description: "GeoJSON file must be smaller than 10MB",
+          description: "Plot file must be smaller than 10MB",
           variant: "destructive",
         });
         return;
@@ -471,71 +337,82 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
         variant: "default",
       });
       
-      // Generate validation plot data
-      const plots = generateValidationPlots();
-      
-      // Simulate geometry validation check - different logic for inbound vs outbound
-      setTimeout(() => {
-        // For inbound declarations: always fail validation
-        // For outbound declarations: always pass validation
-        const geometryIsValid = declarationType === "outbound";
-        
-        // Generate validation plots based on declaration type
-        const validationPlots = declarationType === "outbound" 
-          ? plots.map(plot => ({
-              ...plot,
-              geometryStatus: "compliant" as const,
-              satelliteStatus: "compliant" as const,
-              status: "compliant" as const,
-              issues: []
-            }))
-          : plots.map(plot => ({
-              ...plot,
-              geometryStatus: "non-compliant" as const,
-              satelliteStatus: "non-compliant" as const,
-              status: "non-compliant" as const,
-              issues: [
-                {
-                  type: "geometry" as const,
-                  message: "Geometry validation failed",
-                  details: "The provided GeoJSON contains invalid geometric structures that do not meet EUDR compliance requirements",
-                  severity: "error" as const
-                },
-                {
-                  type: "satellite" as const,
-                  message: "Satellite validation failed",
-                  details: "Satellite imagery analysis indicates potential deforestation activity in the specified area",
-                  severity: "error" as const
-                }
-              ]
-            }));
-        
-        setGeometryValid(geometryIsValid);
-        setValidationPlots(validationPlots);
-        
-        // Proceed to satellite check
-        setTimeout(() => {
-          // Same logic: outbound passes, inbound fails
-          const satelliteIsValid = declarationType === "outbound";
-          
-          setSatelliteValid(satelliteIsValid);
-          setIsValidating(false);
+      let uploadedGeoJSON: unknown = null;
+      convertGeoFile(file)
+        .then(conversion => {
+          const parsed = conversion.geojsonData;
+          setConversionWarnings(conversion.warnings);
+          uploadedGeoJSON = parsed;
+          setGeojsonData(parsed);
+          return apiRequest('/api/declarations/validate-geojson', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ geojsonData: parsed })
+          }) as Promise<GeoJSONValidationResult>;
+        })
+        .then(result => {
+          setGeometryValid(result.valid);
+          setValidationPlots(result.plots);
+          setValidationLocations(result.locations);
           
-          if (declarationType === "outbound") {
-            toast({
-              title: "Validation successful",
-              description: "GeoJSON geometry and satellite checks passed successfully.",
-              variant: "default",
-            });
-          } else {
+          if (!result.valid) {
+            setIsValidating(false);
+            const invalidCount = result.locations.filter(location => location.status === "invalid").length;
             toast({
               title: "Validation failed",
-              description: "GeoJSON validation failed. Please review the geometry and satellite data.",
+              description: result.errors[0] || `${invalidCount} of ${result.featureCount} plots failed the geometry check. Please review the validation details.`,
               variant: "destructive",
             });
+            return;
           }
-        }, 2000);
-      }, 1500);
+          
+          // Proceed to satellite check against the forest-loss datasets
+          return (apiRequest('/api/declarations/check-deforestation', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ geojsonData: uploadedGeoJSON })
+          }) as Promise<DeforestationCheckResult>).then(deforestation => {
+            const satelliteIsValid = deforestation.plots.every(plot => plot.status !== "non-compliant");
+            setValidationPlots(applySatelliteResults(result.plots, deforestation));
+            setSatelliteValid(satelliteIsValid);
+            setIsValidating(false);
+            
+            if (satelliteIsValid) {
+              toast({
+                title: "Validation successful",
+                description: deforestation.checked
+                  ? "GeoJSON geometry and satellite checks passed successfully."
+                  : "GeoJSON geometry check passed. No forest-loss dataset is available for the satellite check.",
+                variant: "default",
+              });
+            } else {
+              const lossCount = deforestation.plots.filter(plot => plot.lossDetected).length;
+              toast({
+                title: "Validation failed",
+                description: `Forest loss after ${deforestation.cutoffDate} detected on ${lossCount} plot(s). Please review the validation details.`,
+                variant: "destructive",
+              });
+            }
+          });
+        })
+        .catch(error => {
+          console.error("Error validating GeoJSON:", error);
+          setIsValidating(false);
+          setHasUploadedGeoJSON(false);
+          setGeojsonData(null);
+          setConversionWarnings([]);
+          toast({
+            title: "Invalid plot file",
+            description: error instanceof GeoFileConversionError
+              ? error.message
+              : "The plot file could not be validated. Please try again.",
+            variant: "destructive",
+          });
+        });
     }
   };
 
@@ -623,6 +500,12 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
     setReferenceNumberPairs(prev => prev.filter(pair => pair.id !== id));
   };
 
+  // Format problem of a reference pair; blank pairs are left out of the declaration
+  const referencePairError = (pair: ReferenceNumberPair): string | null => {
+    if (!pair.referenceNumber.trim() && !pair.verificationNumber.trim()) return null;
+    return referenceFormatError(pair.referenceNumber, pair.verificationNumber);
+  };
+
   // Check if reference numbers should be shown based on supplier country
   const checkForReferenceNumbers = (supplier: Supplier | null) => {
     // Complete list of EU member states (case-insensitive matching)
@@ -697,6 +580,19 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
         
         // Validation removed as requested
         
+        // Upstream reference numbers must be ones the EU-IS could have issued
+        const referenceError = showReferenceNumbers
+          ? referenceNumberPairs.map(referencePairError).find(Boolean)
+          : null;
+        if (referenceError) {
+          toast({
+            title: "Invalid reference number",
+            description: referenceError,
+            variant: "destructive",
+          });
+          return false;
+        }
+        
         return true;
 
       case 2: // GeoJSON Upload
@@ -787,7 +683,7 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
     // Create a simplified payload with only required fields
     const payload = {
       type: declarationType,
-      supplierId: selectedSupplierId || 1, // Ensure we always have a supplier ID
+      supplierId: selectedSupplierId,
       productName: firstProduct,
       productDescription: formattedItems[0]?.scientificName || "",
       hsnCode: formattedItems[0]?.hsnCode || "",
@@ -796,6 +692,8 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
       status: status,
       riskLevel: "medium",
       industry: "Food & Beverage", // Default industry
+      geojsonData: geojsonData || undefined,
+      items: formattedItems,
       referenceNumberPairs: showReferenceNumbers ? referenceNumberPairs.filter(pair => 
         pair.referenceNumber.trim() !== '' || pair.verificationNumber.trim() !== ''
       ) : []
@@ -845,6 +743,9 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
     setShowValidationDetails(null);
     setSelectedPlot(null);
     setValidationPlots([]);
+    setValidationLocations([]);
+    setGeojsonData(null);
+    setConversionWarnings([]);
     setPlotSearchTerm("");
   };
 
@@ -908,7 +809,7 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
           type="file"
           ref={geoJsonFileInputRef}
           onChange={handleGeoJSONFileChange}
-          accept=".geojson,.json"
+          accept={GEO_FILE_ACCEPT}
           style={{ display: 'none' }}
         />
         <input
@@ -1230,7 +1131,7 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
                           <Label htmlFor={`ref-eudr-${pair.id}`} className="text-sm">EUDR Reference Number</Label>
                           <Input
                             id={`ref-eudr-${pair.id}`}
-                            placeholder="Enter EUDR reference number"
+                            placeholder="e.g. 25FRA1B2C3D4E5"
                             value={pair.referenceNumber}
                             onChange={(e) => updateReferenceNumberPair(pair.id, 'referenceNumber', e.target.value)}
                             className="mt-1"
@@ -1240,12 +1141,15 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
                           <Label htmlFor={`ref-verification-${pair.id}`} className="text-sm">EUDR Verification Number</Label>
                           <Input
                             id={`ref-verification-${pair.id}`}
-                            placeholder="Enter EUDR verification number"
+                            placeholder="e.g. K7P2M9QX"
                             value={pair.verificationNumber}
                             onChange={(e) => updateReferenceNumberPair(pair.id, 'verificationNumber', e.target.value)}
                             className="mt-1"
                           />
                         </div>
+                        {referencePairError(pair) && (
+                          <p className="col-span-2 text-sm text-red-600">{referencePairError(pair)}</p>
+                        )}
                         <Button 
                           variant="ghost" 
                           size="sm" 
@@ -1434,7 +1338,7 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
                   <p className="mt-4 text-sm text-gray-600">
                     {hasUploadedGeoJSON ? 
                       (isValidating ? "Validating GeoJSON file..." : "GeoJSON file uploaded successfully") : 
-                      "Drag and drop your GeoJSON file here, or click to browse"}
+                      "Drag and drop your GeoJSON, KML, KMZ, zipped Shapefile or GPX file here, or click to browse"}
                   </p>
                   {!hasUploadedGeoJSON && (
                     <Button 
@@ -1876,6 +1780,8 @@ export default function DeclarationWizard({ open, onOpenChange }: WizardProps) {
         onOpenChange={setShowGeoJSONValidationModal}
         geometryValid={geometryValid}
         satelliteValid={satelliteValid}
+        validationLocations={validationLocations}
+        conversionWarnings={conversionWarnings}
       />
     </Dialog>
   );
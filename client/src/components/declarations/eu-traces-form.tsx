@@ -103,8 +103,6 @@ const EUTracesForm: React.FC<EUTracesFormProps> = ({ open, onOpenChange, declara
         // Add submission metadata
         submittedBy: "Current User",
         submittedAt: new Date().toISOString(),
-        eudrReference: `EUDR-${Math.floor(100000 + Math.random() * 900000)}`,
-        verificationReference: `VER-${Math.floor(800000 + Math.random() * 199999)}`,
         inspectionReference: `REF-${Math.floor(600000 + Math.random() * 199999)}`,
         status: "pending",
         type: "eu_filed" // Mark this as an EU filed declaration
@@ -124,7 +122,9 @@ const EUTracesForm: React.FC<EUTracesFormProps> = ({ open, onOpenChange, declara
       });
       
       if (!response.ok) {
-        throw new Error('Failed to submit EU Traces form');
+        // Validation errors name the first invalid field
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.errors?.[0]?.message || body?.message || 'Failed to submit EU Traces form');
       }
       
       // Show success toast
@@ -142,7 +142,9 @@ const EUTracesForm: React.FC<EUTracesFormProps> = ({ open, onOpenChange, declara
       console.error("Error submitting EU Traces form:", error);
       toast({
         title: "Submission failed",
-        description: "There was an error submitting the EU Traces form. Please try again.",
+        description: error instanceof Error && error.message !== 'Failed to submit EU Traces form'
+          ? error.message
+          : "There was an error submitting the EU Traces form. Please try again.",
         variant: "destructive"
       });
     }
@@ -1,22 +1,15 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { X, ZoomIn, ZoomOut, Maximize2, Search, MapPin, CheckCircle, XCircle, Eye, ChevronDown, Download, Info } from "lucide-react";
+import { X, ZoomIn, ZoomOut, Maximize2, Search, MapPin, CheckCircle, XCircle, Eye, ChevronDown, Download, Info, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-interface ValidationLocation {
-  id: string;
-  productionPlaceId: string;
-  producerName?: string;
-  area?: string;
-  status: "valid" | "invalid";
-  coordinates?: [number, number];
-  errors?: string[];
-}
+import { apiRequest } from "@/lib/queryClient";
+import { convertGeoFile, GEO_FILE_ACCEPT, GeoFileConversionError } from "@/lib/geo-file";
+import type { GeoJSONValidationResult, ValidationLocation } from "@shared/geojson-validation";
 
 interface GeoJSONValidationModalProps {
   open: boolean;
@@ -24,124 +17,48 @@ interface GeoJSONValidationModalProps {
   geometryValid: boolean | null;
   satelliteValid: boolean | null;
   validationLocations?: ValidationLocation[];
+  declarationId?: number; // Opens the saved declaration's layer on the map
+  conversionWarnings?: string[]; // From converting a KML, KMZ, Shapefile or GPX upload
 }
 
-const mockValidationLocations: ValidationLocation[] = [
-  {
-    id: "1",
-    productionPlaceId: "PP-2430097491",
-    producerName: "Silva Farms Ltd.",
-    area: "15.2 hectares",
-    status: "valid",
-    coordinates: [7.4167, 51.2167]
-  },
-  {
-    id: "2",
-    productionPlaceId: "PP-2314566686",
-    producerName: "Green Valley Co.",
-    area: "8.7 hectares",
-    status: "invalid",
-    coordinates: [7.4200, 51.2200],
-    errors: ["Polygon self-intersects", "Ring not closed properly"]
-  },
-  {
-    id: "3",
-    productionPlaceId: "PP-6454745",
-    producerName: "Mountain Ridge Farms",
-    area: "2.1 hectares",
-    status: "invalid",
-    coordinates: [7.4100, 51.2100],
-    errors: ["Area below minimum threshold", "Missing coordinates"]
-  },
-  {
-    id: "4",
-    productionPlaceId: "PP-7585765",
-    producerName: "Riverside Agriculture",
-    area: "22.5 hectares",
-    status: "invalid",
-    coordinates: [7.4300, 51.2300],
-    errors: ["Invalid geometry type", "Coordinate system mismatch"]
-  },
-  {
-    id: "5",
-    productionPlaceId: "PP-8901234",
-    producerName: "Highland Estates",
-    area: "45.3 hectares",
-    status: "valid",
-    coordinates: [7.4150, 51.2150]
-  },
-  {
-    id: "6",
-    productionPlaceId: "PP-5678901",
-    producerName: "Coastal Palm Plantations",
-    area: "12.8 hectares",
-    status: "invalid",
-    coordinates: [7.4250, 51.2250],
-    errors: ["Overlapping boundaries", "Invalid coordinate reference system"]
-  },
-  {
-    id: "7",
-    productionPlaceId: "PP-3456789",
-    producerName: "Forest Edge Agriculture",
-    area: "33.7 hectares",
-    status: "valid",
-    coordinates: [7.4080, 51.2080]
-  },
-  {
-    id: "8",
-    productionPlaceId: "PP-9012345",
-    producerName: "Valley View Farms",
-    area: "7.2 hectares",
-    status: "invalid",
-    coordinates: [7.4320, 51.2320],
-    errors: ["Geometry contains holes", "Invalid polygon orientation"]
-  },
-  {
-    id: "9",
-    productionPlaceId: "PP-6789012",
-    producerName: "Sunrise Agricultural Co.",
-    area: "28.9 hectares",
-    status: "valid",
-    coordinates: [7.4120, 51.2120]
-  },
-  {
-    id: "10",
-    productionPlaceId: "PP-4567890",
-    producerName: "Tropical Grove Ventures",
-    area: "19.6 hectares",
-    status: "invalid",
-    coordinates: [7.4180, 51.2180],
-    errors: ["Duplicate vertices", "Self-intersecting boundaries"]
-  },
-  {
-    id: "11",
-    productionPlaceId: "PP-1234567",
-    producerName: "Meadowland Holdings",
-    area: "41.1 hectares",
-    status: "valid",
-    coordinates: [7.4070, 51.2070]
-  },
-  {
-    id: "12",
-    productionPlaceId: "PP-7890123",
-    producerName: "Emerald Fields Ltd.",
-    area: "16.4 hectares",
-    status: "invalid",
-    coordinates: [7.4270, 51.2270],
-    errors: ["Insufficient vertex count", "Non-planar geometry"]
+// Identifies this modal's layer in the map service so concurrent maps don't overwrite each other
+function createMapSessionId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
   }
-];
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
 
 export default function GeoJSONValidationModal({
   open,
   onOpenChange,
   geometryValid,
   satelliteValid,
-  validationLocations = mockValidationLocations
+  validationLocations: providedLocations = [],
+  declarationId,
+  conversionWarnings: providedWarnings = []
 }: GeoJSONValidationModalProps) {
   const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
   const [expandedErrors, setExpandedErrors] = useState<string[]>([]);
   const [mapIframe, setMapIframe] = useState<HTMLIFrameElement | null>(null);
+  // Results for a file uploaded directly in the modal replace the ones passed in
+  const [uploadedLocations, setUploadedLocations] = useState<ValidationLocation[] | null>(null);
+  const [mapSessionId] = useState(createMapSessionId);
+
+  const mapQuery = new URLSearchParams({ session: mapSessionId });
+  if (declarationId) mapQuery.set("declarationId", String(declarationId));
+
+  const [uploadedWarnings, setUploadedWarnings] = useState<string[] | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const validationLocations = uploadedLocations ?? providedLocations;
+  const conversionWarnings = uploadedWarnings ?? providedWarnings;
+
+  useEffect(() => {
+    setUploadedLocations(null);
+    setUploadedWarnings(null);
+    setUploadError(null);
+  }, [providedLocations]);
 
   const validLocations = validationLocations.filter(l => l.status === "valid");
   const invalidLocations = validationLocations.filter(l => l.status === "invalid");
@@ -178,8 +95,10 @@ export default function GeoJSONValidationModal({
     if (!file) return;
 
     try {
-      const fileText = await file.text();
-      const geoJsonData = JSON.parse(fileText);
+      setUploadError(null);
+      const conversion = await convertGeoFile(file);
+      const geoJsonData = conversion.geojsonData;
+      setUploadedWarnings(conversion.warnings);
       
       // Validate basic GeoJSON structure
       if (geoJsonData.type === 'FeatureCollection' && geoJsonData.features) {
@@ -200,9 +119,24 @@ export default function GeoJSONValidationModal({
         // Send to map for immediate visualization
         sendGeoJSONToMap(enhancedGeoJSON);
         
+        // Run the server-side geometry validation for the uploaded features
+        try {
+          const result: GeoJSONValidationResult = await apiRequest('/api/declarations/validate-geojson', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ geojsonData: geoJsonData })
+          });
+          setUploadedLocations(result.locations);
+          setSelectedLocation(null);
+        } catch (error) {
+          console.error('Error validating uploaded GeoJSON:', error);
+        }
+        
         // Also send to backend for persistence
         try {
-          const response = await fetch('/api/map-geojson', {
+          const response = await fetch(`/api/map-geojson?${mapQuery.toString()}`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json'
@@ -221,6 +155,7 @@ export default function GeoJSONValidationModal({
       }
     } catch (error) {
       console.error('Error processing uploaded file:', error);
+      setUploadError(error instanceof GeoFileConversionError ? error.message : 'The file could not be processed');
     }
   };
 
@@ -298,7 +233,7 @@ export default function GeoJSONValidationModal({
                 <label className="block">
                   <input
                     type="file"
-                    accept=".geojson,.json"
+                    accept={GEO_FILE_ACCEPT}
                     onChange={handleFileUpload}
                     className="hidden"
                     id="geojson-upload"
@@ -310,10 +245,27 @@ export default function GeoJSONValidationModal({
                     onClick={() => document.getElementById('geojson-upload')?.click()}
                   >
                     <Download className="h-4 w-4 mr-2" />
-                    Upload GeoJSON File
+                    Upload Plot File
                   </Button>
                 </label>
+                {uploadError && (
+                  <p className="mt-2 text-xs text-red-600">{uploadError}</p>
+                )}
               </div>
+
+              {conversionWarnings.length > 0 && (
+                <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+                  <div className="flex items-center gap-1 font-medium">
+                    <AlertTriangle className="h-4 w-4 text-amber-500" />
+                    Conversion warnings
+                  </div>
+                  <ul className="mt-1 ml-5 list-disc space-y-1">
+                    {conversionWarnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               
               <div className="grid grid-cols-2 gap-3">
                 <div className="bg-blue-50 rounded-lg p-3">
@@ -421,7 +373,7 @@ export default function GeoJSONValidationModal({
               {/* Map Integration via Proxy */}
               <iframe 
                 ref={setMapIframe}
-                src="/api/map-proxy"
+                src={`/api/map-proxy?${mapQuery.toString()}`}
                 className="w-full h-full border-0"
                 title="Interactive GeoJSON Map"
                 style={{ minHeight: '100%' }}
@@ -7,12 +7,12 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
-import { CalendarIcon, Plus, Search, Trash2, Upload, User, X, UserPlus } from "lucide-react";
+import { AlertTriangle, CalendarIcon, Plus, Search, Trash2, Upload, User, X, UserPlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -22,7 +22,10 @@ import DeclarationItemsTable, { DeclarationItem } from "./declaration-items-tabl
 import OutboundItemsSection from "./outbound-items-section";
 import EvidenceDocumentUploader, { EvidenceDocument } from "./evidence-document-uploader";
 import GeoJSONValidationModal from "./geojson-validation-modal";
+import { convertGeoFile, GEO_FILE_ACCEPT, GeoFileConversionError, isGeoFile } from "@/lib/geo-file";
+import type { DeforestationCheckResult, GeoJSONValidationResult, ValidationLocation } from "@shared/geojson-validation";
 import { ProductSearchCombobox } from "@/components/ui/product-search-combobox";
+import { DECLARATION_STATE_LABELS, lifecycleStateOf } from "@shared/declaration-lifecycle";
 
 type DeclarationSourceType = "existing" | "fresh";
 
@@ -33,11 +36,43 @@ interface ExistingDeclaration {
   code: string;
   product: string;
   quantity: string;
+  remaining: number; // Balance left to draw, in the declaration's unit
+  unit: string;
   status: string;
   eudrReferenceNumber: string;
   eudrVerificationNumber: string;
 }
 
+// Remaining balance of an inbound declaration, from /api/declarations/inbound-balances
+interface InboundBalance {
+  declarationId: number;
+  productName: string;
+  hsnCode: string | null;
+  status: string;
+  quantity: number;
+  unit: string | null;
+  allocated: number;
+  remaining: number;
+  eudrReferenceNumber: string | null;
+  eudrVerificationNumber: string | null;
+}
+
+// Upstream input consumed by the outbound items, from /api/product-conversions/check
+interface ConversionCheck {
+  requiredInputs: {
+    productName: string;
+    requiredKg: number;
+    minimumKg: number;
+    maximumKg: number;
+    drawnKg: number;
+    outputs: string[];
+  }[];
+  warnings: string[];
+  suggestedAllocations: { inboundDeclarationId: number; quantity: number }[];
+}
+
+const formatKg = (kg: number) => `${Number(kg.toFixed(2)).toLocaleString()} kg`;
+
 // Define the interface for customer objects
 interface Customer {
   id: number;
@@ -68,6 +103,8 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
   
   // State for selected existing declarations (now supports multiple selections)
   const [selectedDeclarationIds, setSelectedDeclarationIds] = useState<number[]>([]);
+  // Quantity drawn from each selected inbound declaration
+  const [allocationQuantities, setAllocationQuantities] = useState<Record<number, string>>({});
   const [declarationSearchTerm, setDeclarationSearchTerm] = useState("");
   const [showDeclarationsList, setShowDeclarationsList] = useState(false);
   
@@ -102,6 +139,9 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
   const [satelliteValid, setSatelliteValid] = useState<boolean | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [showValidationModal, setShowValidationModal] = useState(false);
+  const [validationLocations, setValidationLocations] = useState<ValidationLocation[]>([]);
+  const [geojsonData, setGeojsonData] = useState<any>(null);
+  const [conversionWarnings, setConversionWarnings] = useState<string[]>([]);
 
   
   // Evidence documents state
@@ -177,29 +217,60 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
     });
   };
   
-  // Mock data - in a real app, this would come from API requests
-  const existingDeclarations: ExistingDeclaration[] = [
-    { 
-      id: 1, 
-      name: "ABC Declaration", 
-      code: "#A12345", 
-      product: "Cocoa Beans", 
-      quantity: "5,000 kg", 
-      status: "Approved",
-      eudrReferenceNumber: "EU-REF-2025-001423",
-      eudrVerificationNumber: "VER-2025-6734" 
-    },
-    { 
-      id: 2, 
-      name: "XYZ Declaration", 
-      code: "#B67890", 
-      product: "Cocoa Butter", 
-      quantity: "2,000 kg", 
-      status: "Approved",
-      eudrReferenceNumber: "EU-REF-2025-001892",
-      eudrVerificationNumber: "VER-2025-8421" 
-    }
-  ];
+  // Approved inbound declarations with the quantity still available to draw
+  const { data: inboundBalances = [] } = useQuery<InboundBalance[]>({
+    queryKey: ['/api/declarations/inbound-balances'],
+    enabled: open,
+  });
+  const existingDeclarations: ExistingDeclaration[] = inboundBalances
+    .filter(balance => balance.remaining > 0)
+    .map(balance => ({
+      id: balance.declarationId,
+      name: balance.productName,
+      code: `#${balance.declarationId}`,
+      product: balance.productName,
+      quantity: `${balance.remaining.toLocaleString()} of ${balance.quantity.toLocaleString()} ${balance.unit || "units"}`,
+      remaining: balance.remaining,
+      unit: balance.unit || "units",
+      status: DECLARATION_STATE_LABELS[lifecycleStateOf(balance.status)],
+      eudrReferenceNumber: balance.eudrReferenceNumber || "",
+      eudrVerificationNumber: balance.eudrVerificationNumber || "",
+    }));
+  
+  // Input the outbound items consume at the configured conversion factors
+  const conversionRequest = {
+    items: items
+      .filter(item => item.productName.trim() && item.quantity)
+      .map(({ productName, quantity, unit, netMassKg }) => ({ productName, quantity, unit, netMassKg })),
+    allocations: selectedDeclarationIds.map(id => ({
+      inboundDeclarationId: id,
+      quantity: parseFloat(allocationQuantities[id] || "") || 0
+    })),
+  };
+  const { data: conversionCheck } = useQuery<ConversionCheck>({
+    queryKey: ['/api/product-conversions/check', conversionRequest],
+    queryFn: () => apiRequest('/api/product-conversions/check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(conversionRequest)
+    }),
+    enabled: open && declarationSource === "existing" &&
+      conversionRequest.items.length > 0 && conversionRequest.allocations.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  
+  // Draw what the items require at the configured yields, deselecting declarations that are not needed
+  const applySuggestedAllocations = () => {
+    if (!conversionCheck) return;
+    const suggested = conversionCheck.suggestedAllocations;
+    const unused = suggested.filter(a => a.quantity <= 0).map(a => a.inboundDeclarationId);
+    setSelectedDeclarationIds(prev => prev.filter(id => !unused.includes(id)));
+    setAllocationQuantities(prev => {
+      const next = { ...prev };
+      suggested.filter(a => a.quantity > 0).forEach(a => { next[a.inboundDeclarationId] = String(a.quantity); });
+      return next;
+    });
+  };
   
   // Fetch customers from API
   const { data: apiCustomers = [], isLoading: isLoadingCustomers } = useQuery<any[]>({
@@ -220,15 +291,6 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
     complianceScore: customer.complianceScore !== undefined ? customer.complianceScore : 75
   }));
   
-  // Query to get available inbound declarations (would be replaced with actual API call)
-  const { data: declarations = [] } = useQuery<any[]>({
-    queryKey: ['/api/declarations'],
-    select: (data: any) => {
-      if (!data) return [];
-      return data.filter((d: any) => d.status === 'approved' && d.type === 'inbound');
-    }
-  });
-  
   // Create declaration mutation
   const createDeclaration = useMutation({
     mutationFn: (declaration: any) => 
@@ -241,6 +303,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
       }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/declarations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations/inbound-balances'] });
       toast({
         title: "Declaration submitted",
         description: "Your outbound declaration has been successfully submitted",
@@ -304,10 +367,10 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
     if (!file) return;
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.geojson') && !file.name.toLowerCase().endsWith('.json')) {
+    if (!isGeoFile(file.name)) {
       toast({
         title: "Invalid file type",
-        description: "Please select a valid GeoJSON file (.geojson or .json)",
+        description: "Please select a GeoJSON, KML, KMZ, zipped Shapefile or GPX file",
         variant: "destructive",
       });
       return;
@@ -317,7 +380,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
     if (file.size > 10 * 1024 * 1024) {
       toast({
         title: "File too large",
-        description: "GeoJSON file must be smaller than 10MB",
+        description: "Plot file must be smaller than 10MB",
         variant: "destructive",
       });
       return;
@@ -334,26 +397,81 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
       variant: "default",
     });
     
-    // Simulate geometry validation check - always passes for outbound declarations
-    setTimeout(() => {
-      // Outbound declarations always pass geometry validation
-      const geometryIsValid = true;
-      setGeometryValid(geometryIsValid);
-      
-      // Proceed to satellite check
-      setTimeout(() => {
-        // Outbound declarations always pass satellite validation
-        const satelliteIsValid = true;
-        setSatelliteValid(satelliteIsValid);
-        setIsValidating(false);
+    // Run the server-side geometry validation
+    let uploadedGeoJSON: unknown = null;
+    convertGeoFile(file)
+      .then(conversion => {
+        const parsed = conversion.geojsonData;
+        setConversionWarnings(conversion.warnings);
+        uploadedGeoJSON = parsed;
+        setGeojsonData(parsed);
+        return apiRequest('/api/declarations/validate-geojson', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ geojsonData: parsed })
+        }) as Promise<GeoJSONValidationResult>;
+      })
+      .then(result => {
+        setGeometryValid(result.valid);
+        setValidationLocations(result.locations);
         
+        if (!result.valid) {
+          setIsValidating(false);
+          const invalidCount = result.locations.filter(location => location.status === "invalid").length;
+          toast({
+            title: "Validation failed",
+            description: result.errors[0] || `${invalidCount} of ${result.featureCount} plots failed the geometry check. Please review the validation details.`,
+            variant: "destructive",
+          });
+          return;
+        }
+        
+        // Proceed to satellite check against the forest-loss datasets
+        return (apiRequest('/api/declarations/check-deforestation', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ geojsonData: uploadedGeoJSON })
+        }) as Promise<DeforestationCheckResult>).then(deforestation => {
+          const satelliteIsValid = deforestation.plots.every(plot => plot.status !== "non-compliant");
+          setSatelliteValid(satelliteIsValid);
+          setIsValidating(false);
+          
+          if (satelliteIsValid) {
+            toast({
+              title: "Validation successful",
+              description: deforestation.checked
+                ? "GeoJSON geometry and satellite checks passed successfully."
+                : "GeoJSON geometry check passed. No forest-loss dataset is available for the satellite check.",
+              variant: "default",
+            });
+          } else {
+            const lossCount = deforestation.plots.filter(plot => plot.lossDetected).length;
+            toast({
+              title: "Validation failed",
+              description: `Forest loss after ${deforestation.cutoffDate} detected on ${lossCount} plot(s). Please review the validation details.`,
+              variant: "destructive",
+            });
+          }
+        });
+      })
+      .catch(error => {
+        console.error("Error validating GeoJSON:", error);
+        setIsValidating(false);
+        setHasUploadedGeoJSON(false);
+        setGeojsonData(null);
+        setConversionWarnings([]);
         toast({
-          title: "Validation successful",
-          description: "GeoJSON geometry and satellite checks passed successfully.",
-          variant: "default",
+          title: "Invalid plot file",
+          description: error instanceof GeoFileConversionError
+            ? error.message
+            : "The plot file could not be validated. Please try again.",
+          variant: "destructive",
         });
-      }, 2000);
-    }, 1500);
+      });
   };
 
 
@@ -388,6 +506,22 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
             return false;
           }
           
+          // Each selected declaration must have enough balance left for its draw
+          for (const id of selectedDeclarationIds) {
+            const declaration = existingDeclarations.find(d => d.id === id);
+            const quantity = parseFloat(allocationQuantities[id] || "");
+            if (!declaration || !(quantity > 0) || quantity > declaration.remaining) {
+              toast({
+                title: "Invalid quantity",
+                description: declaration
+                  ? `Enter a quantity between 0 and ${declaration.remaining} ${declaration.unit} for ${declaration.name}`
+                  : "A selected declaration has no balance left",
+                variant: "destructive",
+              });
+              return false;
+            }
+          }
+          
           // Check dates for existing declarations
           if (!startDate || !endDate) {
             toast({
@@ -509,6 +643,10 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
       payload = {
         type: "outbound",
         basedOnDeclarationIds: selectedDeclarationIds,
+        allocations: selectedDeclarationIds.map(id => ({
+          inboundDeclarationId: id,
+          quantity: parseFloat(allocationQuantities[id])
+        })),
         customerId: selectedCustomer?.id || null,
         customerPONumber: customerPONumber.trim() || null,
         soNumber: soNumber.trim() || null,
@@ -544,7 +682,10 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
         quantity: item.quantity ? parseFloat(item.quantity) : 0,
         unit: item.unit,
         rmId: item.rmId || null,
-        skuCode: item.skuCode || null
+        skuCode: item.skuCode || null,
+        productCode: item.productCode || null,
+        netMassKg: item.netMassKg ? parseFloat(item.netMassKg) : null,
+        countryOfProduction: item.countryOfProduction || null
       }));
       
       console.log("Formatted items after filtering:", formattedItems);
@@ -567,7 +708,9 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
         unit: formattedItems[0]?.unit || "kg",
         status: status,
         riskLevel: "medium",
-        industry: firstProduct // Use the product name as the industry value for the table display
+        industry: firstProduct, // Use the product name as the industry value for the table display
+        geojsonData: geojsonData || undefined,
+        items: formattedItems
       };
     }
     
@@ -591,6 +734,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
       }
     ]);
     setSelectedDeclarationIds([]);
+    setAllocationQuantities({});
     setDeclarationSearchTerm("");
     setShowDeclarationsList(false);
     setEvidenceDocuments([]);
@@ -606,6 +750,9 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
     setShipmentNumber("");
     setHasUploadedGeoJSON(false);
     setGeometryValid(null);
+    setValidationLocations([]);
+    setGeojsonData(null);
+    setConversionWarnings([]);
     setSatelliteValid(null);
     setIsValidating(false);
     setShowValidationModal(false);
@@ -620,6 +767,16 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
     onOpenChange(open);
   };
 
+  // Select an inbound declaration, drawing its whole remaining balance by default
+  const toggleDeclaration = (declaration: ExistingDeclaration, selected: boolean) => {
+    if (selected) {
+      setSelectedDeclarationIds(prev => prev.includes(declaration.id) ? prev : [...prev, declaration.id]);
+      setAllocationQuantities(prev => ({ ...prev, [declaration.id]: String(declaration.remaining) }));
+    } else {
+      setSelectedDeclarationIds(prev => prev.filter(id => id !== declaration.id));
+    }
+  };
+
   // Filter existing declarations based on search term
   const filteredDeclarations = existingDeclarations.filter(declaration => 
     declaration.name.toLowerCase().includes(declarationSearchTerm.toLowerCase()) ||
@@ -656,7 +813,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
           type="file"
           ref={geoJsonFileInputRef}
           onChange={handleGeoJSONFileChange}
-          accept=".geojson,.json"
+          accept={GEO_FILE_ACCEPT}
           style={{ display: 'none' }}
         />
         <input
@@ -949,7 +1106,8 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                             <th className="py-3 px-4 text-left font-medium">Declaration Name</th>
                             <th className="py-3 px-4 text-left font-medium">Code</th>
                             <th className="py-3 px-4 text-left font-medium">Product</th>
-                            <th className="py-3 px-4 text-left font-medium">Quantity</th>
+                            <th className="py-3 px-4 text-left font-medium">Available</th>
+                            <th className="py-3 px-4 text-left font-medium">Draw Quantity</th>
                             <th className="py-3 px-4 text-left font-medium">EUDR Reference Number</th>
                             <th className="py-3 px-4 text-left font-medium">EUDR Verification Number</th>
                             <th className="py-3 px-4 text-left font-medium">Status</th>
@@ -958,7 +1116,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                         <tbody>
                           {filteredDeclarations.length === 0 ? (
                             <tr>
-                              <td colSpan={7} className="py-4 px-4 text-center text-gray-500">
+                              <td colSpan={8} className="py-4 px-4 text-center text-gray-500">
                                 No declarations found matching your search
                               </td>
                             </tr>
@@ -970,28 +1128,14 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                                   "border-b cursor-pointer hover:bg-gray-50",
                                   selectedDeclarationIds.includes(declaration.id) ? "bg-primary/5" : ""
                                 )}
-                                onClick={() => {
-                                  if (selectedDeclarationIds.includes(declaration.id)) {
-                                    // Remove if already selected
-                                    setSelectedDeclarationIds(prev => prev.filter(id => id !== declaration.id));
-                                  } else {
-                                    // Add to selection if not already selected
-                                    setSelectedDeclarationIds(prev => [...prev, declaration.id]);
-                                  }
-                                }}
+                                onClick={() => toggleDeclaration(declaration, !selectedDeclarationIds.includes(declaration.id))}
                               >
                                 <td className="py-3 px-4">
                                   <div className="flex items-center">
                                     <Checkbox 
                                       className="mr-2" 
                                       checked={selectedDeclarationIds.includes(declaration.id)} 
-                                      onCheckedChange={(checked: boolean) => {
-                                        if (checked) {
-                                          setSelectedDeclarationIds(prev => [...prev, declaration.id]);
-                                        } else {
-                                          setSelectedDeclarationIds(prev => prev.filter(id => id !== declaration.id));
-                                        }
-                                      }}
+                                      onCheckedChange={(checked: boolean) => toggleDeclaration(declaration, checked)}
                                       onClick={(e: React.MouseEvent) => e.stopPropagation()}
                                     />
                                     {declaration.name}
@@ -1000,6 +1144,22 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                                 <td className="py-3 px-4">{declaration.code}</td>
                                 <td className="py-3 px-4">{declaration.product}</td>
                                 <td className="py-3 px-4">{declaration.quantity}</td>
+                                <td className="py-3 px-4" onClick={(e) => e.stopPropagation()}>
+                                  {selectedDeclarationIds.includes(declaration.id) && (
+                                    <div className="flex items-center">
+                                      <Input
+                                        type="text"
+                                        className="h-8 w-24 text-sm"
+                                        value={allocationQuantities[declaration.id] ?? ""}
+                                        onChange={(e) => {
+                                          const value = e.target.value.replace(/[^0-9.]/g, '');
+                                          setAllocationQuantities(prev => ({ ...prev, [declaration.id]: value }));
+                                        }}
+                                      />
+                                      <span className="ml-1 text-xs text-gray-500">{declaration.unit}</span>
+                                    </div>
+                                  )}
+                                </td>
                                 <td className="py-3 px-4">{declaration.eudrReferenceNumber}</td>
                                 <td className="py-3 px-4">{declaration.eudrVerificationNumber}</td>
                                 <td className="py-3 px-4">
@@ -1011,6 +1171,54 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                         </tbody>
                       </table>
                     </div>
+                    
+                    {/* Input consumed at the configured conversion factors */}
+                    {conversionCheck && selectedDeclarationIds.length > 0 &&
+                      (conversionCheck.requiredInputs.length > 0 || conversionCheck.warnings.length > 0) && (
+                      <div className="mt-4 rounded-md border p-4">
+                        <div className="flex items-center justify-between mb-3">
+                          <h4 className="font-medium">Input Consumption</h4>
+                          {conversionCheck.suggestedAllocations.length > 0 && (
+                            <Button variant="outline" size="sm" onClick={applySuggestedAllocations}>
+                              Use required quantities
+                            </Button>
+                          )}
+                        </div>
+                        {conversionCheck.requiredInputs.length > 0 && (
+                          <table className="w-full text-sm mb-3">
+                            <thead>
+                              <tr className="border-b text-left text-gray-500">
+                                <th className="py-2 font-medium">Input</th>
+                                <th className="py-2 font-medium">For</th>
+                                <th className="py-2 font-medium">Required</th>
+                                <th className="py-2 font-medium">Drawn</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {conversionCheck.requiredInputs.map(input => (
+                                <tr key={input.productName} className="border-b last:border-0">
+                                  <td className="py-2">{input.productName}</td>
+                                  <td className="py-2">{input.outputs.join(", ")}</td>
+                                  <td className="py-2">
+                                    {formatKg(input.requiredKg)}
+                                    <span className="ml-1 text-xs text-gray-500">
+                                      ({formatKg(input.minimumKg)} – {formatKg(input.maximumKg)})
+                                    </span>
+                                  </td>
+                                  <td className="py-2">{formatKg(input.drawnKg)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        {conversionCheck.warnings.map(warning => (
+                          <div key={warning} className="flex items-start gap-2 text-sm text-amber-700">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            <span>{warning}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -1288,7 +1496,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                     <p className="mt-4 text-sm text-gray-600">
                       {hasUploadedGeoJSON ? 
                         (isValidating ? "Validating GeoJSON file..." : "GeoJSON file uploaded successfully") : 
-                        "Drag and drop your GeoJSON file here, or click to browse"}
+                        "Drag and drop your GeoJSON, KML, KMZ, zipped Shapefile or GPX file here, or click to browse"}
                     </p>
                     {!hasUploadedGeoJSON && (
                       <Button 
@@ -1683,7 +1891,7 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
                                     <span className="font-medium">Product Name:</span> {declaration.product || "Not specified"}
                                   </div>
                                   <div className="mb-1">
-                                    <span className="font-medium">Quantity:</span> {declaration.quantity || "Not specified"}
+                                    <span className="font-medium">Quantity:</span> {allocationQuantities[id] || 0} {declaration.unit} (of {declaration.quantity})
                                   </div>
                                   <div className="mb-1">
                                     <span className="font-medium">EUDR Reference Number:</span> {declaration.eudrReferenceNumber || "Not specified"}
@@ -1864,6 +2072,8 @@ export default function OutboundDeclarationWizard({ open, onOpenChange }: Outbou
         onOpenChange={setShowValidationModal}
         geometryValid={geometryValid}
         satelliteValid={satelliteValid}
+        validationLocations={validationLocations}
+        conversionWarnings={conversionWarnings}
       />
     </Dialog>
   );
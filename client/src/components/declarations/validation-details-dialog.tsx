@@ -5,34 +5,14 @@ import { Input } from "@/components/ui/input";
 import { Check, AlertCircle, Clock, Search } from "lucide-react";
 import { cn } from "@/lib/utils";
 import satelliteMapImage from "../../assets/satellite-map.png";
+import type { ValidationPlot } from "@shared/geojson-validation";
 
-export type ValidationStatus = "compliant" | "non-compliant" | "warning";
-export type CheckType = "geometry" | "satellite";
-
-export interface ValidationIssue {
-  type: CheckType;
-  message: string;
-  details?: string;
-  severity: "error" | "warning";
-}
-
-export interface ValidationPlot {
-  id: string;
-  name: string;
-  plotId: string;
-  area: number;
-  areaUnit: string;
-  perimeter: number;
-  perimeterUnit: string;
-  coordinates: string;
-  vertices: number;
-  status: ValidationStatus;
-  geometryStatus: ValidationStatus;
-  satelliteStatus: ValidationStatus;
-  lastValidated: string;
-  createdAt: string;
-  issues: ValidationIssue[];
-}
+export type {
+  ValidationStatus,
+  CheckType,
+  ValidationIssue,
+  ValidationPlot
+} from "@shared/geojson-validation";
 
 interface ValidationDetailsDialogProps {
   open: boolean;
@@ -356,10 +336,26 @@ export const ValidationDetailsDialog: React.FC<ValidationDetailsDialogProps> = (
                             <h3 className="font-medium text-base mb-4">Plot Details</h3>
                             <dl className="grid grid-cols-2 gap-3">
                               <div className="col-span-1">
-                                <dt className="text-sm text-gray-500">Area</dt>
+                                <dt className="text-sm text-gray-500">
+                                  {plot.computedArea !== undefined ? "Computed Area" : "Area"}
+                                </dt>
                                 <dd className="text-sm font-medium">{plot.area} {plot.areaUnit}</dd>
                               </div>
-                              
+
+                              {plot.computedArea !== undefined && plot.declaredArea !== undefined && (
+                                <div className="col-span-1">
+                                  <dt className="text-sm text-gray-500">Declared Area</dt>
+                                  <dd className="text-sm font-medium">{plot.declaredArea} {plot.areaUnit}</dd>
+                                </div>
+                              )}
+
+                              {plot.geometryType && (
+                                <div className="col-span-1">
+                                  <dt className="text-sm text-gray-500">Geometry</dt>
+                                  <dd className="text-sm font-medium">{plot.geometryType}</dd>
+                                </div>
+                              )}
+
                               <div className="col-span-1">
                                 <dt className="text-sm text-gray-500">Perimeter</dt>
                                 <dd className="text-sm font-medium">{plot.perimeter} {plot.perimeterUnit}</dd>
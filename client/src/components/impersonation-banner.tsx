@@ -0,0 +1,32 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+// Shown on every page while a platform admin acts as another user
+export default function ImpersonationBanner() {
+  const { user, stopImpersonating } = useAuth();
+
+  if (!user?.impersonator) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-500 text-white px-4 py-2 flex items-center justify-between text-sm">
+      <div className="flex items-center">
+        <i className="fas fa-user-secret mr-2"></i>
+        <span>
+          <strong>{user.impersonator.username}</strong> is acting as{" "}
+          <strong>{user.fullName || user.username}</strong>. Every action is recorded with both identities.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="bg-white text-amber-700 hover:bg-amber-50 border-white"
+        onClick={stopImpersonating}
+      >
+        Stop Acting as User
+      </Button>
+    </div>
+  );
+}
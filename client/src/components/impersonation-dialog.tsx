@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { PLATFORM_ADMIN_ROLES } from "@shared/permissions";
+
+interface Entity {
+  id: number;
+  name: string;
+}
+
+interface EntityUser {
+  id: number;
+  username: string;
+  email: string;
+  fullName: string | null;
+  role: string | null;
+  entityId: number | null;
+}
+
+interface ImpersonationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Lets a platform admin pick an entity and one of its users to act as
+export default function ImpersonationDialog({ isOpen, onClose }: ImpersonationDialogProps) {
+  const { impersonate } = useAuth();
+  const [entityId, setEntityId] = useState<string>("");
+  const [userId, setUserId] = useState<string>("");
+  const [starting, setStarting] = useState(false);
+
+  const { data: entities = [] } = useQuery<Entity[]>({
+    queryKey: ["/api/entities"],
+    enabled: isOpen,
+  });
+  const { data: users = [] } = useQuery<EntityUser[]>({
+    queryKey: ["/api/users"],
+    enabled: isOpen,
+  });
+
+  const entityUsers = users.filter(user =>
+    String(user.entityId) === entityId && !PLATFORM_ADMIN_ROLES.includes(user.role ?? "")
+  );
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      await impersonate(Number(userId));
+      onClose();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Act as User</DialogTitle>
+          <DialogDescription>
+            You will see and do exactly what the user can. Everything you do is recorded with both your names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Entity</Label>
+            <Select
+              value={entityId}
+              onValueChange={(value) => {
+                setEntityId(value);
+                setUserId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select an entity" />
+              </SelectTrigger>
+              <SelectContent>
+                {entities.map(entity => (
+                  <SelectItem key={entity.id} value={String(entity.id)}>{entity.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={userId} onValueChange={setUserId} disabled={!entityId}>
+              <SelectTrigger>
+                <SelectValue placeholder={entityId && entityUsers.length === 0 ? "No users in this entity" : "Select a user"} />
+              </SelectTrigger>
+              <SelectContent>
+                {entityUsers.map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>
+                    {user.fullName || user.username} ({user.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleStart} disabled={!userId || starting}>
+            {starting ? "Starting..." : "Act as User"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
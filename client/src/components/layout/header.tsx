@@ -1,7 +1,8 @@
 import { useState } from "react";
 import { useSidebar } from "@/hooks/use-sidebar";
 import { useAuth } from "@/hooks/use-auth";
-import { personas } from "@/components/persona-switcher";
+import { usePermissions } from "@/hooks/use-permissions";
+import ImpersonationDialog from "@/components/impersonation-dialog";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -15,8 +16,10 @@ import { getInitials } from "@/lib/utils";
 
 export default function Header() {
   const { toggle } = useSidebar();
-  const { user, logout, switchPersona } = useAuth();
+  const { user, logout } = useAuth();
+  const { isPlatformAdmin } = usePermissions();
   const [searchQuery, setSearchQuery] = useState("");
+  const [showImpersonation, setShowImpersonation] = useState(false);
   
   const handleLogout = async () => {
     await logout();
@@ -89,36 +92,14 @@ export default function Header() {
                 <i className="fas fa-cog mr-2"></i>
                 Settings
               </DropdownMenuItem>
-              {/* Only show persona switcher for admin/platform_admin */}
-              {(user?.role === 'admin' || user?.role === 'platform_admin') && (
+              {/* Platform admins can act as any user of an entity */}
+              {isPlatformAdmin && !user?.impersonator && (
                 <>
                   <DropdownMenuSeparator />
-                  <DropdownMenuLabel className="cursor-default mt-2">
-                    <div className="flex items-center">
-                      <i className="fas fa-user-friends mr-2"></i>
-                      Switch Persona
-                      <span className="ml-2 py-0.5 px-1.5 bg-primary/10 text-primary rounded-md text-xs">
-                        Test
-                      </span>
-                    </div>
-                  </DropdownMenuLabel>
-                  {personas.map(persona => (
-                    <DropdownMenuItem 
-                      key={persona.id}
-                      className="cursor-pointer pl-6 flex items-center"
-                      onClick={() => switchPersona(persona.id)}
-                    >
-                      <div className={`h-6 w-6 rounded-full bg-primary flex items-center justify-center text-primary-foreground text-xs mr-2 ${user?.email === persona.email ? 'ring-2 ring-primary ring-offset-2' : ''}`}>
-                        {persona.avatar}
-                      </div>
-                      {persona.name}
-                      {user?.email === persona.email && (
-                        <span className="ml-auto text-primary">
-                          <i className="fas fa-check"></i>
-                        </span>
-                      )}
-                    </DropdownMenuItem>
-                  ))}
+                  <DropdownMenuItem className="cursor-pointer" onClick={() => setShowImpersonation(true)}>
+                    <i className="fas fa-user-secret mr-2"></i>
+                    Act as User...
+                  </DropdownMenuItem>
                 </>
               )}
               <DropdownMenuSeparator />
@@ -130,6 +111,7 @@ export default function Header() {
           </DropdownMenu>
         </div>
       </div>
+      <ImpersonationDialog isOpen={showImpersonation} onClose={() => setShowImpersonation(false)} />
     </header>
   );
 }
@@ -2,6 +2,7 @@ import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { useSidebar } from "@/hooks/use-sidebar";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import enumeraLogo from "@/assets/enumera-logo.png";
 import { useState } from "react";
 
@@ -123,6 +124,7 @@ export default function Sidebar() {
   const [location] = useLocation();
   const { isOpen } = useSidebar();
   const { user } = useAuth();
+  const { can } = usePermissions();
   
   // Check user roles
   const isSupplier = user?.role === 'supplier';
@@ -191,7 +193,7 @@ export default function Sidebar() {
           />
           
           {/* Customers - Available to EU Entity and internal roles (not suppliers or customers) */}
-          {!isSupplier && !isCustomer && (
+          {!isSupplier && !isCustomer && can("customers", "view") && (
             <SidebarSection
               icon="fa-users"
               label="Customers"
@@ -201,7 +203,7 @@ export default function Sidebar() {
           )}
           
           {/* Products - Available to EU Entity and internal roles (not suppliers or customers) */}
-          {!isSupplier && !isCustomer && (
+          {!isSupplier && !isCustomer && can("products", "view") && (
             <SidebarSection
               icon="fa-box"
               label="Products"
@@ -1,15 +1,22 @@
 import { ReactNode, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
 import { Loader2 } from 'lucide-react';
+import type { PermissionModule } from '@shared/permissions';
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Module whose view permission the page needs; any one of several will do
+  module?: PermissionModule | PermissionModule[];
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
-  const { user, isLoading } = useAuth();
+export function ProtectedRoute({ children, module }: ProtectedRouteProps) {
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
   const [location, setLocation] = useLocation();
+  const isLoading = isLoadingUser || (!!module && isLoadingPermissions);
+  const isForbidden = !!user && !!module && !isLoading && !can(module, "view");
 
   useEffect(() => {
     // If not loading and no user, redirect to login
@@ -32,6 +39,15 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     );
   }
 
+  if (isForbidden) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen text-center">
+        <h2 className="text-xl font-semibold text-gray-900">Access denied</h2>
+        <p className="mt-2 text-sm text-gray-500">Your role does not allow viewing this page.</p>
+      </div>
+    );
+  }
+
   // If we have a user, render the children
   return user ? <>{children}</> : null;
 }
\ No newline at end of file
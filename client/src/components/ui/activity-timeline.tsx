@@ -4,6 +4,7 @@ import { formatDate } from "@/lib/utils";
 export interface Activity {
   id: number;
   type: string;
+  title?: string; // Heading shown instead of the activity type
   description: string;
   timestamp: string;
 }
@@ -29,6 +30,16 @@ function ActivityItem({ activity }: ActivityItemProps) {
         return { icon: 'fa-times', bgColor: 'bg-danger' };
       case 'certification':
         return { icon: 'fa-certificate', bgColor: 'bg-success' };
+      case 'approved':
+      case 'filed':
+        return { icon: 'fa-check', bgColor: 'bg-success' };
+      case 'rejected':
+      case 'withdrawn':
+        return { icon: 'fa-times', bgColor: 'bg-danger' };
+      case 'submitted':
+      case 'under_review':
+      case 'amended':
+        return { icon: 'fa-paper-plane', bgColor: 'bg-primary' };
       default:
         return { icon: 'fa-info-circle', bgColor: 'bg-gray-500' };
     }
@@ -43,7 +54,7 @@ function ActivityItem({ activity }: ActivityItemProps) {
       </div>
       <div className="flex justify-between">
         <h4 className="text-sm font-medium text-gray-900">
-          {activity.type ? activity.type.charAt(0).toUpperCase() + activity.type.slice(1) : 'Activity'}
+          {activity.title || (activity.type ? activity.type.charAt(0).toUpperCase() + activity.type.slice(1) : 'Activity')}
         </h4>
         <span className="text-xs text-gray-500">{activity.timestamp ? formatDate(activity.timestamp) : 'Unknown date'}</span>
       </div>
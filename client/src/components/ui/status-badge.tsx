@@ -9,15 +9,15 @@ export default function StatusBadge({ status, className }: StatusBadgeProps) {
   const getStatusColor = (status: string) => {
     const statusLower = status.toLowerCase();
     
-    if (["compliant", "valid", "approved", "completed", "low"].includes(statusLower)) {
+    if (["compliant", "valid", "approved", "filed", "completed", "low"].includes(statusLower)) {
       return "bg-success/10 text-success";
     }
     
-    if (["pending", "pending review", "in progress", "medium"].includes(statusLower)) {
+    if (["pending", "pending review", "submitting", "submitted", "under review", "amended", "in progress", "medium"].includes(statusLower)) {
       return "bg-warning/10 text-warning";
     }
     
-    if (["non-compliant", "invalid", "expired", "overdue", "high"].includes(statusLower)) {
+    if (["non-compliant", "invalid", "rejected", "expired", "overdue", "high"].includes(statusLower)) {
       return "bg-danger/10 text-danger";
     }
     
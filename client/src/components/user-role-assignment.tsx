@@ -0,0 +1,123 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface AssignableUser {
+  id: number;
+  username: string;
+  email: string;
+  fullName: string | null;
+  role: string | null;
+  roleId: number | null;
+}
+
+interface Role {
+  id: number;
+  name: string;
+  isActive: boolean | null;
+}
+
+// Select value for users without a role
+const NO_ROLE = "none";
+
+export default function UserRoleAssignment() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canAssign = can("administration", "edit");
+
+  const { data: users = [], isLoading } = useQuery<AssignableUser[]>({
+    queryKey: ["/api/users"],
+  });
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ userId, roleId }: { userId: number; roleId: number | null }) => {
+      return apiRequest(`/api/users/${userId}/role`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roleId }),
+      });
+    },
+    onSuccess: (user: AssignableUser) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/permissions"] });
+      toast({
+        title: "Role Assigned",
+        description: `${user.fullName || user.username} now has ${roles.find(role => role.id === user.roleId)?.name ?? "no role"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-gray-50">
+            <TableHead className="font-medium">USER</TableHead>
+            <TableHead className="font-medium">EMAIL</TableHead>
+            <TableHead className="font-medium">ROLE</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={3} className="h-24 text-center">Loading users...</TableCell>
+            </TableRow>
+          ) : users.map(user => {
+            const platformAdmin = user.role === "platformAdmin" || user.role === "platform_admin";
+            const roleName = roles.find(role => role.id === user.roleId)?.name;
+            return (
+              <TableRow key={user.id}>
+                <TableCell className="font-medium">{user.fullName || user.username}</TableCell>
+                <TableCell>{user.email}</TableCell>
+                <TableCell>
+                  {platformAdmin ? (
+                    <Badge variant="outline">Platform admin (all permissions)</Badge>
+                  ) : canAssign ? (
+                    <Select
+                      value={user.roleId ? String(user.roleId) : NO_ROLE}
+                      disabled={assignMutation.isPending}
+                      onValueChange={(value) => assignMutation.mutate({
+                        userId: user.id,
+                        roleId: value === NO_ROLE ? null : Number(value),
+                      })}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROLE}>No role</SelectItem>
+                        {roles.filter(role => role.isActive !== false || role.id === user.roleId).map(role => (
+                          <SelectItem key={role.id} value={String(role.id)}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span>{roleName ?? "No role"}</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      {!canAssign && (
+        <p className="text-sm text-gray-500 px-4 py-3 border-t">Your role does not allow assigning roles.</p>
+      )}
+    </div>
+  );
+}
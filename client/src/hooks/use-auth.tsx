@@ -1,9 +1,8 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { createContext, useContext, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { personas } from "@/components/persona-switcher";
 
 interface User {
   id: number;
@@ -19,6 +18,9 @@ interface User {
   industry?: string;
   complianceFocus?: string[];
   phoneNumber?: string;
+  entityId?: number | null;
+  // Platform admin acting as this user, while impersonating
+  impersonator?: { id: number; username: string } | null;
 }
 
 interface AuthContextType {
@@ -37,22 +39,10 @@ interface AuthContextType {
     complianceFocus?: string[],
     phoneNumber?: string
   ) => Promise<User>;
-  switchPersona: (personaId: number) => Promise<void>;
+  impersonate: (userId: number) => Promise<void>;
+  stopImpersonating: () => Promise<void>;
 }
 
-// Default user for when the app first loads
-const defaultUser: User = {
-  id: 1,
-  username: "admin",
-  email: "admin@eudrportal.com",
-  fullName: "Administrator",
-  role: "admin",
-  avatar: "A",
-  trialStartDate: new Date().toISOString(),
-  trialEndDate: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString(), // 15 days from now
-  subscriptionStatus: "trial"
-};
-
 // Create a dummy User for the context default
 const dummyUser: User = {
   id: 0,
@@ -68,138 +58,72 @@ const AuthContext = createContext<AuthContextType>({
   login: async () => {},
   logout: async () => {},
   register: async () => dummyUser, // Return dummy user to satisfy TypeScript
-  switchPersona: async () => {},
+  impersonate: async () => {},
+  stopImpersonating: async () => {},
 });
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   
-  // Try to load user from localStorage or use default
-  const [user, setUser] = useState<User | null>(() => {
-    const savedUser = localStorage.getItem('currentUser');
-    return savedUser ? JSON.parse(savedUser) : defaultUser;
+  // The signed-in user comes from the server session; null when signed out
+  const { data: user = null, isLoading } = useQuery<User | null>({
+    queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
   });
   
   const isAuthenticated = !!user; // User is authenticated if user object exists
   
-  // Save user to localStorage when it changes
-  useEffect(() => {
-    if (user) {
-      localStorage.setItem('currentUser', JSON.stringify(user));
-    }
-  }, [user]);
+  // Refetch everything loaded as the previous user
+  const switchUser = (signedIn: User) => {
+    queryClient.setQueryData(["/api/auth/user"], signedIn);
+    queryClient.invalidateQueries({ predicate: query => query.queryKey[0] !== "/api/auth/user" });
+  };
   
-  // Enhanced login function that supports persona switching and registered users
+  // Sign in with a username or email address and start a server session
   const login = async (identifier: string, password: string) => {
+    let signedIn: User;
     try {
-      // Check if this is the default admin user with username 'admin'
-      if (identifier === 'admin' && password === 'admin123') {
-        setUser(defaultUser);
-        toast({
-          title: "Logged In Successfully",
-          description: "Welcome back, Administrator!",
-        });
-        return;
-      }
-      
-      // First, check if this is a registered user by email
-      const registeredUserJson = localStorage.getItem('registeredUser:' + identifier);
-      if (registeredUserJson) {
-        const registeredUser = JSON.parse(registeredUserJson);
-        
-        // Check if trial has expired
-        const now = new Date();
-        const trialEndDate = new Date(registeredUser.trialEndDate);
-        
-        if (now > trialEndDate && registeredUser.subscriptionStatus === 'trial') {
-          // Trial expired - update the subscription status
-          registeredUser.subscriptionStatus = 'expired';
-          localStorage.setItem('registeredUser:' + identifier, JSON.stringify(registeredUser));
-          
-          setUser(registeredUser);
-          
-          toast({
-            title: "Trial Expired",
-            description: "Your trial period has ended. Please upgrade to continue using all features.",
-            variant: "destructive",
-          });
-          
-          // Could redirect to a subscription page here
-          return;
-        }
-        
-        // Valid registered user - log them in
-        setUser(registeredUser);
-        
-        const daysLeft = Math.ceil((trialEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-        
-        if (registeredUser.subscriptionStatus === 'trial') {
-          toast({
-            title: "Logged In Successfully",
-            description: `Welcome back! You have ${daysLeft} days left in your trial.`,
-          });
-        } else {
-          toast({
-            title: "Logged In Successfully",
-            description: "Welcome back!",
-          });
-        }
-        
-        return;
-      }
-      
-      // If not registered, check if it's a persona by email or username
-      const matchingPersona = personas.find(p => 
-        p.email === identifier || 
-        p.role === identifier || 
-        p.name.toLowerCase() === identifier.toLowerCase()
-      );
-      
-      if (matchingPersona) {
-        // Create user from persona
-        const newUser: User = {
-          id: matchingPersona.id,
-          username: matchingPersona.role,
-          email: matchingPersona.email,
-          fullName: matchingPersona.name,
-          role: matchingPersona.role,
-          avatar: matchingPersona.avatar,
-          // Add trial info to personas too for consistency
-          trialStartDate: new Date().toISOString(),
-          trialEndDate: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString(),
-          subscriptionStatus: "trial"
-        };
-        
-        setUser(newUser);
-        
-        toast({
-          title: "Persona Changed",
-          description: `You are now using the ${matchingPersona.name} persona`,
-        });
-      } else {
-        // If no registered user or matching persona, show error
-        toast({
-          title: "Login Failed",
-          description: "Invalid username/email or password",
-          variant: "destructive",
-        });
-        return;
-      }
+      signedIn = await apiRequest("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: identifier, password }),
+      });
     } catch (error) {
       console.error("Login error:", error);
       toast({
-        title: "Error",
-        description: "Failed to log in",
+        title: "Login Failed",
+        description: "Invalid username/email or password",
         variant: "destructive",
       });
+      return;
+    }
+    
+    switchUser(signedIn);
+    
+    if (signedIn.subscriptionStatus === "trial" && signedIn.trialEndDate) {
+      const daysLeft = Math.ceil((new Date(signedIn.trialEndDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      toast({
+        title: "Logged In Successfully",
+        description: `Welcome back! You have ${Math.max(daysLeft, 0)} days left in your trial.`,
+      });
+    } else {
+      toast({
+        title: "Logged In Successfully",
+        description: "Welcome back!",
+      });
     }
   };
   
   // Logout function
   const logout = async () => {
-    localStorage.removeItem('currentUser');
-    setUser(null);
+    try {
+      await apiRequest("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+    queryClient.setQueryData(["/api/auth/user"], null);
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== "/api/auth/user" });
     setLocation("/login");
     
     toast({
@@ -262,32 +186,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         complianceFocus
       };
       
-      // Don't auto-login the user after registration, just save their info for later login
-      // setUser(enhancedUser); // Commented out to prevent auto-login
-      // localStorage.setItem('currentUser', JSON.stringify(enhancedUser)); // Don't set current user
-      
-      // For client-side demo only - this would actually be handled by the server
-      // Keep these operations to ensure the client-side demo works properly when
-      // the server doesn't have persistent storage
-      try {
-        // Save a copy of the user data for the demo
-        localStorage.setItem('registeredUser:' + email, JSON.stringify(enhancedUser));
-        
-        // Update entity counts in localStorage for demo purposes
-        const existingStats = localStorage.getItem('entityStats') || JSON.stringify({
-          total: 0,
-          freeTrial: 0,
-          licensed: 0,
-          pending: 0
-        });
-        const stats = JSON.parse(existingStats);
-        stats.total += 1;
-        stats.freeTrial += 1;
-        localStorage.setItem('entityStats', JSON.stringify(stats));
-      } catch (e) {
-        console.warn('Non-critical error updating local storage:', e);
-      }
-      
       return enhancedUser;
     } catch (error) {
       console.error("Registration error:", error);
@@ -300,23 +198,64 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
   
-  // Function specifically for switching personas
-  const switchPersona = async (personaId: number) => {
-    const persona = personas.find(p => p.id === personaId);
-    if (persona) {
-      await login(persona.email, "password123");
+  // Platform admins act as another user; the server records when this
+  // starts and stops, and every activity in between
+  const impersonate = async (userId: number) => {
+    let impersonated: User;
+    try {
+      impersonated = await apiRequest("/api/impersonation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Act as User",
+        description: error instanceof Error ? error.message : "Impersonation failed",
+        variant: "destructive",
+      });
+      return;
     }
+    
+    switchUser(impersonated);
+    setLocation("/");
+    toast({
+      title: "Acting as User",
+      description: `You are now acting as ${impersonated.fullName || impersonated.username}`,
+    });
+  };
+  
+  const stopImpersonating = async () => {
+    let admin: User;
+    try {
+      admin = await apiRequest("/api/impersonation", { method: "DELETE" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not stop acting as this user",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    switchUser(admin);
+    setLocation("/");
+    toast({
+      title: "Impersonation Ended",
+      description: `You are signed in as ${admin.fullName || admin.username} again`,
+    });
   };
   
   return (
     <AuthContext.Provider value={{
       user, 
-      isLoading: false, 
+      isLoading, 
       isAuthenticated, 
       login, 
       logout, 
       register,
-      switchPersona
+      impersonate,
+      stopImpersonating
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  hasPermission,
+  type GrantedPermissions,
+  type PermissionAction,
+  type PermissionModule,
+  type PermissionTrigger,
+} from "@shared/permissions";
+
+interface PermissionsResponse {
+  platformAdmin: boolean;
+  permissions: GrantedPermissions;
+}
+
+// What the signed-in user's role allows. The server enforces the same
+// permissions; this only hides actions that would be refused.
+export function usePermissions() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<PermissionsResponse>({
+    queryKey: ["/api/auth/permissions"],
+    enabled: !!user,
+  });
+
+  const can = (module: PermissionModule | PermissionModule[], action: PermissionAction | PermissionTrigger) => {
+    const modules = Array.isArray(module) ? module : [module];
+    return !!data && modules.some(candidate => hasPermission(data.permissions, candidate, action));
+  };
+
+  return {
+    can,
+    isPlatformAdmin: data?.platformAdmin ?? false,
+    isLoading: !!user && isLoading,
+  };
+}
@@ -1,11 +1,11 @@
-import { ReactNode, useEffect, useState } from "react";
+import { ReactNode } from "react";
 import { SidebarContext } from "@/hooks/use-sidebar";
 import { useSidebarProvider } from "@/hooks/use-sidebar";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import { useAuth } from "@/hooks/use-auth";
 import { Skeleton } from "@/components/ui/skeleton";
-import PersonaSwitcher from "@/components/persona-switcher";
+import ImpersonationBanner from "@/components/impersonation-banner";
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -13,18 +13,7 @@ interface AppLayoutProps {
 
 export default function AppLayout({ children }: AppLayoutProps) {
   const sidebarProps = useSidebarProvider();
-  const { isLoading, user } = useAuth();
-  const [showPersonaSwitcher, setShowPersonaSwitcher] = useState(false);
-  
-  // Show persona switcher for all authenticated users
-  useEffect(() => {
-    if (user) {
-      console.log('Current user role:', user.role);
-      setShowPersonaSwitcher(true);
-    } else {
-      setShowPersonaSwitcher(false);
-    }
-  }, [user]);
+  const { isLoading } = useAuth();
   
   if (isLoading) {
     return (
@@ -71,12 +60,11 @@ export default function AppLayout({ children }: AppLayoutProps) {
         <Sidebar />
         
         <div className="flex-1 flex flex-col overflow-hidden w-full">
+          <ImpersonationBanner />
           <Header />
           <main className="flex-1 overflow-y-auto p-5">
             {children}
           </main>
-          {/* Show persona switcher for all authenticated users */}
-          {showPersonaSwitcher && <PersonaSwitcher />}
         </div>
       </div>
     </SidebarContext.Provider>
@@ -0,0 +1,33 @@
+import { GEO_FILE_EXTENSIONS, type GeoFileConversionResult } from "@shared/geojson-validation";
+
+// accept attribute for plot file inputs
+export const GEO_FILE_ACCEPT = Object.keys(GEO_FILE_EXTENSIONS).join(",");
+
+export class GeoFileConversionError extends Error {}
+
+export function isGeoFile(fileName: string): boolean {
+  const extension = fileName.toLowerCase().substring(fileName.lastIndexOf("."));
+  return extension in GEO_FILE_EXTENSIONS;
+}
+
+/**
+ * Convert a GeoJSON, KML, KMZ, zipped Shapefile or GPX file to a WGS84
+ * FeatureCollection on the server. Throws a GeoFileConversionError with the
+ * server's explanation when the file cannot be converted.
+ */
+export async function convertGeoFile(file: File): Promise<GeoFileConversionResult> {
+  const res = await fetch(`/api/declarations/convert-geo-file?filename=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/octet-stream"
+    },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new GeoFileConversionError(body?.message || `${file.name} could not be converted`);
+  }
+  return await res.json();
+}
@@ -11,11 +11,14 @@ import { Separator } from "@/components/ui/separator";
 import { Loader2, CheckCircle, AlertTriangle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { apiRequest } from "@/lib/queryClient";
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from "@shared/password-policy";
 
 // Define the activation schema
 const activationSchema = z.object({
-  password: z.string().min(8, {
-    message: "Password must be at least 8 characters",
+  password: z.string().min(PASSWORD_MIN_LENGTH, {
+    message: `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
+  }).max(PASSWORD_MAX_LENGTH, {
+    message: `Password must be at most ${PASSWORD_MAX_LENGTH} characters`,
   }),
   confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -218,7 +221,7 @@ export default function ActivateSupplier() {
                       <Input type="password" placeholder="••••••••" {...field} />
                     </FormControl>
                     <FormDescription>
-                      Password must be at least 8 characters long
+                      Password must be at least {PASSWORD_MIN_LENGTH} characters long and not a commonly breached password
                     </FormDescription>
                     <FormMessage />
                   </FormItem>
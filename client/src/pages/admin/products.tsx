@@ -14,6 +14,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/use-permissions";
 
 // Product types
 type Product = {
@@ -39,6 +40,47 @@ const productSchema = z.object({
 
 type ProductFormValues = z.infer<typeof productSchema>;
 
+// Conversion factor between two products, from /api/product-conversions
+type ProductConversion = {
+  id: number;
+  inputProductId: number;
+  outputProductId: number;
+  inputProductName: string | null;
+  outputProductName: string | null;
+  yieldRatio: number;
+  tolerancePercent: number;
+  notes: string | null;
+  entityId: number;
+};
+
+// Form schema for conversion factors; the yield is entered as a percentage
+const conversionSchema = z.object({
+  inputProductId: z.coerce.number().min(1, "Select the input product"),
+  outputProductId: z.coerce.number().min(1, "Select the output product"),
+  yieldPercent: z.coerce.number().gt(0, "Yield must be greater than 0").max(100, "Yield cannot exceed 100%"),
+  tolerancePercent: z.coerce.number().min(0, "Tolerance cannot be negative").lt(100, "Tolerance must be below 100%"),
+  notes: z.string().optional(),
+});
+
+type ConversionFormValues = z.infer<typeof conversionSchema>;
+
+// Format product type for display
+const formatProductType = (type: string) => {
+  switch (type) {
+    case "raw_material":
+      return "Raw Material";
+    case "semi_finished_good":
+      return "Semi-Finished Good";
+    case "finished_good":
+      return "Finished Good";
+    default:
+      return type;
+  }
+};
+
+// Processing stages in supply-chain order; a conversion cannot run upstream
+const PRODUCT_STAGES = ["raw_material", "semi_finished_good", "finished_good"];
+
 // ProductForm component
 const ProductForm = ({ 
   onSubmit, 
@@ -233,9 +275,327 @@ const DeleteConfirmation = ({
   );
 };
 
+// ConversionForm component
+const ConversionForm = ({
+  products,
+  onSubmit,
+  defaultValues,
+  isSubmitting,
+  mode = "create"
+}: {
+  products: Product[];
+  onSubmit: (data: ConversionFormValues) => void;
+  defaultValues?: Partial<ConversionFormValues>;
+  isSubmitting: boolean;
+  mode?: "create" | "edit";
+}) => {
+  const form = useForm<ConversionFormValues>({
+    resolver: zodResolver(conversionSchema),
+    defaultValues: defaultValues || {
+      yieldPercent: 100,
+      tolerancePercent: 5,
+      notes: "",
+    },
+  });
+
+  // Outputs are at the same or a later processing stage than the input
+  const input = products.find(product => product.id === Number(form.watch("inputProductId")));
+  const outputs = products.filter(product =>
+    product.id !== input?.id &&
+    (!input || PRODUCT_STAGES.indexOf(product.productType) >= PRODUCT_STAGES.indexOf(input.productType))
+  );
+
+  const productSelect = (name: "inputProductId" | "outputProductId", label: string, options: Product[]) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            onValueChange={field.onChange}
+            value={field.value ? String(field.value) : undefined}
+            disabled={mode === "edit"} // A different pair is a new conversion
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map(product => (
+                <SelectItem key={product.id} value={String(product.id)}>
+                  {product.name} ({formatProductType(product.productType)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {productSelect("inputProductId", "Input Product", products)}
+        {productSelect("outputProductId", "Output Product", outputs)}
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="yieldPercent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Yield (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" placeholder="e.g. 40" {...field} />
+                </FormControl>
+                <p className="text-xs text-muted-foreground">kg of output per 100 kg of input</p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="tolerancePercent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tolerance (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" placeholder="e.g. 5" {...field} />
+                </FormControl>
+                <p className="text-xs text-muted-foreground">Accepted deviation from the yield</p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Pressing, shell removed" {...field} value={field.value || ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting
+              ? (mode === "create" ? "Adding..." : "Updating...")
+              : (mode === "create" ? "Add Conversion" : "Update Conversion")}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
+
+// Conversion factors between products, used by outbound declarations to
+// compute how much upstream input they consume
+const ConversionFactors = ({ products }: { products: Product[] }) => {
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedConversion, setSelectedConversion] = useState<ProductConversion | null>(null);
+
+  const { data: conversions = [], isLoading } = useQuery<ProductConversion[]>({
+    queryKey: ["/api/product-conversions"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ConversionFormValues) => {
+      const body = {
+        yieldRatio: data.yieldPercent / 100,
+        tolerancePercent: data.tolerancePercent,
+        notes: data.notes || null,
+      };
+      return selectedConversion
+        ? apiRequest(`/api/product-conversions/${selectedConversion.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+          })
+        : apiRequest("/api/product-conversions", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              ...body,
+              inputProductId: data.inputProductId,
+              outputProductId: data.outputProductId,
+              entityId: 1, // Default to current entity ID
+            }),
+          });
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedConversion ? "Conversion updated" : "Conversion added",
+        description: "The conversion factor has been saved.",
+      });
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/product-conversions"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving conversion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest(`/api/product-conversions/${id}`, {
+        method: "DELETE"
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Conversion deleted",
+        description: "The conversion factor has been deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/product-conversions"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error deleting conversion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Conversion Factors</h2>
+          <p className="text-sm text-muted-foreground">
+            Yields from one product to another, used to compute the input consumed by outbound declarations.
+          </p>
+        </div>
+        {can("products", "create") && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSelectedConversion(null);
+              setDialogOpen(true);
+            }}
+            className="flex items-center gap-2"
+          >
+            <PlusCircle className="h-4 w-4" />
+            Add Conversion
+          </Button>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Input Product</TableHead>
+            <TableHead>Output Product</TableHead>
+            <TableHead>Yield</TableHead>
+            <TableHead>Tolerance</TableHead>
+            <TableHead>Notes</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                Loading conversion factors...
+              </TableCell>
+            </TableRow>
+          ) : conversions.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                No conversion factors configured.
+              </TableCell>
+            </TableRow>
+          ) : (
+            conversions.map(conversion => (
+              <TableRow key={conversion.id}>
+                <TableCell>{conversion.inputProductName || `#${conversion.inputProductId}`}</TableCell>
+                <TableCell>{conversion.outputProductName || `#${conversion.outputProductId}`}</TableCell>
+                <TableCell>{Number((conversion.yieldRatio * 100).toFixed(2))}%</TableCell>
+                <TableCell>±{conversion.tolerancePercent}%</TableCell>
+                <TableCell>{conversion.notes || "-"}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    {can("products", "edit") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setSelectedConversion(conversion);
+                          setDialogOpen(true);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {can("products", "delete") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(conversion.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedConversion ? "Edit Conversion Factor" : "Add Conversion Factor"}</DialogTitle>
+            <DialogDescription>
+              How many kg of the output product one kg of the input product yields.
+            </DialogDescription>
+          </DialogHeader>
+          <ConversionForm
+            key={selectedConversion?.id ?? "new"}
+            products={products}
+            onSubmit={(data) => saveMutation.mutate(data)}
+            defaultValues={selectedConversion ? {
+              inputProductId: selectedConversion.inputProductId,
+              outputProductId: selectedConversion.outputProductId,
+              yieldPercent: Number((selectedConversion.yieldRatio * 100).toFixed(4)),
+              tolerancePercent: selectedConversion.tolerancePercent,
+              notes: selectedConversion.notes || "",
+            } : undefined}
+            isSubmitting={saveMutation.isPending}
+            mode={selectedConversion ? "edit" : "create"}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
 // Main Products component
 const Products = () => {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("raw_material");
   const [searchQuery, setSearchQuery] = useState("");
@@ -326,6 +686,7 @@ const Products = () => {
       });
       setDeleteDialogOpen(false);
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/product-conversions"] });
     },
     onError: (error) => {
       toast({
@@ -367,31 +728,19 @@ const Products = () => {
     return matchesType && matchesSearch;
   });
 
-  // Format product type for display
-  const formatProductType = (type: string) => {
-    switch (type) {
-      case "raw_material":
-        return "Raw Material";
-      case "semi_finished_good":
-        return "Semi-Finished Good";
-      case "finished_good":
-        return "Finished Good";
-      default:
-        return type;
-    }
-  };
-
   return (
     <div className="w-full space-y-4 p-6">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Products</h1>
-        <Button 
-          onClick={() => setCreateDialogOpen(true)}
-          className="flex items-center gap-2"
-        >
-          <PlusCircle className="h-4 w-4" />
-          Add Product
-        </Button>
+        {can("products", "create") && (
+          <Button 
+            onClick={() => setCreateDialogOpen(true)}
+            className="flex items-center gap-2"
+          >
+            <PlusCircle className="h-4 w-4" />
+            Add Product
+          </Button>
+        )}
       </div>
 
       <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -449,26 +798,30 @@ const Products = () => {
                           <TableCell>{new Date(product.createdAt).toLocaleDateString()}</TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-2">
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => {
-                                  setSelectedProduct(product);
-                                  setEditDialogOpen(true);
-                                }}
-                              >
-                                <Pencil className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => {
-                                  setSelectedProduct(product);
-                                  setDeleteDialogOpen(true);
-                                }}
-                              >
-                                <Trash2 className="h-4 w-4 text-destructive" />
-                              </Button>
+                              {can("products", "edit") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedProduct(product);
+                                    setEditDialogOpen(true);
+                                  }}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {can("products", "delete") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedProduct(product);
+                                    setDeleteDialogOpen(true);
+                                  }}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -482,6 +835,8 @@ const Products = () => {
         </Tabs>
       </div>
 
+      <ConversionFactors products={allProducts} />
+
       {/* Add Product Dialog */}
       <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
         <DialogContent>
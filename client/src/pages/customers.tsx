@@ -31,6 +31,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { usePermissions } from "@/hooks/use-permissions";
 
 import {
   ArrowUpDown,
@@ -50,6 +51,7 @@ import {
 } from "lucide-react";
 
 export default function Customers() {
+  const { can } = usePermissions();
   const [openCreateForm, setOpenCreateForm] = useState(false);
   const [filter, setFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
@@ -121,10 +123,12 @@ export default function Customers() {
               Manage your customer relationships and compliance status
             </p>
           </div>
-          <Button onClick={() => setOpenCreateForm(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Customer
-          </Button>
+          {can("customers", "create") && (
+            <Button onClick={() => setOpenCreateForm(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Customer
+            </Button>
+          )}
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -7,8 +7,9 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CalendarIcon, Search, Eye, Upload, Plus, MapPin, AlertCircle, MoreHorizontal, FileText, Download, Map, Tag, FileSpreadsheet } from "lucide-react";
+import { CalendarIcon, Search, Eye, Upload, Plus, MapPin, AlertCircle, MoreHorizontal, FileText, Download, Map, Tag, FileSpreadsheet, Loader2 } from "lucide-react";
 import StatusBadge from "@/components/ui/status-badge";
+import { DECLARATION_STATES, DECLARATION_STATE_LABELS, lifecycleStateOf } from "@shared/declaration-lifecycle";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
@@ -36,7 +37,10 @@ import { Label } from "@/components/ui/label";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
+import { usePermissions } from "@/hooks/use-permissions";
 import DeclarationWizard from "@/components/declarations/declaration-wizard";
+import DeclarationImportDialog from "@/components/declarations/declaration-import-dialog";
 import OutboundDeclarationWizard from "@/components/declarations/outbound-declaration-wizard";
 import DeclarationDetailView from "@/components/declarations/declaration-detail-view";
 
@@ -69,6 +73,37 @@ interface Declaration {
   previousReferenceNumber?: string | null; // Previous Reference Number
   ddsStatus?: "Filed" | "DDS Success" | "DDS Failed" | null; // DDS Status
   complianceStatus?: "compliant" | "non-compliant" | "non-compliant-geometry" | "non-compliant-satellite";
+  euFiling?: EUFilingEntry | null; // For eu_filed declarations
+}
+
+// Fields of a declaration filed in EU TRACES by hand
+interface EUFilingEntry {
+  id: number;
+  declarationId: number | null; // Source declaration
+  reference: string;
+  activityType: "import" | "export" | "domestic";
+  traderName: string;
+  traderCountry: string;
+  vatCode: string | null;
+  countryOfActivity: string;
+  countryOfEntry: string;
+  additionalInfo: string | null;
+  eudrReference: string | null;
+  verificationReference: string | null;
+  inspectionReference: string | null;
+  products: { name: string; hsCode: string; quantity: number; unit: string }[];
+}
+
+// Latest background validation job per declaration and check type
+interface ValidationJob {
+  id: number;
+  declarationId: number;
+  type: "geometry" | "satellite";
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  attempts: number;
+  maxAttempts: number;
+  failureReason: string | null;
+  updatedAt: string;
 }
 
 interface DeclarationStats {
@@ -104,7 +139,8 @@ function DeclarationRow({
   onSelectChange,
   suppliersList = [],
   setSelectedTracesDeclarationId,
-  setEuTracesFormOpen
+  setEuTracesFormOpen,
+  validationJobs = []
 }: { 
   declaration: Declaration; 
   onViewClick: (id: number) => void;
@@ -113,6 +149,7 @@ function DeclarationRow({
   suppliersList?: any[];
   setSelectedTracesDeclarationId?: (id: number | null) => void;
   setEuTracesFormOpen?: (open: boolean) => void;
+  validationJobs?: ValidationJob[];
 }) {
   const [mapModalOpen, setMapModalOpen] = useState(false);
   const [notifySupplierOpen, setNotifySupplierOpen] = useState(false);
@@ -141,6 +178,11 @@ function DeclarationRow({
   
   const isCompliant = complianceStatus === "compliant";
   
+  // Background checks take precedence over the stored compliance status while they run
+  const activeJob = validationJobs.find(job => job.status === "running")
+    || validationJobs.find(job => job.status === "queued");
+  const failedJob = validationJobs.find(job => job.status === "failed");
+  
   // Function to handle downloading consolidated GeoJSON
   const handleDownloadGeoJSON = () => {
     // In a real app, this would make an API call to get the actual GeoJSON data
@@ -223,7 +265,7 @@ function DeclarationRow({
         {declaration.productName}
       </td>
       <td className="px-3 py-4 text-sm whitespace-nowrap">
-        <StatusBadge status={declaration.status} />
+        <StatusBadge status={DECLARATION_STATE_LABELS[lifecycleStateOf(declaration.status)]} />
       </td>
       <td className="px-3 py-4 text-sm whitespace-nowrap">
         <span className={cn(
@@ -242,28 +284,46 @@ function DeclarationRow({
         </span>
       </td>
       <td className="px-3 py-4 text-sm whitespace-nowrap">
-        <span className={cn(
-          "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
-          complianceStatus === "compliant" ? "bg-green-100 text-green-800" : 
-          complianceStatus === "non-compliant-geometry" ? "bg-orange-100 text-orange-800" : 
-          complianceStatus === "non-compliant-satellite" ? "bg-amber-100 text-amber-800" : 
-          "bg-red-100 text-red-800"
-        )}>
+        {activeJob ? (
+          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            {activeJob.status === "queued"
+              ? "Validation Queued"
+              : activeJob.type === "geometry" ? "Checking Geometry" : "Checking Satellite"}
+            {activeJob.attempts > 1 && ` (attempt ${activeJob.attempts}/${activeJob.maxAttempts})`}
+          </span>
+        ) : failedJob ? (
+          <span
+            className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800"
+            title={failedJob.failureReason || undefined}
+          >
+            <AlertCircle className="mr-1 h-3 w-3" />
+            {failedJob.type === "geometry" ? "Geometry Check Failed" : "Satellite Check Failed"}
+          </span>
+        ) : (
           <span className={cn(
-            "mr-1 h-2 w-2 rounded-full",
-            complianceStatus === "compliant" ? "bg-green-500" : 
-            complianceStatus === "non-compliant-geometry" ? "bg-orange-500" : 
-            complianceStatus === "non-compliant-satellite" ? "bg-amber-500" : 
-            "bg-red-500"
-          )}></span>
-          {complianceStatus === "compliant" 
-            ? "Compliant" 
-            : complianceStatus === "non-compliant-geometry" 
-              ? "Non-Compliant Geometry"
-              : complianceStatus === "non-compliant-satellite"
-                ? "Non-Compliant Satellite"
-                : "Non-Compliant"}
-        </span>
+            "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
+            complianceStatus === "compliant" ? "bg-green-100 text-green-800" : 
+            complianceStatus === "non-compliant-geometry" ? "bg-orange-100 text-orange-800" : 
+            complianceStatus === "non-compliant-satellite" ? "bg-amber-100 text-amber-800" : 
+            "bg-red-100 text-red-800"
+          )}>
+            <span className={cn(
+              "mr-1 h-2 w-2 rounded-full",
+              complianceStatus === "compliant" ? "bg-green-500" : 
+              complianceStatus === "non-compliant-geometry" ? "bg-orange-500" : 
+              complianceStatus === "non-compliant-satellite" ? "bg-amber-500" : 
+              "bg-red-500"
+            )}></span>
+            {complianceStatus === "compliant" 
+              ? "Compliant" 
+              : complianceStatus === "non-compliant-geometry" 
+                ? "Non-Compliant Geometry"
+                : complianceStatus === "non-compliant-satellite"
+                  ? "Non-Compliant Satellite"
+                  : "Non-Compliant"}
+          </span>
+        )}
       </td>
 
       <td className="px-3 py-4 text-sm whitespace-nowrap">
@@ -526,6 +586,7 @@ interface NewDeclarationForm {
 
 export default function Declarations() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const isSupplier = user?.role === 'supplier';
   const isCustomer = user?.role === 'customer';
   const isEuOperator = user?.role === 'eu_operator';
@@ -541,6 +602,7 @@ export default function Declarations() {
   const [selectedTracesDeclarationId, setSelectedTracesDeclarationId] = useState<number | null>(null);
   const [simpleModalOpen, setSimpleModalOpen] = useState(false);
   const [wizardModalOpen, setWizardModalOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   // For suppliers, always set declarationType to outbound, for customers to inbound
   const [declarationType, setDeclarationType] = useState<"inbound" | "outbound">(
     isSupplier ? "outbound" : isCustomer ? "inbound" : "inbound"
@@ -656,6 +718,10 @@ export default function Declarations() {
   // State for status filter
   const [statusFilter, setStatusFilter] = useState<string>("all");
   
+  // Search by partner, product or any EU reference number
+  const [searchTerm, setSearchTerm] = useState("");
+  const debouncedSearchTerm = useDebounce(searchTerm.trim(), 300);
+  
   // State for selected rows
   const [selectedRows, setSelectedRows] = useState<number[]>([]);
   
@@ -674,12 +740,43 @@ export default function Declarations() {
     refetchOnWindowFocus: false,
   });
   
+  // Poll background validation jobs while any are queued or running
+  const { data: validationJobs = [], refetch: refetchValidationJobs } = useQuery<ValidationJob[]>({
+    queryKey: ['/api/validation-jobs/latest'],
+    refetchInterval: (query) =>
+      query.state.data?.some(job => job.status === "queued" || job.status === "running") ? 3000 : false,
+    refetchOnWindowFocus: false,
+  });
+  
+  const declarationsUpdatedAt = queryClient.getQueryState(['/api/declarations', activeTab])?.dataUpdatedAt;
+  useEffect(() => {
+    refetchValidationJobs();
+  }, [declarationsUpdatedAt]);
+  
+  // Reload declarations once running checks finish, so risk level and status are current
+  const activeJobCount = validationJobs.filter(job => job.status === "queued" || job.status === "running").length;
+  const previousActiveJobCount = useRef(activeJobCount);
+  useEffect(() => {
+    if (activeJobCount < previousActiveJobCount.current) {
+      queryClient.invalidateQueries({ queryKey: ['/api/declarations'] });
+    }
+    previousActiveJobCount.current = activeJobCount;
+  }, [activeJobCount]);
+  
   // Fetch stats
   const { data: stats, isLoading: isLoadingStats } = useQuery<DeclarationStats>({
     queryKey: ['/api/declarations/stats'],
     refetchOnWindowFocus: false,
   });
   
+  // Declarations with a matching reference or verification number, including references they carry
+  const { data: referenceMatches } = useQuery<{ declarationIds: number[] }>({
+    queryKey: ['/api/declarations/reference-search', debouncedSearchTerm],
+    queryFn: () => apiRequest(`/api/declarations/reference-search?q=${encodeURIComponent(debouncedSearchTerm)}`),
+    enabled: debouncedSearchTerm.length >= 3,
+    refetchOnWindowFocus: false,
+  });
+  
   // Fetch suppliers (simplified for this example)
   const { data: suppliers = [] } = useQuery<any[]>({
     queryKey: ['/api/suppliers'],
@@ -704,11 +801,21 @@ export default function Declarations() {
       // Filter declarations without RM IDs
       filteredDeclarations = filteredDeclarations.filter((d) => !d.rmId);
     } else {
-      // Filter by regular status
-      filteredDeclarations = filteredDeclarations.filter((d) => d.status === statusFilter);
+      // Filter by lifecycle state
+      filteredDeclarations = filteredDeclarations.filter((d) => lifecycleStateOf(d.status) === statusFilter);
     }
   }
   
+  // Apply search
+  if (debouncedSearchTerm) {
+    const term = debouncedSearchTerm.toLowerCase();
+    const referenceIds = new Set(referenceMatches?.declarationIds ?? []);
+    filteredDeclarations = filteredDeclarations.filter((d) =>
+      referenceIds.has(d.id) ||
+      [d.partnerName, d.supplier, d.customer, d.productName].some(value => value?.toLowerCase().includes(term))
+    );
+  }
+  
   // Sort declarations by ID/date in descending order (newest first)
   filteredDeclarations = [...filteredDeclarations].sort((a, b) => {
     // If we have date fields, sort by date
@@ -828,8 +935,15 @@ export default function Declarations() {
           <p className="mt-1 text-sm text-gray-500">Manage inbound and outbound declarations for EUDR compliance</p>
         </div>
         <div className="mt-4 md:mt-0 flex space-x-2">
+          {/* Bulk import of inbound declarations from ERP exports */}
+          {(!isSupplier || isCustomer) && can("inbound_declarations", "create") && (
+            <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
           {/* Only show Inbound Declaration button for non-supplier users */}
-          {(!isSupplier || isCustomer) && (
+          {(!isSupplier || isCustomer) && can("inbound_declarations", "create") && (
             <Button 
               className="bg-green-600 hover:bg-green-700" 
               onClick={() => {
@@ -842,7 +956,7 @@ export default function Declarations() {
             </Button>
           )}
           {/* Only show Outbound Declaration button for non-customer users */}
-          {!isCustomer && (
+          {!isCustomer && can("outbound_declarations", "create") && (
             <Button 
               className="bg-blue-600 hover:bg-blue-700"
               onClick={() => {
@@ -857,6 +971,11 @@ export default function Declarations() {
         </div>
       </div>
       
+      <DeclarationImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
+      
       {/* Advanced Declaration Wizard */}
       {declarationType === "inbound" ? (
         <DeclarationWizard 
@@ -1198,10 +1317,9 @@ export default function Declarations() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="approved">Approved</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="review">Review</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
+                {DECLARATION_STATES.map(state => (
+                  <SelectItem key={state} value={state}>{DECLARATION_STATE_LABELS[state]}</SelectItem>
+                ))}
                 <SelectItem value="rm_id_not_present">RM id not present</SelectItem>
               </SelectContent>
             </Select>
@@ -1211,8 +1329,10 @@ export default function Declarations() {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
               <Input 
-                placeholder={activeTab === "inbound" ? "Search suppliers..." : "Search customers..."} 
+                placeholder={activeTab === "inbound" ? "Search suppliers, products or reference numbers..." : "Search customers, products or reference numbers..."} 
                 className="pl-9" 
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
           </div>
@@ -1287,11 +1407,17 @@ export default function Declarations() {
                       Product
                     </th>
                     <th scope="col" className="px-1 py-3.5 text-left text-xs font-semibold text-gray-900">
-                      Origin
+                      Trader
+                    </th>
+                    <th scope="col" className="px-1 py-3.5 text-left text-xs font-semibold text-gray-900">
+                      Activity
                     </th>
                     <th scope="col" className="px-1 py-3.5 text-left text-xs font-semibold text-gray-900">
                       Destination
                     </th>
+                    <th scope="col" className="px-1 py-3.5 text-left text-xs font-semibold text-gray-900">
+                      EU References
+                    </th>
                     <th scope="col" className="px-1 py-3.5 text-left text-xs font-semibold text-gray-900">
                       GeoJSON
                     </th>
@@ -1323,289 +1449,11 @@ export default function Declarations() {
                       </td>
                     </tr>
                   ) : filteredDeclarations.length === 0 ? (
-                    // Add sample realistic data when no real data is available
-                    <>
-                      <tr className="border-b border-gray-200 hover:bg-gray-50">
-                        <td className="py-4 pl-4 pr-1 text-sm whitespace-nowrap">
-                          <Checkbox aria-label="Select declaration" />
-                        </td>
-                        <td className="py-4 px-1 text-sm whitespace-nowrap">
-                          <div className="font-medium text-gray-900">EUDR-1001</div>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          02/15/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          EcoFarm Industries
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Palm Oil
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Refined Palm Oil
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Malaysia
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          European Union
-                        </td>
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-green-500"></span>
-                            Yes
-                          </span>
-                        </td>
-
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-green-500"></span>
-                            DDS Success
-                          </span>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          <a href="#" className="text-blue-500 hover:underline">View</a>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          John Smith
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Yes
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          05/15/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-right whitespace-nowrap">
-                          <Button variant="ghost" size="icon">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </td>
-                      </tr>
-                      <tr className="border-b border-gray-200 hover:bg-gray-50">
-                        <td className="py-4 pl-4 pr-1 text-sm whitespace-nowrap">
-                          <Checkbox aria-label="Select declaration" />
-                        </td>
-                        <td className="py-4 px-1 text-sm whitespace-nowrap">
-                          <div className="font-medium text-gray-900">EUDR-1002</div>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          03/22/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          ForestryGlobal Inc.
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Timber
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Hardwood Lumber
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Brazil
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          European Union
-                        </td>
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-green-500"></span>
-                            Yes
-                          </span>
-                        </td>
-
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-blue-500"></span>
-                            Filed
-                          </span>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          <a href="#" className="text-blue-500 hover:underline">View</a>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Maria Garcia
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Yes
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          06/22/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-right whitespace-nowrap">
-                          <Button variant="ghost" size="icon">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </td>
-                      </tr>
-                      <tr className="border-b border-gray-200 hover:bg-gray-50">
-                        <td className="py-4 pl-4 pr-1 text-sm whitespace-nowrap">
-                          <Checkbox aria-label="Select declaration" />
-                        </td>
-                        <td className="py-4 px-1 text-sm whitespace-nowrap">
-                          <div className="font-medium text-gray-900">EUDR-1003</div>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          03/28/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          CocoaSource Ltd.
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Cocoa
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Cocoa Beans
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Ghana
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          European Union
-                        </td>
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-red-500"></span>
-                            Invalid
-                          </span>
-                        </td>
-
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-red-500"></span>
-                            DDS Failed
-                          </span>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          <a href="#" className="text-blue-500 hover:underline">View</a>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          David Kim
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          No
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          06/28/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-right whitespace-nowrap">
-                          <Button variant="ghost" size="icon">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </td>
-                      </tr>
-                      <tr className="border-b border-gray-200 hover:bg-gray-50">
-                        <td className="py-4 pl-4 pr-1 text-sm whitespace-nowrap">
-                          <Checkbox aria-label="Select declaration" />
-                        </td>
-                        <td className="py-4 px-1 text-sm whitespace-nowrap">
-                          <div className="font-medium text-gray-900">EUDR-1004</div>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          04/02/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          RubberTrade Co.
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Rubber
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Natural Rubber
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Indonesia
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          European Union
-                        </td>
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-amber-500"></span>
-                            Pending
-                          </span>
-                        </td>
-
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-amber-500"></span>
-                            Filed
-                          </span>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          <a href="#" className="text-blue-500 hover:underline">View</a>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Emma Wilson
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Yes
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          07/02/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-right whitespace-nowrap">
-                          <Button variant="ghost" size="icon">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </td>
-                      </tr>
-                      <tr className="border-b border-gray-200 hover:bg-gray-50">
-                        <td className="py-4 pl-4 pr-1 text-sm whitespace-nowrap">
-                          <Checkbox aria-label="Select declaration" />
-                        </td>
-                        <td className="py-4 px-1 text-sm whitespace-nowrap">
-                          <div className="font-medium text-gray-900">EUDR-1005</div>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          04/05/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          SoyExport S.A.
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Soy
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Soybean Meal
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Brazil
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          European Union
-                        </td>
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-green-500"></span>
-                            Yes
-                          </span>
-                        </td>
-
-                        <td className="px-1 py-4 text-sm whitespace-nowrap">
-                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <span className="mr-1 h-2 w-2 rounded-full bg-green-500"></span>
-                            DDS Success
-                          </span>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          <a href="#" className="text-blue-500 hover:underline">View</a>
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Robert Chen
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          Yes
-                        </td>
-                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          07/05/2025
-                        </td>
-                        <td className="px-1 py-4 text-sm text-right whitespace-nowrap">
-                          <Button variant="ghost" size="icon">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </td>
-                      </tr>
-                    </>
+                    <tr>
+                      <td colSpan={17} className="py-10 text-center text-gray-500">
+                        No EU filed declarations found
+                      </td>
+                    </tr>
                   ) : (
                     filteredDeclarations.map((declaration: Declaration) => (
                       <tr key={declaration.id} className="border-b border-gray-200 hover:bg-gray-50">
@@ -1634,12 +1482,38 @@ export default function Declarations() {
                           {declaration.productName}
                         </td>
                         <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          {/* Simulated origin country */}
-                          {["Indonesia", "Brazil", "Malaysia", "Ghana", "Nigeria"][declaration.id % 5]}
+                          {declaration.euFiling ? (
+                            <div>
+                              <div className="text-gray-900">{declaration.euFiling.traderName}</div>
+                              <div className="text-xs">
+                                {declaration.euFiling.traderCountry}
+                                {declaration.euFiling.vatCode && ` · VAT ${declaration.euFiling.vatCode}`}
+                              </div>
+                            </div>
+                          ) : "-"}
+                        </td>
+                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap capitalize">
+                          {declaration.euFiling?.activityType || "-"}
+                        </td>
+                        <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
+                          {declaration.euFiling ? (
+                            <div>
+                              <div>{declaration.euFiling.countryOfEntry}</div>
+                              {declaration.euFiling.countryOfActivity !== declaration.euFiling.countryOfEntry && (
+                                <div className="text-xs">Activity in {declaration.euFiling.countryOfActivity}</div>
+                              )}
+                            </div>
+                          ) : "-"}
                         </td>
                         <td className="px-1 py-4 text-sm text-gray-500 whitespace-nowrap">
-                          {/* Simulated destination country */}
-                          European Union
+                          {declaration.euFiling ? (
+                            <div className="text-xs space-y-0.5">
+                              <div>Ref. {declaration.euFiling.reference}</div>
+                              {declaration.euFiling.eudrReference && <div>EUDR {declaration.euFiling.eudrReference}</div>}
+                              {declaration.euFiling.verificationReference && <div>Verification {declaration.euFiling.verificationReference}</div>}
+                              {declaration.euFiling.inspectionReference && <div>Inspection {declaration.euFiling.inspectionReference}</div>}
+                            </div>
+                          ) : declaration.eudrReferenceNumber || "-"}
                         </td>
                         <td className="px-1 py-4 text-sm whitespace-nowrap">
                           {declaration.geojsonData ? (
@@ -1761,6 +1635,7 @@ export default function Declarations() {
                         suppliersList={suppliers}
                         setSelectedTracesDeclarationId={setSelectedTracesDeclarationId}
                         setEuTracesFormOpen={setEuTracesFormOpen}
+                        validationJobs={validationJobs.filter(job => job.declarationId === declaration.id)}
                       />
                     ))
                   )}
@@ -12,6 +12,7 @@ import { EyeIcon, EyeOffIcon, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { GoogleIcon, MicrosoftIcon } from "@/components/icons";
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from "@shared/password-policy";
 import PhoneInput from 'react-phone-input-2';
 import 'react-phone-input-2/lib/style.css';
 import '@/styles/phone-input.css';
@@ -26,7 +27,9 @@ const registerSchema = z.object({
   otp: z.string().length(6, "OTP must be 6 digits").optional(),
   industryType: z.string().min(1, "Industry type is required"),
   complianceFocus: z.array(z.string()).default([]), // Make compliance focus optional
-  password: z.string().min(8, "Password must be at least 8 characters"),
+  password: z.string()
+    .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+    .max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`),
   confirmPassword: z.string(),
   acceptTerms: z.boolean().refine(val => val === true, {
     message: "You must accept the terms and conditions"
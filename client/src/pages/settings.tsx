@@ -18,6 +18,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { getInitials } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { permissionMatrix } from "@shared/permissions";
+import UserRoleAssignment from "@/components/user-role-assignment";
 import { Plus, ChevronDown, Network, UserPlus, MoreHorizontal, Camera, Edit3, Eye, Trash2, ChevronRight, GripVertical } from "lucide-react";
 import { 
   FaUserCircle, 
@@ -55,9 +60,38 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
+interface RoleSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  isActive: boolean | null;
+}
+
 export default function Settings() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { can } = usePermissions();
+  
+  // Saved roles and how many users hold each
+  const { data: savedRoles = [], isLoading: isLoadingRoles } = useQuery<RoleSummary[]>({
+    queryKey: ["/api/roles"],
+    enabled: can("administration", "view"),
+  });
+  const { data: roleUsers = [] } = useQuery<{ id: number; roleId: number | null }[]>({
+    queryKey: ["/api/users"],
+    enabled: can("administration", "view"),
+  });
+  
+  const deleteRoleMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/roles/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({ title: "Role Deleted", description: "The role has been deleted." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
   const [loading, setLoading] = useState(false);
   const [showHierarchyEditor, setShowHierarchyEditor] = useState(false);
   
@@ -154,78 +188,7 @@ export default function Settings() {
   const [newRole, setNewRole] = useState({
     name: "",
     description: "",
-    permissions: [
-      { 
-        module: "Product Masters", 
-        view: true, 
-        create: true, 
-        edit: true, 
-        delete: "N/A", 
-        approve: "N/A",
-        isExpandable: false,
-        subModules: []
-      },
-      { 
-        module: "Supplier Management", 
-        view: true, 
-        create: true, 
-        edit: true, 
-        delete: "N/A", 
-        approve: "N/A",
-        isExpandable: false,
-        subModules: []
-      },
-      { 
-        module: "Customer Management", 
-        view: true, 
-        create: true, 
-        edit: true, 
-        delete: "N/A", 
-        approve: "N/A",
-        isExpandable: false,
-        subModules: []
-      },
-      { 
-        module: "Inbound Declaration", 
-        view: true, 
-        create: true, 
-        edit: true, 
-        delete: "N/A", 
-        approve: "trigger",
-        isExpandable: true,
-        subModules: [
-          { name: "Geometry Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "System Trigger" },
-          { name: "Satellite Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "Async Trigger" },
-          { name: "Notify Non-Compliant Suppliers", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "Manual Trigger" },
-          { name: "File in EU-IS", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "Submit to EU-IS" }
-        ]
-      },
-      { 
-        module: "Outbound Declaration", 
-        view: true, 
-        create: true, 
-        edit: true, 
-        delete: "N/A", 
-        approve: "trigger",
-        isExpandable: true,
-        subModules: [
-          { name: "Geometry Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" },
-          { name: "Satellite Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" },
-          { name: "Notify Non-Compliant Suppliers", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" },
-          { name: "File in EU-IS", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" }
-        ]
-      },
-      { 
-        module: "Location Masters", 
-        view: true, 
-        create: true, 
-        edit: true, 
-        delete: "N/A", 
-        approve: "N/A",
-        isExpandable: false,
-        subModules: []
-      }
-    ]
+    permissions: permissionMatrix("all")
   });
   
   // Add new user modal state
@@ -2316,7 +2279,6 @@ export default function Settings() {
         name: newRole.name,
         description: newRole.description || null,
         permissions: newRole.permissions,
-        entityId: 1, // Default entity ID
         isActive: true
       };
 
@@ -2345,6 +2307,7 @@ export default function Settings() {
       };
     
       setRoles([...roles, newRoleObj]);
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
       
       toast({
         title: "Role Created",
@@ -2358,78 +2321,7 @@ export default function Settings() {
       setNewRole({
         name: "",
         description: "",
-        permissions: [
-          { 
-            module: "Product Masters", 
-            view: true, 
-            create: true, 
-            edit: true, 
-            delete: "N/A", 
-            approve: "N/A",
-            isExpandable: false,
-            subModules: []
-          },
-          { 
-            module: "Supplier Management", 
-            view: true, 
-            create: true, 
-            edit: true, 
-            delete: "N/A", 
-            approve: "N/A",
-            isExpandable: false,
-            subModules: []
-          },
-          { 
-            module: "Customer Management", 
-            view: true, 
-            create: true, 
-            edit: true, 
-            delete: "N/A", 
-            approve: "N/A",
-            isExpandable: false,
-            subModules: []
-          },
-          { 
-            module: "Inbound Declaration", 
-            view: true, 
-            create: true, 
-            edit: true, 
-            delete: "N/A", 
-            approve: "trigger",
-            isExpandable: true,
-            subModules: [
-              { name: "Geometry Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "System Trigger" },
-              { name: "Satellite Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "Async Trigger" },
-              { name: "Notify Non-Compliant Suppliers", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "Manual Trigger" },
-              { name: "File in EU-IS", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "Submit to EU-IS" }
-            ]
-          },
-          { 
-            module: "Outbound Declaration", 
-            view: true, 
-            create: true, 
-            edit: true, 
-            delete: "N/A", 
-            approve: "trigger",
-            isExpandable: true,
-            subModules: [
-              { name: "Geometry Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" },
-              { name: "Satellite Check", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" },
-              { name: "Notify Non-Compliant Suppliers", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" },
-              { name: "File in EU-IS", view: "N/A", create: "N/A", edit: "N/A", delete: "N/A", approve: "trigger" }
-            ]
-          },
-          { 
-            module: "Location Masters", 
-            view: true, 
-            create: true, 
-            edit: true, 
-            delete: "N/A", 
-            approve: "N/A",
-            isExpandable: false,
-            subModules: []
-          }
-        ]
+        permissions: permissionMatrix("all")
       });
     } catch (error) {
       toast({
@@ -2613,10 +2505,12 @@ export default function Settings() {
                   </SelectContent>
                 </Select>
               </div>
-              <Button onClick={handleCreateRole}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Role
-              </Button>
+              {can("administration", "create") && (
+                <Button onClick={() => setShowCreateRoleModal(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Role
+                </Button>
+              )}
             </div>
 
             {/* Roles Table */}
@@ -2632,52 +2526,41 @@ export default function Settings() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  <TableRow>
-                    <TableCell className="font-medium">Admin</TableCell>
-                    <TableCell>Full system access with all permissions</TableCell>
-                    <TableCell>12 users</TableCell>
-                    <TableCell>
-                      <Badge variant="default" className="bg-green-100 text-green-800 border-green-200">
-                        Active
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button variant="ghost" size="sm">
-                          <Edit3 className="w-4 h-4" />
-                        </Button>
-                        <Button variant="ghost" size="sm">
-                          <Eye className="w-4 h-4" />
-                        </Button>
-                        <Button variant="ghost" size="sm">
-                          <Trash2 className="w-4 h-4 text-red-500" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell className="font-medium">Auditor</TableCell>
-                    <TableCell>View-only access to compliance data</TableCell>
-                    <TableCell>8 users</TableCell>
-                    <TableCell>
-                      <Badge variant="default" className="bg-green-100 text-green-800 border-green-200">
-                        Active
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button variant="ghost" size="sm">
-                          <Edit3 className="w-4 h-4" />
-                        </Button>
-                        <Button variant="ghost" size="sm">
-                          <Eye className="w-4 h-4" />
-                        </Button>
-                        <Button variant="ghost" size="sm">
-                          <Trash2 className="w-4 h-4 text-red-500" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
+                  {isLoadingRoles ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">Loading roles...</TableCell>
+                    </TableRow>
+                  ) : savedRoles.map(role => {
+                    const userCount = roleUsers.filter(roleUser => roleUser.roleId === role.id).length;
+                    return (
+                      <TableRow key={role.id}>
+                        <TableCell className="font-medium">{role.name}</TableCell>
+                        <TableCell>{role.description || "-"}</TableCell>
+                        <TableCell>{userCount} {userCount === 1 ? "user" : "users"}</TableCell>
+                        <TableCell>
+                          {role.isActive === false ? (
+                            <Badge variant="outline">Inactive</Badge>
+                          ) : (
+                            <Badge variant="default" className="bg-green-100 text-green-800 border-green-200">
+                              Active
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {can("administration", "delete") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={deleteRoleMutation.isPending}
+                              onClick={() => deleteRoleMutation.mutate(role.id)}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
                 </div>
@@ -2734,9 +2617,12 @@ export default function Settings() {
             )}
             
             {activeTab === 'assignment' && (
-              <div className="text-center py-12">
-                <h3 className="text-lg font-medium text-gray-900 mb-2">User Assignment</h3>
-                <p className="text-gray-500">Assign users to specific roles and manage permissions</p>
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">User Assignment</h3>
+                  <p className="text-gray-500">Assign users to roles; a user has exactly the permissions of their role</p>
+                </div>
+                <UserRoleAssignment />
               </div>
             )}
           </div>
@@ -0,0 +1,104 @@
+const fs = require('fs');
+const axios = require('axios');
+
+const MAX_LANDMARKS = 20;
+
+// Load a gazetteer of named places: a GeoJSON FeatureCollection of points with
+// name, country, feature, population and wikipediaUrl properties
+function loadGazetteer(filePath) {
+  if (!filePath || !fs.existsSync(filePath)) return null;
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!data || data.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new Error('Gazetteer must be a GeoJSON FeatureCollection');
+  }
+
+  return data.features.filter(feature =>
+    feature && feature.geometry && feature.geometry.type === 'Point' &&
+    Array.isArray(feature.geometry.coordinates) &&
+    Number.isFinite(feature.geometry.coordinates[0]) && Number.isFinite(feature.geometry.coordinates[1])
+  );
+}
+
+function toLandmarkFeature(properties, lng, lat) {
+  return {
+    type: 'Feature',
+    properties: {
+      name: properties.name,
+      country: properties.country || '',
+      population: properties.population || 0,
+      feature: properties.feature || 'Landmark',
+      wikipediaUrl: properties.wikipediaUrl || null
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [lng, lat]
+    }
+  };
+}
+
+/**
+ * Landmark lookup for the map viewport. Uses GeoNames when a username is
+ * configured and the local gazetteer otherwise, or when GeoNames fails.
+ * `mode` is "geonames", "gazetteer", "off" or "auto".
+ */
+function createLandmarkProvider({ mode = 'auto', geonamesUsername, gazetteerPath }) {
+  let gazetteer = null;
+  if (mode !== 'off') {
+    try {
+      gazetteer = loadGazetteer(gazetteerPath);
+    } catch (error) {
+      console.error(`Error loading gazetteer ${gazetteerPath}:`, error.message);
+    }
+  }
+
+  const useGeonames = (mode === 'auto' || mode === 'geonames') && !!geonamesUsername;
+  const useGazetteer = (mode === 'auto' || mode === 'gazetteer' || mode === 'geonames') && !!gazetteer;
+
+  function searchGazetteer({ north, south, east, west }) {
+    return gazetteer
+      .filter(feature => {
+        const [lng, lat] = feature.geometry.coordinates;
+        const inLongitude = west <= east ? lng >= west && lng <= east : lng >= west || lng <= east;
+        return lat >= south && lat <= north && inLongitude;
+      })
+      .sort((a, b) => (b.properties.population || 0) - (a.properties.population || 0))
+      .slice(0, MAX_LANDMARKS)
+      .map(feature => toLandmarkFeature(feature.properties || {}, ...feature.geometry.coordinates));
+  }
+
+  async function searchGeonames({ north, south, east, west }) {
+    const response = await axios.get('http://api.geonames.org/searchJSON', {
+      params: { north, south, east, west, maxRows: MAX_LANDMARKS, featureClass: 'T', username: geonamesUsername },
+      timeout: 5000
+    });
+    if (response.data && response.data.status) {
+      throw new Error(response.data.status.message || 'GeoNames request failed');
+    }
+    return (response.data.geonames || []).map(landmark => toLandmarkFeature({
+      name: landmark.name,
+      country: landmark.countryName,
+      population: landmark.population,
+      feature: landmark.fclName,
+      wikipediaUrl: landmark.wikipediaURL
+    }, parseFloat(landmark.lng), parseFloat(landmark.lat)));
+  }
+
+  return {
+    enabled: useGeonames || useGazetteer,
+    source: useGeonames ? 'geonames' : useGazetteer ? 'gazetteer' : null,
+    async search(bounds) {
+      if (useGeonames) {
+        try {
+          return await searchGeonames(bounds);
+        } catch (error) {
+          if (!useGazetteer) throw error;
+          console.error('GeoNames lookup failed, using local gazetteer:', error.message);
+        }
+      }
+      return useGazetteer ? searchGazetteer(bounds) : [];
+    }
+  };
+}
+
+module.exports = { createLandmarkProvider };
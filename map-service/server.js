@@ -1,24 +1,100 @@
 const express = require('express');
 const cors = require('cors');
-const axios = require('axios');
+const fs = require('fs');
 const path = require('path');
+const { openTileSource } = require('./tiles');
+const { createLandmarkProvider } = require('./landmarks');
 
 const app = express();
 const PORT = 3001;
 
+// Offline operation: local tiles (an .mbtiles file or XYZ directory), vendored
+// Leaflet and a local gazetteer. With MAP_OFFLINE=true nothing is fetched from
+// the internet, even when no local tiles are configured.
+const MAP_OFFLINE = process.env.MAP_OFFLINE === 'true';
+const TILES_PATH = process.env.MAP_TILES_PATH || path.join(__dirname, 'tiles');
+const GAZETTEER_PATH = process.env.MAP_GAZETTEER_PATH || path.join(__dirname, 'data', 'gazetteer.geojson');
+const ONLINE_LEAFLET_URL = 'https://unpkg.com/leaflet@1.9.4/dist';
+const ONLINE_GEOMAN_URL = 'https://unpkg.com/@geoman-io/leaflet-geoman-free@2.17.0/dist';
+const ONLINE_TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+// A vendored library's dist folder: the env override, public/vendor/<name> or the npm package
+function resolveVendorDir(envDir, name, packageName, entryFile) {
+  const candidates = [envDir, path.join(__dirname, 'public', 'vendor', name)];
+  try {
+    candidates.push(path.join(path.dirname(require.resolve(`${packageName}/package.json`)), 'dist'));
+  } catch (error) {
+    // the package is not installed
+  }
+  return candidates.find(dir => dir && fs.existsSync(path.join(dir, entryFile))) || null;
+}
+
+const leafletDir = resolveVendorDir(process.env.MAP_LEAFLET_DIR, 'leaflet', 'leaflet', 'leaflet.js');
+// Leaflet-Geoman provides the plot drawing and editing tools
+const geomanDir = resolveVendorDir(process.env.MAP_GEOMAN_DIR, 'geoman', '@geoman-io/leaflet-geoman-free', 'leaflet-geoman.min.js');
+
+let tileSource = null;
+try {
+  tileSource = openTileSource(TILES_PATH);
+} catch (error) {
+  console.error(`Error opening map tiles at ${TILES_PATH}:`, error.message);
+}
+
+const landmarks = createLandmarkProvider({
+  mode: process.env.MAP_LANDMARKS || (MAP_OFFLINE ? 'gazetteer' : 'auto'),
+  geonamesUsername: MAP_OFFLINE ? undefined : process.env.GEONAMES_USERNAME,
+  gazetteerPath: GAZETTEER_PATH
+});
+
+console.log(`Map tiles: ${tileSource ? `${tileSource.type} (${tileSource.name})` : MAP_OFFLINE ? 'none' : 'OpenStreetMap'}`);
+console.log(`Leaflet: ${leafletDir || ONLINE_LEAFLET_URL}`);
+if (MAP_OFFLINE && (!leafletDir || !geomanDir)) {
+  console.warn('MAP_OFFLINE is set but Leaflet or Leaflet-Geoman is not vendored; run npm install in map-service or set MAP_LEAFLET_DIR / MAP_GEOMAN_DIR');
+}
+console.log(`Landmarks: ${landmarks.source || 'disabled'}`);
+
 // Middleware
 app.use(cors());
 app.use(express.json());
-app.use(express.static(path.join(__dirname, 'public')));
+app.use(express.static(path.join(__dirname, 'public'), { index: false }));
+if (leafletDir) {
+  app.use('/vendor/leaflet', express.static(leafletDir, { maxAge: '7d' }));
+}
+if (geomanDir) {
+  app.use('/vendor/geoman', express.static(geomanDir, { maxAge: '7d' }));
+}
+
+// Session layers (unsaved uploads) are dropped after this long without use
+const SESSION_LAYER_TTL_MS = 2 * 60 * 60 * 1000;
+
+const EMPTY_COLLECTION = { type: 'FeatureCollection', features: [] };
 
-// Store GeoJSON data in memory (for this microservice session)
-let currentGeoJSON = null;
+// Unsaved GeoJSON layers in memory, keyed by map session and declaration.
+// Saved declaration layers are served by the main application, which checks
+// the signed-in user's access to the declaration.
+const sessionLayers = new Map();
 
-// API endpoint to receive GeoJSON data
+function layerKey(session, declarationId) {
+  return `${session}:${declarationId || 'draft'}`;
+}
+
+function parseDeclarationId(value) {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// API endpoint to receive GeoJSON data for a map session
 app.post('/api/geojson', (req, res) => {
+  const { session } = req.query;
+  if (!session) {
+    return res.status(400).json({ success: false, error: 'Missing session parameter' });
+  }
+
   try {
-    currentGeoJSON = req.body;
-    console.log('GeoJSON data received:', JSON.stringify(currentGeoJSON, null, 2));
+    const declarationId = parseDeclarationId(req.query.declarationId);
+    const features = Array.isArray(req.body && req.body.features) ? req.body.features.length : 0;
+    sessionLayers.set(layerKey(session, declarationId), { geojson: req.body, updatedAt: Date.now() });
+    console.log(`GeoJSON data received for ${layerKey(session, declarationId)} (${features} features)`);
     res.json({ success: true, message: 'GeoJSON data stored successfully' });
   } catch (error) {
     console.error('Error storing GeoJSON:', error);
@@ -26,60 +102,124 @@ app.post('/api/geojson', (req, res) => {
   }
 });
 
-// API endpoint to get current GeoJSON data
+// API endpoint to get the GeoJSON uploaded in a map session. For a declaration
+// without a session layer this is a 404, and the main application's
+// /api/map-geojson falls back to the declaration's saved GeoJSON.
 app.get('/api/geojson', (req, res) => {
-  res.json(currentGeoJSON || { type: 'FeatureCollection', features: [] });
+  const { session } = req.query;
+  const declarationId = parseDeclarationId(req.query.declarationId);
+
+  const sessionLayer = session ? sessionLayers.get(layerKey(session, declarationId)) : undefined;
+  if (sessionLayer) {
+    sessionLayer.updatedAt = Date.now();
+    return res.json(sessionLayer.geojson);
+  }
+
+  if (!declarationId) {
+    return res.json(EMPTY_COLLECTION);
+  }
+  res.status(404).json({ error: 'No GeoJSON uploaded for this declaration in this session' });
+});
+
+// Drop a session's uploaded layer, e.g. when the map is closed
+app.delete('/api/geojson', (req, res) => {
+  const { session } = req.query;
+  if (session) {
+    sessionLayers.delete(layerKey(session, parseDeclarationId(req.query.declarationId)));
+  }
+  res.status(204).send();
 });
 
-// API endpoint to fetch Wikipedia landmarks based on viewport bounds
+// API endpoint to fetch landmarks (GeoNames or the local gazetteer) within viewport bounds
 app.get('/api/landmarks', async (req, res) => {
-  try {
-    const { north, south, east, west } = req.query;
-    
-    if (!north || !south || !east || !west) {
+  if (!landmarks.enabled) {
+    return res.status(404).json({ error: 'Landmarks layer is disabled' });
+  }
+
+  const bounds = {};
+  for (const key of ['north', 'south', 'east', 'west']) {
+    bounds[key] = parseFloat(req.query[key]);
+    if (!Number.isFinite(bounds[key])) {
       return res.status(400).json({ error: 'Missing viewport bounds parameters' });
     }
+  }
 
-    // Use GeoNames API to fetch nearby places
-    const geonamesUrl = `http://api.geonames.org/searchJSON?north=${north}&south=${south}&east=${east}&west=${west}&maxRows=20&featureClass=T&username=demo`;
-    
-    const response = await axios.get(geonamesUrl);
-    const landmarks = response.data.geonames || [];
-    
-    // Transform to GeoJSON format
-    const landmarkFeatures = landmarks.map(landmark => ({
-      type: 'Feature',
-      properties: {
-        name: landmark.name,
-        country: landmark.countryName,
-        population: landmark.population || 0,
-        feature: landmark.fclName || 'Landmark',
-        wikipediaUrl: landmark.wikipediaURL || null
-      },
-      geometry: {
-        type: 'Point',
-        coordinates: [parseFloat(landmark.lng), parseFloat(landmark.lat)]
-      }
-    }));
-
+  try {
     res.json({
       type: 'FeatureCollection',
-      features: landmarkFeatures
+      source: landmarks.source,
+      features: await landmarks.search(bounds)
     });
   } catch (error) {
-    console.error('Error fetching landmarks:', error);
+    console.error('Error fetching landmarks:', error.message);
     res.status(500).json({ error: 'Failed to fetch landmarks' });
   }
 });
 
+// Local map tiles
+app.get('/tiles/:z/:x/:y', (req, res) => {
+  const z = parseInt(req.params.z, 10);
+  const x = parseInt(req.params.x, 10);
+  const y = parseInt(req.params.y, 10);
+  if (!tileSource || ![z, x, y].every(Number.isInteger)) {
+    return res.status(404).send();
+  }
+
+  try {
+    const tile = tileSource.getTile(z, x, y);
+    if (!tile) {
+      return res.status(204).send();
+    }
+    res.set({ 'Content-Type': tile.contentType, 'Cache-Control': 'public, max-age=86400' });
+    res.send(tile.data);
+  } catch (error) {
+    console.error(`Error reading tile ${z}/${x}/${y}:`, error.message);
+    res.status(500).send();
+  }
+});
+
+// Base layer and overlay settings for the map page
+app.get('/api/map-config', (req, res) => {
+  const tiles = tileSource
+    ? {
+        url: 'tiles/{z}/{x}/{y}',
+        attribution: tileSource.attribution || 'Local tiles',
+        minZoom: tileSource.minZoom,
+        maxZoom: tileSource.maxZoom,
+        bounds: tileSource.bounds
+      }
+    : MAP_OFFLINE
+      ? null
+      : { url: ONLINE_TILE_URL, attribution: '© OpenStreetMap contributors' };
+
+  res.json({
+    offline: MAP_OFFLINE,
+    tiles,
+    landmarks: { enabled: landmarks.enabled, source: landmarks.source }
+  });
+});
+
 // Main map service endpoint
+// Asset and API paths in the page are relative to __BASE_PATH__, which is set
+// from X-Forwarded-Prefix when the page is served through the main app's proxy
 app.get('/map-service', (req, res) => {
-  res.sendFile(path.join(__dirname, 'public', 'index.html'));
+  const prefix = req.get('X-Forwarded-Prefix');
+  const basePath = prefix && /^\/[\w\/-]*$/.test(prefix) ? `${prefix.replace(/\/$/, '')}/` : '/';
+  const leafletUrl = leafletDir ? `${basePath}vendor/leaflet` : ONLINE_LEAFLET_URL;
+  const geomanUrl = geomanDir ? `${basePath}vendor/geoman` : ONLINE_GEOMAN_URL;
+
+  fs.readFile(path.join(__dirname, 'public', 'index.html'), 'utf8', (error, html) => {
+    if (error) {
+      console.error('Error reading map page:', error);
+      return res.status(500).send('Map page unavailable');
+    }
+    res.type('html').send(html.replace(/__BASE_PATH__/g, basePath).replace(/__LEAFLET_URL__/g, leafletUrl).replace(/__GEOMAN_URL__/g, geomanUrl));
+  });
 });
 
 // Health check endpoint
 app.get('/health', (req, res) => {
-  res.json({ status: 'healthy', service: 'map-microservice', port: PORT });
+  res.json({ status: 'healthy', service: 'map-microservice', port: PORT, sessionLayers: sessionLayers.size });
 });
 
 const server = app.listen(PORT, '0.0.0.0', () => {
@@ -90,6 +230,15 @@ const server = app.listen(PORT, '0.0.0.0', () => {
 // Keep-alive mechanism
 setInterval(() => {
   console.log(`[${new Date().toISOString()}] Map service heartbeat - port ${PORT}`);
+
+  // Expire idle session layers and stale declaration layers
+  const now = Date.now();
+  sessionLayers.forEach((layer, key) => {
+    if (now - layer.updatedAt > SESSION_LAYER_TTL_MS) sessionLayers.delete(key);
+  });
+  declarationLayers.forEach((layer, key) => {
+    if (now - layer.loadedAt > DECLARATION_CACHE_MS) declarationLayers.delete(key);
+  });
 }, 30000); // Log every 30 seconds
 
 server.on('error', (err) => {
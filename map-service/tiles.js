@@ -0,0 +1,95 @@
+const fs = require('fs');
+const path = require('path');
+
+const TILE_CONTENT_TYPES = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+// Open an MBTiles file (SQLite) of raster tiles. better-sqlite3 is an optional
+// dependency, so MBTiles support is disabled when it is not installed.
+function openMBTiles(filePath) {
+  let Database;
+  try {
+    Database = require('better-sqlite3');
+  } catch (error) {
+    throw new Error('MBTiles support requires the better-sqlite3 package (npm install better-sqlite3 in map-service)');
+  }
+
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+  const metadata = {};
+  db.prepare('SELECT name, value FROM metadata').all().forEach(row => {
+    metadata[row.name] = row.value;
+  });
+
+  const format = (metadata.format || 'png').toLowerCase();
+  if (!TILE_CONTENT_TYPES[format]) {
+    db.close();
+    throw new Error(`Unsupported MBTiles format "${format}" (only raster png, jpg and webp tiles can be displayed)`);
+  }
+
+  const selectTile = db.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?');
+
+  return {
+    type: 'mbtiles',
+    name: metadata.name || path.basename(filePath),
+    attribution: metadata.attribution || null,
+    minZoom: metadata.minzoom !== undefined ? Number(metadata.minzoom) : undefined,
+    maxZoom: metadata.maxzoom !== undefined ? Number(metadata.maxzoom) : undefined,
+    bounds: metadata.bounds ? metadata.bounds.split(',').map(Number) : undefined,
+    getTile(z, x, y) {
+      // MBTiles rows use the TMS scheme, counted from the bottom of the map
+      const row = selectTile.get(z, x, (1 << z) - 1 - y);
+      return row ? { data: row.tile_data, contentType: TILE_CONTENT_TYPES[format] } : null;
+    }
+  };
+}
+
+// Directory of XYZ tiles laid out as {z}/{x}/{y}.png (or .jpg/.jpeg/.webp)
+function openTileDirectory(directory) {
+  const metadataPath = path.join(directory, 'metadata.json');
+  const metadata = fs.existsSync(metadataPath) ? JSON.parse(fs.readFileSync(metadataPath, 'utf8')) : {};
+
+  return {
+    type: 'xyz',
+    name: metadata.name || path.basename(directory),
+    attribution: metadata.attribution || null,
+    minZoom: metadata.minzoom,
+    maxZoom: metadata.maxzoom,
+    bounds: metadata.bounds,
+    getTile(z, x, y) {
+      for (const extension of Object.keys(TILE_CONTENT_TYPES)) {
+        const tilePath = path.join(directory, String(z), String(x), `${y}.${extension}`);
+        if (fs.existsSync(tilePath)) {
+          return { data: fs.readFileSync(tilePath), contentType: TILE_CONTENT_TYPES[extension] };
+        }
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Open the local tile source at `location`: an .mbtiles file, an XYZ tile
+ * directory, or a directory holding a single .mbtiles file. Returns null when
+ * nothing is configured there.
+ */
+function openTileSource(location) {
+  if (!location || !fs.existsSync(location)) return null;
+
+  if (fs.statSync(location).isFile()) {
+    return openMBTiles(location);
+  }
+
+  const mbtiles = fs.readdirSync(location).filter(file => file.toLowerCase().endsWith('.mbtiles')).sort();
+  if (mbtiles.length > 0) {
+    return openMBTiles(path.join(location, mbtiles[0]));
+  }
+
+  const hasZoomLevels = fs.readdirSync(location).some(entry => /^\d+$/.test(entry));
+  return hasZoomLevels ? openTileDirectory(location) : null;
+}
+
+module.exports = { openTileSource };
@@ -1,6 +1,13 @@
-import { eq, and, asc, desc, isNull, gte, lte, like, sql } from "drizzle-orm";
+import { eq, and, or, ne, asc, desc, isNull, isNotNull, gte, lte, like, ilike, sql, inArray, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { db, pool } from "./db";
 import * as schema from "@shared/schema";
+import { PERSONAS } from "@shared/personas";
+import { DEFAULT_ROLE_GRANTS, permissionMatrix } from "@shared/permissions";
+import { hashPassword } from "./services/auth";
+import { passwordPolicyError } from "./services/password-policy";
+import { DEFAULT_ENTITY_ID, tenantEntityIdFor, tenantFilterId } from "./utils/tenant-context";
+import { currentImpersonation, withImpersonation } from "./utils/impersonation";
 import {
   User,
   InsertUser,
@@ -8,6 +15,8 @@ import {
   InsertSupplier,
   Declaration,
   InsertDeclaration,
+  DeclarationUpdate,
+  NewDeclaration,
   Document,
   InsertDocument,
   Activity,
@@ -34,10 +43,50 @@ import {
   InsertSupplierActivationToken,
   Role,
   InsertRole,
+  ValidationJob,
+  InsertValidationJob,
+  GeojsonEdit,
+  InsertGeojsonEdit,
+  DeclarationItem,
+  InsertDeclarationItem,
+  DeclarationTransition,
+  InsertDeclarationTransition,
+  DeclarationAllocation,
+  ProductConversion,
+  InsertProductConversion,
+  DeclarationVersion,
+  InsertDeclarationVersion,
+  EUISSubmission,
+  InsertEUISSubmission,
+  EUFiling,
+  InsertEUFiling,
+  DeclarationReference,
+  InsertDeclarationReference,
+  DeclarationImport,
+  InsertDeclarationImport,
 } from "@shared/schema";
 import { IStorage } from "./storage";
+import { lifecycleStateOf } from "@shared/declaration-lifecycle";
+import { normalizeReferenceNumber, referenceValidationStatus } from "@shared/eu-reference-numbers";
+import { AllocationRequest, InboundBalance, allocatedQuantities, checkAllocations, holdsAllocations, inboundBalanceOf, isAllocatable } from "./services/mass-balance";
+import { snapshotOf } from "./services/declaration-versions";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export class DatabaseStorage implements IStorage {
+  // Tenant isolation: inside a tenant's request only rows of its entity are
+  // read or changed; platform admins and background work see every entity
+  private inTenant(column: AnyPgColumn): SQL | undefined {
+    const entityId = tenantFilterId();
+    return entityId === undefined ? undefined : eq(column, entityId);
+  }
+
+  // Rows keyed by declaration are scoped through their declaration
+  private ofTenantDeclaration(column: AnyPgColumn): SQL | undefined {
+    const tenant = this.inTenant(schema.declarations.entityId);
+    return tenant && inArray(column, db.select({ id: schema.declarations.id }).from(schema.declarations).where(tenant));
+  }
+
   // User management
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(schema.users).where(eq(schema.users.id, id));
@@ -69,17 +118,32 @@ export class DatabaseStorage implements IStorage {
   }
 
   async listUsers(): Promise<User[]> {
-    return await db.select().from(schema.users);
+    return await db.select().from(schema.users).where(this.inTenant(schema.users.entityId));
+  }
+
+  async updateUserRole(id: number, roleId: number | null): Promise<User | undefined> {
+    const [user] = await db
+      .update(schema.users)
+      .set({ roleId })
+      .where(and(eq(schema.users.id, id), this.inTenant(schema.users.entityId)))
+      .returning();
+    return user;
   }
 
   // Supplier management
   async getSupplier(id: number): Promise<Supplier | undefined> {
-    const [supplier] = await db.select().from(schema.suppliers).where(eq(schema.suppliers.id, id));
+    const [supplier] = await db
+      .select()
+      .from(schema.suppliers)
+      .where(and(eq(schema.suppliers.id, id), this.inTenant(schema.suppliers.entityId)));
     return supplier;
   }
 
   async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
-    const [supplier] = await db.insert(schema.suppliers).values(insertSupplier).returning();
+    const [supplier] = await db
+      .insert(schema.suppliers)
+      .values({ ...insertSupplier, entityId: tenantEntityIdFor() })
+      .returning();
     return supplier;
   }
 
@@ -87,7 +151,7 @@ export class DatabaseStorage implements IStorage {
     const [updatedSupplier] = await db
       .update(schema.suppliers)
       .set(updateData)
-      .where(eq(schema.suppliers.id, id))
+      .where(and(eq(schema.suppliers.id, id), this.inTenant(schema.suppliers.entityId)))
       .returning();
     return updatedSupplier;
   }
@@ -108,6 +172,7 @@ export class DatabaseStorage implements IStorage {
       contactName: schema.suppliers.contactName,
       phoneNumber: schema.suppliers.phoneNumber,
       status: schema.suppliers.status,
+      entityId: schema.suppliers.entityId,
       createdAt: schema.suppliers.createdAt
     };
 
@@ -115,28 +180,70 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select(selectColumns)
         .from(schema.suppliers)
-        .where(eq(schema.suppliers.status, status))
+        .where(and(eq(schema.suppliers.status, status), this.inTenant(schema.suppliers.entityId)))
         .orderBy(desc(schema.suppliers.id));
     }
-    return await db.select(selectColumns).from(schema.suppliers).orderBy(desc(schema.suppliers.id));
+    return await db
+      .select(selectColumns)
+      .from(schema.suppliers)
+      .where(this.inTenant(schema.suppliers.entityId))
+      .orderBy(desc(schema.suppliers.id));
   }
 
   // Declaration management
   async getDeclaration(id: number): Promise<Declaration | undefined> {
-    const [declaration] = await db.select().from(schema.declarations).where(eq(schema.declarations.id, id));
+    const [declaration] = await db
+      .select()
+      .from(schema.declarations)
+      .where(and(eq(schema.declarations.id, id), this.inTenant(schema.declarations.entityId)));
     return declaration;
   }
 
   async createDeclaration(insertDeclaration: InsertDeclaration): Promise<Declaration> {
-    const [declaration] = await db.insert(schema.declarations).values(insertDeclaration).returning();
+    const [declaration] = await db
+      .insert(schema.declarations)
+      .values({ ...insertDeclaration, entityId: tenantEntityIdFor() })
+      .returning();
     return declaration;
   }
 
-  async updateDeclaration(id: number, updateData: Partial<InsertDeclaration>): Promise<Declaration | undefined> {
+  // A declaration is written with its line items, references and, when
+  // sealedBy is given, its first version in one transaction
+  async createDeclarationWithContent(
+    declaration: NewDeclaration,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    references: Omit<InsertDeclarationReference, "declarationId">[],
+    sealedBy?: number
+  ): Promise<Declaration> {
+    return await db.transaction(async (tx) => {
+      const [newDeclaration] = await tx
+        .insert(schema.declarations)
+        .values({ ...declaration, entityId: tenantEntityIdFor() })
+        .returning();
+      if (items.length > 0) {
+        await tx.insert(schema.declarationItems).values(items.map(item => ({ ...item, declarationId: newDeclaration.id })));
+      }
+      if (references.length > 0) {
+        await tx.insert(schema.declarationReferences).values(references.map(reference => ({ ...reference, declarationId: newDeclaration.id })));
+      }
+      if (sealedBy !== undefined) {
+        await this.sealVersion(tx, newDeclaration, sealedBy);
+      }
+      return newDeclaration;
+    });
+  }
+
+  // With an expected status the update only applies if nobody changed the status
+  // since it was read, so content cannot change after a submission sealed it
+  async updateDeclaration(id: number, updateData: DeclarationUpdate, expectedStatus?: string): Promise<Declaration | undefined> {
     const [updatedDeclaration] = await db
       .update(schema.declarations)
       .set(updateData)
-      .where(eq(schema.declarations.id, id))
+      .where(and(
+        eq(schema.declarations.id, id),
+        expectedStatus !== undefined ? eq(schema.declarations.status, expectedStatus) : undefined,
+        this.inTenant(schema.declarations.entityId)
+      ))
       .returning();
     return updatedDeclaration;
   }
@@ -145,28 +252,34 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(schema.declarations)
-      .where(eq(schema.declarations.supplierId, supplierId));
+      .where(and(eq(schema.declarations.supplierId, supplierId), this.inTenant(schema.declarations.entityId)));
   }
 
   async listDeclarationsByType(type: string): Promise<Declaration[]> {
     return await db
       .select()
       .from(schema.declarations)
-      .where(eq(schema.declarations.type, type));
+      .where(and(eq(schema.declarations.type, type), this.inTenant(schema.declarations.entityId)));
   }
 
   async listDeclarations(): Promise<Declaration[]> {
-    return await db.select().from(schema.declarations);
+    return await db.select().from(schema.declarations).where(this.inTenant(schema.declarations.entityId));
   }
 
   // Document management
   async getDocument(id: number): Promise<Document | undefined> {
-    const [document] = await db.select().from(schema.documents).where(eq(schema.documents.id, id));
+    const [document] = await db
+      .select()
+      .from(schema.documents)
+      .where(and(eq(schema.documents.id, id), this.inTenant(schema.documents.entityId)));
     return document;
   }
 
   async createDocument(insertDocument: InsertDocument): Promise<Document> {
-    const [document] = await db.insert(schema.documents).values(insertDocument).returning();
+    const [document] = await db
+      .insert(schema.documents)
+      .values({ ...insertDocument, entityId: tenantEntityIdFor() })
+      .returning();
     return document;
   }
 
@@ -174,7 +287,7 @@ export class DatabaseStorage implements IStorage {
     const [updatedDocument] = await db
       .update(schema.documents)
       .set(updateData)
-      .where(eq(schema.documents.id, id))
+      .where(and(eq(schema.documents.id, id), this.inTenant(schema.documents.entityId)))
       .returning();
     return updatedDocument;
   }
@@ -183,16 +296,25 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(schema.documents)
-      .where(eq(schema.documents.supplierId, supplierId));
+      .where(and(eq(schema.documents.supplierId, supplierId), this.inTenant(schema.documents.entityId)));
   }
 
   async listDocuments(): Promise<Document[]> {
-    return await db.select().from(schema.documents);
+    return await db.select().from(schema.documents).where(this.inTenant(schema.documents.entityId));
   }
 
-  // Activity tracking
+  // Activity tracking. Activities during an impersonation record the
+  // platform admin behind the impersonated user in their metadata.
   async createActivity(activity: InsertActivity): Promise<Activity> {
-    const [createdActivity] = await db.insert(schema.activities).values(activity).returning();
+    const impersonation = currentImpersonation();
+    const [createdActivity] = await db
+      .insert(schema.activities)
+      .values({
+        ...activity,
+        metadata: impersonation ? withImpersonation(activity.metadata, impersonation) : activity.metadata,
+        tenantEntityId: tenantEntityIdFor(activity.tenantEntityId),
+      })
+      .returning();
     return createdActivity;
   }
 
@@ -200,18 +322,25 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(schema.activities)
+      .where(this.inTenant(schema.activities.tenantEntityId))
       .orderBy(desc(schema.activities.timestamp))
       .limit(limit);
   }
 
   // Task management
   async getTask(id: number): Promise<Task | undefined> {
-    const [task] = await db.select().from(schema.tasks).where(eq(schema.tasks.id, id));
+    const [task] = await db
+      .select()
+      .from(schema.tasks)
+      .where(and(eq(schema.tasks.id, id), this.inTenant(schema.tasks.entityId)));
     return task;
   }
 
   async createTask(task: InsertTask): Promise<Task> {
-    const [createdTask] = await db.insert(schema.tasks).values(task).returning();
+    const [createdTask] = await db
+      .insert(schema.tasks)
+      .values({ ...task, entityId: tenantEntityIdFor() })
+      .returning();
     return createdTask;
   }
 
@@ -219,7 +348,7 @@ export class DatabaseStorage implements IStorage {
     const [updatedTask] = await db
       .update(schema.tasks)
       .set(task)
-      .where(eq(schema.tasks.id, id))
+      .where(and(eq(schema.tasks.id, id), this.inTenant(schema.tasks.entityId)))
       .returning();
     return updatedTask;
   }
@@ -228,7 +357,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(schema.tasks)
-      .where(eq(schema.tasks.assignedTo, userId));
+      .where(and(eq(schema.tasks.assignedTo, userId), this.inTenant(schema.tasks.entityId)));
   }
 
   async listUpcomingTasks(limit: number): Promise<Task[]> {
@@ -239,7 +368,8 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(schema.tasks.completed, false),
-          gte(schema.tasks.dueDate, now)
+          gte(schema.tasks.dueDate, now),
+          this.inTenant(schema.tasks.entityId)
         )
       )
       .orderBy(asc(schema.tasks.dueDate))
@@ -295,13 +425,17 @@ export class DatabaseStorage implements IStorage {
 
   // Self-Assessment Questionnaires (SAQs)
   async getSaq(id: number): Promise<Saq | undefined> {
-    const [saq] = await db.select().from(schema.saqs).where(eq(schema.saqs.id, id));
+    const [saq] = await db
+      .select()
+      .from(schema.saqs)
+      .where(and(eq(schema.saqs.id, id), this.inTenant(schema.saqs.entityId)));
     return saq;
   }
 
   async createSaq(saq: InsertSaq): Promise<Saq> {
     const [createdSaq] = await db.insert(schema.saqs).values({
       ...saq,
+      entityId: tenantEntityIdFor(),
       createdAt: new Date(),
       updatedAt: new Date(),
     }).returning();
@@ -315,7 +449,7 @@ export class DatabaseStorage implements IStorage {
         ...updateData,
         updatedAt: new Date(),
       })
-      .where(eq(schema.saqs.id, id))
+      .where(and(eq(schema.saqs.id, id), this.inTenant(schema.saqs.entityId)))
       .returning();
     return updatedSaq;
   }
@@ -328,21 +462,22 @@ export class DatabaseStorage implements IStorage {
         .where(
           and(
             eq(schema.saqs.supplierId, supplierId),
-            eq(schema.saqs.status, status)
+            eq(schema.saqs.status, status),
+            this.inTenant(schema.saqs.entityId)
           )
         );
     }
     return await db
       .select()
       .from(schema.saqs)
-      .where(eq(schema.saqs.supplierId, supplierId));
+      .where(and(eq(schema.saqs.supplierId, supplierId), this.inTenant(schema.saqs.entityId)));
   }
 
   async listSaqsByCustomer(customerId: number): Promise<Saq[]> {
     return await db
       .select()
       .from(schema.saqs)
-      .where(eq(schema.saqs.customerId, customerId));
+      .where(and(eq(schema.saqs.customerId, customerId), this.inTenant(schema.saqs.entityId)));
   }
 
   async getSaqStats(supplierId: number): Promise<{
@@ -354,7 +489,7 @@ export class DatabaseStorage implements IStorage {
     const saqs = await db
       .select()
       .from(schema.saqs)
-      .where(eq(schema.saqs.supplierId, supplierId));
+      .where(and(eq(schema.saqs.supplierId, supplierId), this.inTenant(schema.saqs.entityId)));
 
     return {
       total: saqs.length,
@@ -554,14 +689,14 @@ export class DatabaseStorage implements IStorage {
     const [customer] = await db
       .select()
       .from(schema.customers)
-      .where(eq(schema.customers.id, id));
+      .where(and(eq(schema.customers.id, id), this.inTenant(schema.customers.entityId)));
     return customer;
   }
 
   async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
     const [customer] = await db
       .insert(schema.customers)
-      .values(insertCustomer)
+      .values({ ...insertCustomer, entityId: tenantEntityIdFor() })
       .returning();
     return customer;
   }
@@ -573,7 +708,7 @@ export class DatabaseStorage implements IStorage {
         ...updateData,
         updatedAt: new Date(),
       })
-      .where(eq(schema.customers.id, id))
+      .where(and(eq(schema.customers.id, id), this.inTenant(schema.customers.entityId)))
       .returning();
     return updatedCustomer;
   }
@@ -583,9 +718,9 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(schema.customers)
-        .where(eq(schema.customers.type, type));
+        .where(and(eq(schema.customers.type, type), this.inTenant(schema.customers.entityId)));
     }
-    return await db.select().from(schema.customers);
+    return await db.select().from(schema.customers).where(this.inTenant(schema.customers.entityId));
   }
   
   async getCustomerStats(): Promise<{
@@ -593,7 +728,7 @@ export class DatabaseStorage implements IStorage {
     business: number;
     individual: number;
   }> {
-    const customers = await db.select().from(schema.customers);
+    const customers = await db.select().from(schema.customers).where(this.inTenant(schema.customers.entityId));
     
     return {
       total: customers.length,
@@ -606,7 +741,7 @@ export class DatabaseStorage implements IStorage {
     const [customer] = await db
       .select()
       .from(schema.customers)
-      .where(eq(schema.customers.email, email));
+      .where(and(eq(schema.customers.email, email), this.inTenant(schema.customers.entityId)));
       
     return customer;
   }
@@ -615,7 +750,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(schema.declarations)
-      .where(eq(schema.declarations.customerId, customerId))
+      .where(and(eq(schema.declarations.customerId, customerId), this.inTenant(schema.declarations.entityId)))
       .orderBy(desc(schema.declarations.createdAt));
   }
   
@@ -635,16 +770,16 @@ export class DatabaseStorage implements IStorage {
     review: number;
     rejected: number;
   }> {
-    const declarations = await db.select().from(schema.declarations);
+    const declarations = await db.select().from(schema.declarations).where(this.inTenant(schema.declarations.entityId));
     
     return {
       total: declarations.length,
       inbound: declarations.filter(d => d.type === "inbound").length,
       outbound: declarations.filter(d => d.type === "outbound").length,
-      approved: declarations.filter(d => d.status === "approved").length,
-      pending: declarations.filter(d => d.status === "pending").length,
-      review: declarations.filter(d => d.status === "review").length,
-      rejected: declarations.filter(d => d.status === "rejected").length
+      approved: declarations.filter(d => lifecycleStateOf(d.status) === "approved").length,
+      pending: declarations.filter(d => lifecycleStateOf(d.status) === "submitted").length,
+      review: declarations.filter(d => lifecycleStateOf(d.status) === "under_review").length,
+      rejected: declarations.filter(d => lifecycleStateOf(d.status) === "rejected").length
     };
   }
 
@@ -678,20 +813,29 @@ export class DatabaseStorage implements IStorage {
 
   // Product methods
   async getProduct(id: number): Promise<Product | undefined> {
-    const [product] = await db.select().from(schema.products).where(eq(schema.products.id, id));
+    const [product] = await db
+      .select()
+      .from(schema.products)
+      .where(and(eq(schema.products.id, id), this.inTenant(schema.products.entityId)));
     return product;
   }
 
   async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const [product] = await db.insert(schema.products).values(insertProduct).returning();
+    const [product] = await db
+      .insert(schema.products)
+      .values({ ...insertProduct, entityId: tenantEntityIdFor(insertProduct.entityId) })
+      .returning();
     return product;
   }
 
   async updateProduct(id: number, updateData: Partial<InsertProduct>): Promise<Product | undefined> {
     const [updatedProduct] = await db
       .update(schema.products)
-      .set(updateData)
-      .where(eq(schema.products.id, id))
+      .set({
+        ...updateData,
+        ...(updateData.entityId === undefined ? {} : { entityId: tenantEntityIdFor(updateData.entityId) }),
+      })
+      .where(and(eq(schema.products.id, id), this.inTenant(schema.products.entityId)))
       .returning();
     
     return updatedProduct;
@@ -700,35 +844,37 @@ export class DatabaseStorage implements IStorage {
   async deleteProduct(id: number): Promise<boolean> {
     const [deletedProduct] = await db
       .delete(schema.products)
-      .where(eq(schema.products.id, id))
+      .where(and(eq(schema.products.id, id), this.inTenant(schema.products.entityId)))
       .returning();
     
     return !!deletedProduct;
   }
 
   async listProducts(productType?: string, entityId?: number): Promise<Product[]> {
-    // Start with a simple query
+    const tenant = this.inTenant(schema.products.entityId);
     if (productType && entityId) {
       return await db.select()
         .from(schema.products)
         .where(and(
           eq(schema.products.productType, productType),
-          eq(schema.products.entityId, entityId)
+          eq(schema.products.entityId, entityId),
+          tenant
         ))
         .orderBy(desc(schema.products.createdAt));
     } else if (productType) {
       return await db.select()
         .from(schema.products)
-        .where(eq(schema.products.productType, productType))
+        .where(and(eq(schema.products.productType, productType), tenant))
         .orderBy(desc(schema.products.createdAt));
     } else if (entityId) {
       return await db.select()
         .from(schema.products)
-        .where(eq(schema.products.entityId, entityId))
+        .where(and(eq(schema.products.entityId, entityId), tenant))
         .orderBy(desc(schema.products.createdAt));
     } else {
       return await db.select()
         .from(schema.products)
+        .where(tenant)
         .orderBy(desc(schema.products.createdAt));
     }
   }
@@ -754,7 +900,7 @@ export class DatabaseStorage implements IStorage {
       if (users.length === 0) {
         await db.insert(schema.users).values({
           username: "admin",
-          password: "admin123", // In a real app, this would be hashed
+          password: await hashPassword("admin123"),
           email: "admin@tracex.com",
           role: "platform_admin",
           fullName: "Platform Admin",
@@ -764,7 +910,7 @@ export class DatabaseStorage implements IStorage {
         // Add a user persona for EU Operator
         await db.insert(schema.users).values({
           username: "euoperator",
-          password: "password123",
+          password: await hashPassword("password123"),
           email: "eu.operator@example.com",
           role: "user",
           fullName: "EU Operator",
@@ -774,6 +920,58 @@ export class DatabaseStorage implements IStorage {
         console.log("Created admin user");
       }
 
+      // Demo persona accounts are only created when a password for them is
+      // configured, and it must pass the same policy as any other account
+      const personaPassword = process.env.DEMO_PERSONA_PASSWORD;
+      const personaPasswordError = personaPassword ? passwordPolicyError(personaPassword) : null;
+      if (personaPasswordError) {
+        console.warn(`Demo personas not seeded: ${personaPasswordError}`);
+      } else if (personaPassword) {
+        for (const persona of PERSONAS) {
+          if (!(await this.getUserByEmail(persona.email))) {
+            await db.insert(schema.users).values({
+              username: persona.email,
+              password: await hashPassword(personaPassword),
+              email: persona.email,
+              role: persona.role,
+              fullName: persona.name,
+              avatar: persona.avatar,
+              entityId: DEFAULT_ENTITY_ID,
+            });
+          }
+        }
+      }
+
+      // Users seeded before passwords were hashed could never sign in
+      const plaintextUsers = await db.select().from(schema.users).where(sql`${schema.users.password} NOT LIKE '%:%' AND ${schema.users.password} NOT LIKE '$scrypt$%'`);
+      for (const user of plaintextUsers) {
+        await db.update(schema.users)
+          .set({ password: await hashPassword(user.password) })
+          .where(eq(schema.users.id, user.id));
+      }
+
+      // Users from before tenancy belong to the default entity
+      await db.update(schema.users)
+        .set({ entityId: DEFAULT_ENTITY_ID })
+        .where(isNull(schema.users.entityId));
+
+      // Persona accounts without a role get their persona's default one,
+      // kept with the default entity's roles like those made in settings
+      for (const persona of PERSONAS) {
+        const grants = DEFAULT_ROLE_GRANTS[persona.role];
+        const user = await this.getUserByEmail(persona.email);
+        if (!grants || !user || user.roleId) continue;
+
+        const role = await this.getRoleByName(persona.name, DEFAULT_ENTITY_ID) ?? await this.createRole({
+          name: persona.name,
+          description: persona.description,
+          permissions: permissionMatrix(grants),
+          entityId: DEFAULT_ENTITY_ID,
+          isActive: true,
+        });
+        await this.updateUserRole(user.id, role.id);
+      }
+
       // Create some risk categories if none exist
       const categories = await db.select().from(schema.riskCategories);
       if (categories.length === 0) {
@@ -928,6 +1126,13 @@ export class DatabaseStorage implements IStorage {
         console.error("Error checking or adding SAQs:", error);
       }
 
+      // Reference pairs used to be kept as JSON on the declaration
+      try {
+        await this.moveLegacyReferenceNumbers();
+      } catch (error) {
+        console.error("Error moving legacy EU reference numbers:", error);
+      }
+
       // Skip adding demo suppliers - we already added them via direct SQL
 
       console.log("Database initialization complete");
@@ -936,6 +1141,50 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Copy declarations.eu_reference_numbers into declaration_references and clear it
+  private async moveLegacyReferenceNumbers() {
+    const legacy = await db
+      .select({ id: schema.declarations.id, euReferenceNumbers: schema.declarations.euReferenceNumbers })
+      .from(schema.declarations)
+      .where(isNotNull(schema.declarations.euReferenceNumbers));
+
+    for (const declaration of legacy) {
+      let pairs: unknown;
+      try {
+        pairs = JSON.parse(declaration.euReferenceNumbers!);
+      } catch {
+        pairs = [];
+      }
+      const references = (Array.isArray(pairs) ? pairs : [])
+        .filter(pair => typeof pair?.referenceNumber === "string" && pair.referenceNumber.trim())
+        .map(pair => {
+          const referenceNumber = normalizeReferenceNumber(pair.referenceNumber);
+          const verificationNumber = normalizeReferenceNumber(String(pair.verificationNumber ?? ""));
+          return {
+            declarationId: declaration.id,
+            referenceNumber,
+            verificationNumber: verificationNumber || null,
+            source: "supplier",
+            validationStatus: referenceValidationStatus(referenceNumber, verificationNumber),
+          };
+        });
+
+      await db.transaction(async (tx) => {
+        if (references.length > 0) {
+          await tx.insert(schema.declarationReferences).values(references);
+        }
+        await tx
+          .update(schema.declarations)
+          .set({ euReferenceNumbers: null })
+          .where(eq(schema.declarations.id, declaration.id));
+      });
+    }
+
+    if (legacy.length > 0) {
+      console.log(`Moved EU reference numbers of ${legacy.length} declarations`);
+    }
+  }
+
   private async createDemoSaqs() {
     try {
       // Get existing suppliers and customers for SAQ assignment
@@ -1095,26 +1344,38 @@ export class DatabaseStorage implements IStorage {
 
   // Role management methods
   async getRole(id: number): Promise<Role | undefined> {
-    const [role] = await db.select().from(schema.roles).where(eq(schema.roles.id, id));
+    const [role] = await db
+      .select()
+      .from(schema.roles)
+      .where(and(eq(schema.roles.id, id), this.inTenant(schema.roles.entityId)));
     return role;
   }
 
   async createRole(role: InsertRole): Promise<Role> {
-    const [newRole] = await db.insert(schema.roles).values(role).returning();
+    const [newRole] = await db
+      .insert(schema.roles)
+      .values({ ...role, entityId: tenantEntityIdFor(role.entityId) })
+      .returning();
     return newRole;
   }
 
   async updateRole(id: number, role: Partial<InsertRole>): Promise<Role | undefined> {
     const [updatedRole] = await db
       .update(schema.roles)
-      .set({ ...role, updatedAt: new Date() })
-      .where(eq(schema.roles.id, id))
+      .set({
+        ...role,
+        ...(role.entityId === undefined ? {} : { entityId: tenantEntityIdFor(role.entityId) }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.roles.id, id), this.inTenant(schema.roles.entityId)))
       .returning();
     return updatedRole;
   }
 
   async deleteRole(id: number): Promise<boolean> {
-    const result = await db.delete(schema.roles).where(eq(schema.roles.id, id));
+    const result = await db
+      .delete(schema.roles)
+      .where(and(eq(schema.roles.id, id), this.inTenant(schema.roles.entityId)));
     return result.rowCount > 0;
   }
 
@@ -1122,7 +1383,7 @@ export class DatabaseStorage implements IStorage {
     return await db
       .select()
       .from(schema.roles)
-      .where(eq(schema.roles.entityId, entityId))
+      .where(and(eq(schema.roles.entityId, entityId), this.inTenant(schema.roles.entityId)))
       .orderBy(asc(schema.roles.name));
   }
 
@@ -1130,33 +1391,61 @@ export class DatabaseStorage implements IStorage {
     const [role] = await db
       .select()
       .from(schema.roles)
-      .where(and(eq(schema.roles.name, name), eq(schema.roles.entityId, entityId)));
+      .where(and(
+        eq(schema.roles.name, name),
+        eq(schema.roles.entityId, entityId),
+        this.inTenant(schema.roles.entityId)
+      ));
     return role;
   }
 
   // Export/Import methods
   async getAllSuppliers(): Promise<Supplier[]> {
-    return await db.select().from(schema.suppliers).orderBy(asc(schema.suppliers.name));
+    return await db
+      .select()
+      .from(schema.suppliers)
+      .where(this.inTenant(schema.suppliers.entityId))
+      .orderBy(asc(schema.suppliers.name));
   }
 
   async getAllDeclarations(): Promise<Declaration[]> {
-    return await db.select().from(schema.declarations).orderBy(desc(schema.declarations.createdAt));
+    return await db
+      .select()
+      .from(schema.declarations)
+      .where(this.inTenant(schema.declarations.entityId))
+      .orderBy(desc(schema.declarations.createdAt));
   }
 
   async getAllDocuments(): Promise<Document[]> {
-    return await db.select().from(schema.documents).orderBy(desc(schema.documents.uploadedAt));
+    return await db
+      .select()
+      .from(schema.documents)
+      .where(this.inTenant(schema.documents.entityId))
+      .orderBy(desc(schema.documents.uploadedAt));
   }
 
   async getAllSAQs(): Promise<Saq[]> {
-    return await db.select().from(schema.saqs).orderBy(desc(schema.saqs.createdAt));
+    return await db
+      .select()
+      .from(schema.saqs)
+      .where(this.inTenant(schema.saqs.entityId))
+      .orderBy(desc(schema.saqs.createdAt));
   }
 
   async getAllActivities(): Promise<Activity[]> {
-    return await db.select().from(schema.activities).orderBy(desc(schema.activities.timestamp));
+    return await db
+      .select()
+      .from(schema.activities)
+      .where(this.inTenant(schema.activities.tenantEntityId))
+      .orderBy(desc(schema.activities.timestamp));
   }
 
   async getAllCustomers(): Promise<Customer[]> {
-    return await db.select().from(schema.customers).orderBy(asc(schema.customers.firstName));
+    return await db
+      .select()
+      .from(schema.customers)
+      .where(this.inTenant(schema.customers.entityId))
+      .orderBy(asc(schema.customers.firstName));
   }
 
   async getAllComplianceMetrics(): Promise<ComplianceMetric[]> {
@@ -1173,7 +1462,8 @@ export class DatabaseStorage implements IStorage {
       .from(schema.declarations)
       .where(and(
         eq(schema.declarations.productName, productName),
-        eq(schema.declarations.supplierId, supplierId)
+        eq(schema.declarations.supplierId, supplierId),
+        this.inTenant(schema.declarations.entityId)
       ));
     return declaration;
   }
@@ -1182,13 +1472,14 @@ export class DatabaseStorage implements IStorage {
     const [supplier] = await db
       .select()
       .from(schema.suppliers)
-      .where(eq(schema.suppliers.email, email));
+      .where(and(eq(schema.suppliers.email, email), this.inTenant(schema.suppliers.entityId)));
     return supplier;
   }
 
   async createSAQ(saq: InsertSaq): Promise<Saq> {
     const [newSaq] = await db.insert(schema.saqs).values({
       ...saq,
+      entityId: tenantEntityIdFor(),
       createdAt: new Date(),
       updatedAt: new Date()
     }).returning();
@@ -1206,7 +1497,10 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(schema.products)
       .where(
-        sql`LOWER(${schema.products.name}) LIKE ${searchTerm}`
+        and(
+          sql`LOWER(${schema.products.name}) LIKE ${searchTerm}`,
+          this.inTenant(schema.products.entityId)
+        )
       )
       .limit(10)
       .orderBy(asc(schema.products.name));
@@ -1216,9 +1510,598 @@ export class DatabaseStorage implements IStorage {
     const [product] = await db
       .select()
       .from(schema.products)
-      .where(eq(schema.products.id, id));
+      .where(and(eq(schema.products.id, id), this.inTenant(schema.products.entityId)));
     return product;
   }
+
+  // Validation job queue
+  async createValidationJob(job: InsertValidationJob): Promise<ValidationJob> {
+    const [newJob] = await db.insert(schema.validationJobs).values(job).returning();
+    return newJob;
+  }
+
+  async updateValidationJob(id: number, job: Partial<InsertValidationJob>): Promise<ValidationJob | undefined> {
+    const [updatedJob] = await db
+      .update(schema.validationJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(schema.validationJobs.id, id))
+      .returning();
+    return updatedJob;
+  }
+
+  // Atomically take the oldest due job; SKIP LOCKED lets several workers share the table
+  async claimNextValidationJob(): Promise<ValidationJob | undefined> {
+    const [job] = await db
+      .update(schema.validationJobs)
+      .set({
+        status: "running",
+        attempts: sql`${schema.validationJobs.attempts} + 1`,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(sql`${schema.validationJobs.id} = (
+        SELECT id FROM validation_jobs
+        WHERE status = 'queued' AND run_after <= NOW()
+        ORDER BY run_after, id
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )`)
+      .returning();
+    return job;
+  }
+
+  async cancelQueuedValidationJobs(declarationId: number, type: string): Promise<number> {
+    const cancelled = await db
+      .update(schema.validationJobs)
+      .set({ status: "cancelled", completedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(schema.validationJobs.declarationId, declarationId),
+        eq(schema.validationJobs.type, type),
+        eq(schema.validationJobs.status, "queued")
+      ))
+      .returning({ id: schema.validationJobs.id });
+    return cancelled.length;
+  }
+
+  async requeueStaleValidationJobs(startedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(schema.validationJobs)
+      .set({ status: "queued", runAfter: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(schema.validationJobs.status, "running"),
+        lte(schema.validationJobs.startedAt, startedBefore)
+      ))
+      .returning({ id: schema.validationJobs.id });
+    return requeued.length;
+  }
+
+  async listValidationJobs(declarationId: number): Promise<ValidationJob[]> {
+    return await db
+      .select()
+      .from(schema.validationJobs)
+      .where(and(eq(schema.validationJobs.declarationId, declarationId), this.ofTenantDeclaration(schema.validationJobs.declarationId)))
+      .orderBy(desc(schema.validationJobs.id));
+  }
+
+  // Most recent job of each type for every declaration
+  async listLatestValidationJobs(): Promise<ValidationJob[]> {
+    return await db
+      .selectDistinctOn([schema.validationJobs.declarationId, schema.validationJobs.type])
+      .from(schema.validationJobs)
+      .where(this.ofTenantDeclaration(schema.validationJobs.declarationId))
+      .orderBy(schema.validationJobs.declarationId, schema.validationJobs.type, desc(schema.validationJobs.id));
+  }
+
+  // GeoJSON edit history. The new geometry and its history row are written in
+  // one transaction, and only if nobody changed the status since it was read.
+  async editDeclarationGeojson(
+    edit: InsertGeojsonEdit,
+    expectedStatus: string
+  ): Promise<{ declaration: Declaration; edit: GeojsonEdit } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedDeclaration] = await tx
+        .update(schema.declarations)
+        .set({ geojsonData: edit.geojson, lastUpdated: new Date() })
+        .where(and(
+          eq(schema.declarations.id, edit.declarationId),
+          eq(schema.declarations.status, expectedStatus),
+          this.inTenant(schema.declarations.entityId)
+        ))
+        .returning();
+      if (!updatedDeclaration) return undefined;
+      
+      const [newEdit] = await tx.insert(schema.geojsonEdits).values(edit).returning();
+      return { declaration: updatedDeclaration, edit: newEdit };
+    });
+  }
+
+  async listGeojsonEdits(declarationId: number): Promise<GeojsonEdit[]> {
+    return await db
+      .select()
+      .from(schema.geojsonEdits)
+      .where(and(eq(schema.geojsonEdits.declarationId, declarationId), this.ofTenantDeclaration(schema.geojsonEdits.declarationId)))
+      .orderBy(desc(schema.geojsonEdits.id));
+  }
+
+  // Declaration line items
+  async createDeclarationItems(items: InsertDeclarationItem[]): Promise<DeclarationItem[]> {
+    if (items.length === 0) return [];
+    return await db.insert(schema.declarationItems).values(items).returning();
+  }
+
+  async listDeclarationItems(declarationId: number): Promise<DeclarationItem[]> {
+    return await db
+      .select()
+      .from(schema.declarationItems)
+      .where(and(eq(schema.declarationItems.declarationId, declarationId), this.ofTenantDeclaration(schema.declarationItems.declarationId)))
+      .orderBy(asc(schema.declarationItems.position), asc(schema.declarationItems.id));
+  }
+
+  // Declaration lifecycle: the status update only applies if nobody changed the
+  // status since it was read, and the transition is recorded in the same transaction
+  // A submission seals the content as it stands in that transaction as a new version
+  async transitionDeclaration(
+    id: number,
+    expectedStatus: string,
+    transition: InsertDeclarationTransition,
+    seal?: { createdBy: number; reason: string | null }
+  ): Promise<Declaration | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedDeclaration] = await tx
+        .update(schema.declarations)
+        .set({ status: transition.toStatus, lastUpdated: new Date() })
+        .where(and(
+          eq(schema.declarations.id, id),
+          eq(schema.declarations.status, expectedStatus),
+          this.inTenant(schema.declarations.entityId)
+        ))
+        .returning();
+      
+      if (!updatedDeclaration) return undefined;
+      
+      // An outbound declaration leaving draft claims its allocations again, so
+      // they are checked against what other declarations have drawn meanwhile
+      if (updatedDeclaration.type === "outbound" && !holdsAllocations(expectedStatus) && holdsAllocations(transition.toStatus)) {
+        await this.checkHeldAllocations(tx, updatedDeclaration.id);
+      }
+      
+      await tx.insert(schema.declarationTransitions).values(transition);
+      if (seal) {
+        await this.sealVersion(tx, updatedDeclaration, seal.createdBy, seal.reason);
+      }
+      return updatedDeclaration;
+    });
+  }
+
+  async listDeclarationTransitions(declarationId: number): Promise<DeclarationTransition[]> {
+    return await db
+      .select()
+      .from(schema.declarationTransitions)
+      .where(and(eq(schema.declarationTransitions.declarationId, declarationId), this.ofTenantDeclaration(schema.declarationTransitions.declarationId)))
+      .orderBy(desc(schema.declarationTransitions.id));
+  }
+
+  // Declaration versions. They are sealed in the transaction that writes or
+  // locks the declaration row, so concurrent submissions cannot take the same
+  // version number.
+  async listDeclarationVersions(declarationId: number): Promise<DeclarationVersion[]> {
+    return await db
+      .select()
+      .from(schema.declarationVersions)
+      .where(and(eq(schema.declarationVersions.declarationId, declarationId), this.ofTenantDeclaration(schema.declarationVersions.declarationId)))
+      .orderBy(asc(schema.declarationVersions.version));
+  }
+
+  // Seal a declaration's content, items and references as its next version,
+  // reading them in the transaction that wrote them
+  private async sealVersion(tx: Transaction, declaration: Declaration, createdBy: number, reason: string | null = null): Promise<DeclarationVersion> {
+    const items = await tx
+      .select()
+      .from(schema.declarationItems)
+      .where(eq(schema.declarationItems.declarationId, declaration.id))
+      .orderBy(asc(schema.declarationItems.position), asc(schema.declarationItems.id));
+    const references = await tx
+      .select()
+      .from(schema.declarationReferences)
+      .where(eq(schema.declarationReferences.declarationId, declaration.id))
+      .orderBy(asc(schema.declarationReferences.id));
+    return await this.insertDeclarationVersion(tx, {
+      declarationId: declaration.id,
+      snapshot: snapshotOf(declaration, items, references),
+      reason,
+      createdBy,
+    });
+  }
+
+  private async insertDeclarationVersion(
+    tx: Transaction,
+    version: Omit<InsertDeclarationVersion, "version" | "previousVersionId">
+  ): Promise<DeclarationVersion> {
+    const [latest] = await tx
+      .select()
+      .from(schema.declarationVersions)
+      .where(eq(schema.declarationVersions.declarationId, version.declarationId))
+      .orderBy(desc(schema.declarationVersions.version))
+      .limit(1);
+    
+    const [newVersion] = await tx.insert(schema.declarationVersions).values({
+      ...version,
+      version: (latest?.version ?? 0) + 1,
+      previousVersionId: latest?.id ?? null,
+    }).returning();
+    return newVersion;
+  }
+
+  // Mass-balance ledger. The inbound declarations are locked while their balances
+  // are checked, so concurrent outbound declarations cannot over-allocate them.
+  // The declaration's items, references and, when sealedBy is given, its first
+  // version are written in the same transaction.
+  async createOutboundDeclaration(
+    declaration: InsertDeclaration,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    allocations: AllocationRequest[],
+    references: Omit<InsertDeclarationReference, "declarationId">[],
+    sealedBy?: number
+  ): Promise<Declaration> {
+    return await db.transaction(async (tx) => {
+      const inboundIds = Array.from(new Set(allocations.map(allocation => allocation.inboundDeclarationId)));
+      const inbound = inboundIds.length > 0
+        ? await tx
+            .select()
+            .from(schema.declarations)
+            .where(and(inArray(schema.declarations.id, inboundIds), this.inTenant(schema.declarations.entityId)))
+            .for("update")
+        : [];
+      const allocated = inboundIds.length > 0 ? await this.allocatedQuantities(tx, inboundIds) : new Map<number, number>();
+      
+      const inboundById = new Map(inbound.map(row => [row.id, row]));
+      checkAllocations(allocations, inboundById, allocated);
+      
+      const [newDeclaration] = await tx
+        .insert(schema.declarations)
+        .values({ ...declaration, entityId: tenantEntityIdFor() })
+        .returning();
+      if (items.length > 0) {
+        await tx.insert(schema.declarationItems).values(items.map(item => ({ ...item, declarationId: newDeclaration.id })));
+      }
+      await tx.insert(schema.declarationAllocations).values(allocations.map(allocation => ({
+        outboundDeclarationId: newDeclaration.id,
+        inboundDeclarationId: allocation.inboundDeclarationId,
+        quantity: allocation.quantity,
+        unit: inboundById.get(allocation.inboundDeclarationId)?.unit ?? null,
+      })));
+      if (references.length > 0) {
+        await tx.insert(schema.declarationReferences).values(references.map(reference => ({ ...reference, declarationId: newDeclaration.id })));
+      }
+      
+      if (sealedBy !== undefined) {
+        await this.sealVersion(tx, newDeclaration, sealedBy);
+      }
+      return newDeclaration;
+    });
+  }
+
+  // Quantities drawn from inbound declarations by outbound declarations that
+  // still hold them, optionally leaving one outbound declaration out
+  private async allocatedQuantities(
+    executor: typeof db | Transaction,
+    inboundIds?: number[],
+    exceptOutboundId?: number
+  ): Promise<Map<number, number>> {
+    const rows = await executor
+      .select({
+        inboundDeclarationId: schema.declarationAllocations.inboundDeclarationId,
+        quantity: schema.declarationAllocations.quantity,
+        outboundStatus: schema.declarations.status,
+      })
+      .from(schema.declarationAllocations)
+      .innerJoin(schema.declarations, eq(schema.declarations.id, schema.declarationAllocations.outboundDeclarationId))
+      .where(and(
+        inboundIds ? inArray(schema.declarationAllocations.inboundDeclarationId, inboundIds) : undefined,
+        exceptOutboundId !== undefined ? ne(schema.declarationAllocations.outboundDeclarationId, exceptOutboundId) : undefined
+      ));
+    return allocatedQuantities(rows);
+  }
+
+  // Check an outbound declaration's own allocations against the inbound
+  // balances left by the others, with the inbound declarations locked
+  private async checkHeldAllocations(tx: Transaction, outboundDeclarationId: number): Promise<void> {
+    const own = await tx
+      .select()
+      .from(schema.declarationAllocations)
+      .where(eq(schema.declarationAllocations.outboundDeclarationId, outboundDeclarationId));
+    if (own.length === 0) return;
+    
+    const inboundIds = Array.from(new Set(own.map(allocation => allocation.inboundDeclarationId)));
+    const inbound = await tx
+      .select()
+      .from(schema.declarations)
+      .where(inArray(schema.declarations.id, inboundIds))
+      .for("update");
+    checkAllocations(
+      own.map(({ inboundDeclarationId, quantity }) => ({ inboundDeclarationId, quantity })),
+      new Map(inbound.map(row => [row.id, row])),
+      await this.allocatedQuantities(tx, inboundIds, outboundDeclarationId)
+    );
+  }
+
+  async listDeclarationAllocations(declarationId: number): Promise<DeclarationAllocation[]> {
+    return await db
+      .select()
+      .from(schema.declarationAllocations)
+      .where(and(
+        or(
+          eq(schema.declarationAllocations.outboundDeclarationId, declarationId),
+          eq(schema.declarationAllocations.inboundDeclarationId, declarationId)
+        ),
+        this.ofTenantDeclaration(schema.declarationAllocations.outboundDeclarationId)
+      ))
+      .orderBy(asc(schema.declarationAllocations.id));
+  }
+
+  async listInboundBalances(): Promise<InboundBalance[]> {
+    const inbound = await db
+      .select()
+      .from(schema.declarations)
+      .where(and(eq(schema.declarations.type, "inbound"), this.inTenant(schema.declarations.entityId)));
+    const allocatedById = await this.allocatedQuantities(db);
+    return inbound
+      .filter(isAllocatable)
+      .map(declaration => inboundBalanceOf(declaration, allocatedById.get(declaration.id) ?? 0));
+  }
+
+  // Product conversion factors
+  async listProductConversions(): Promise<ProductConversion[]> {
+    return await db
+      .select()
+      .from(schema.productConversions)
+      .where(this.inTenant(schema.productConversions.entityId))
+      .orderBy(asc(schema.productConversions.id));
+  }
+
+  async getProductConversion(id: number): Promise<ProductConversion | undefined> {
+    const [conversion] = await db
+      .select()
+      .from(schema.productConversions)
+      .where(and(eq(schema.productConversions.id, id), this.inTenant(schema.productConversions.entityId)));
+    return conversion;
+  }
+
+  async getProductConversionByPair(inputProductId: number, outputProductId: number): Promise<ProductConversion | undefined> {
+    const [conversion] = await db
+      .select()
+      .from(schema.productConversions)
+      .where(and(
+        eq(schema.productConversions.inputProductId, inputProductId),
+        eq(schema.productConversions.outputProductId, outputProductId),
+        this.inTenant(schema.productConversions.entityId)
+      ));
+    return conversion;
+  }
+
+  async createProductConversion(conversion: InsertProductConversion): Promise<ProductConversion> {
+    const [newConversion] = await db
+      .insert(schema.productConversions)
+      .values({ ...conversion, entityId: tenantEntityIdFor(conversion.entityId) })
+      .returning();
+    return newConversion;
+  }
+
+  async updateProductConversion(id: number, conversion: Partial<InsertProductConversion>): Promise<ProductConversion | undefined> {
+    const [updatedConversion] = await db
+      .update(schema.productConversions)
+      .set({
+        ...conversion,
+        ...(conversion.entityId === undefined ? {} : { entityId: tenantEntityIdFor(conversion.entityId) }),
+      })
+      .where(and(eq(schema.productConversions.id, id), this.inTenant(schema.productConversions.entityId)))
+      .returning();
+    return updatedConversion;
+  }
+
+  async deleteProductConversion(id: number): Promise<boolean> {
+    const [deletedConversion] = await db
+      .delete(schema.productConversions)
+      .where(and(eq(schema.productConversions.id, id), this.inTenant(schema.productConversions.entityId)))
+      .returning();
+    return !!deletedConversion;
+  }
+
+  // EU Information System submissions. A submission is claimed with the
+  // declaration row locked, so only one can be in flight or awaiting
+  // registration at a time; undefined means another one already is.
+  async claimEUISSubmission(submission: InsertEUISSubmission): Promise<EUISSubmission | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: schema.declarations.id })
+        .from(schema.declarations)
+        .where(eq(schema.declarations.id, submission.declarationId))
+        .for("update");
+      const [pending] = await tx
+        .select({ id: schema.euisSubmissions.id })
+        .from(schema.euisSubmissions)
+        .where(and(
+          eq(schema.euisSubmissions.declarationId, submission.declarationId),
+          inArray(schema.euisSubmissions.status, ["submitting", "submitted"])
+        ))
+        .limit(1);
+      if (pending) return undefined;
+      
+      const [claimed] = await tx
+        .insert(schema.euisSubmissions)
+        .values({ ...submission, status: "submitting", claimedAt: new Date() })
+        .returning();
+      return claimed;
+    });
+  }
+
+  async createEUISSubmission(submission: InsertEUISSubmission): Promise<EUISSubmission> {
+    const [newSubmission] = await db.insert(schema.euisSubmissions).values(submission).returning();
+    return newSubmission;
+  }
+
+  async updateEUISSubmission(id: number, submission: Partial<InsertEUISSubmission>): Promise<EUISSubmission | undefined> {
+    const [updatedSubmission] = await db
+      .update(schema.euisSubmissions)
+      .set({ ...submission, updatedAt: new Date() })
+      .where(eq(schema.euisSubmissions.id, id))
+      .returning();
+    return updatedSubmission;
+  }
+
+  async listEUISSubmissions(declarationId: number): Promise<EUISSubmission[]> {
+    return await db
+      .select()
+      .from(schema.euisSubmissions)
+      .where(and(eq(schema.euisSubmissions.declarationId, declarationId), this.ofTenantDeclaration(schema.euisSubmissions.declarationId)))
+      .orderBy(desc(schema.euisSubmissions.id));
+  }
+
+  // Submissions the EU-IS has accepted but not yet registered or rejected
+  async listPendingEUISSubmissions(): Promise<EUISSubmission[]> {
+    return await db
+      .select()
+      .from(schema.euisSubmissions)
+      .where(eq(schema.euisSubmissions.status, "submitted"))
+      .orderBy(asc(schema.euisSubmissions.id));
+  }
+
+  // Claimed submissions whose outcome was never recorded, such as after a
+  // restart or a timeout while sending
+  async listUnconfirmedEUISSubmissions(claimedBefore: Date): Promise<EUISSubmission[]> {
+    return await db
+      .select()
+      .from(schema.euisSubmissions)
+      .where(and(
+        eq(schema.euisSubmissions.status, "submitting"),
+        or(isNull(schema.euisSubmissions.claimedAt), lte(schema.euisSubmissions.claimedAt, claimedBefore))
+      ))
+      .orderBy(asc(schema.euisSubmissions.id));
+  }
+
+  // EU filings. The eu_filed declaration and its filing are written together.
+  async createEUFiledDeclaration(
+    declaration: InsertDeclaration,
+    filing: Omit<InsertEUFiling, "filedDeclarationId">,
+    sealedBy?: number
+  ): Promise<{ declaration: Declaration; filing: EUFiling }> {
+    return await db.transaction(async (tx) => {
+      const [newDeclaration] = await tx
+        .insert(schema.declarations)
+        .values({ ...declaration, entityId: tenantEntityIdFor() })
+        .returning();
+      const [newFiling] = await tx
+        .insert(schema.euFilings)
+        .values({ ...filing, filedDeclarationId: newDeclaration.id })
+        .returning();
+      if (sealedBy !== undefined) {
+        await this.sealVersion(tx, newDeclaration, sealedBy);
+      }
+      return { declaration: newDeclaration, filing: newFiling };
+    });
+  }
+
+  async listEUFilings(): Promise<EUFiling[]> {
+    return await db
+      .select()
+      .from(schema.euFilings)
+      .where(this.ofTenantDeclaration(schema.euFilings.filedDeclarationId))
+      .orderBy(desc(schema.euFilings.id));
+  }
+
+  // EU reference numbers of the statements a declaration refers to
+  async createDeclarationReferences(references: InsertDeclarationReference[]): Promise<DeclarationReference[]> {
+    if (references.length === 0) return [];
+    return await db.insert(schema.declarationReferences).values(references).returning();
+  }
+
+  async listDeclarationReferences(declarationId: number): Promise<DeclarationReference[]> {
+    return await db
+      .select()
+      .from(schema.declarationReferences)
+      .where(and(eq(schema.declarationReferences.declarationId, declarationId), this.ofTenantDeclaration(schema.declarationReferences.declarationId)))
+      .orderBy(asc(schema.declarationReferences.id));
+  }
+
+  // Declarations that refer to, or were registered or filed under, a matching reference number
+  async searchDeclarationsByReference(term: string): Promise<number[]> {
+    const pattern = `%${normalizeReferenceNumber(term)}%`;
+    const [referenced, registered, filed] = await Promise.all([
+      db
+        .selectDistinct({ id: schema.declarationReferences.declarationId })
+        .from(schema.declarationReferences)
+        .where(or(
+          ilike(schema.declarationReferences.referenceNumber, pattern),
+          ilike(schema.declarationReferences.verificationNumber, pattern)
+        )),
+      db
+        .select({ id: schema.declarations.id })
+        .from(schema.declarations)
+        .where(or(
+          ilike(schema.declarations.eudrReferenceNumber, pattern),
+          ilike(schema.declarations.eudrVerificationNumber, pattern),
+          ilike(schema.declarations.previousReferenceNumber, pattern)
+        )),
+      db
+        .select({ id: schema.euFilings.filedDeclarationId })
+        .from(schema.euFilings)
+        .where(or(
+          ilike(schema.euFilings.reference, pattern),
+          ilike(schema.euFilings.inspectionReference, pattern)
+        )),
+    ]);
+    const ids = Array.from(new Set([...referenced, ...registered, ...filed].map(row => row.id)));
+    const tenant = this.inTenant(schema.declarations.entityId);
+    if (!tenant || ids.length === 0) {
+      return ids;
+    }
+    const visible = await db
+      .select({ id: schema.declarations.id })
+      .from(schema.declarations)
+      .where(and(inArray(schema.declarations.id, ids), tenant));
+    return visible.map(row => row.id);
+  }
+
+  // Bulk declaration imports. A shipment is saved with its items and references
+  // in one transaction; undefined means the entity already imported the shipment.
+  async createImportedDeclaration(
+    declaration: InsertDeclaration,
+    shipmentReference: string,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    references: Omit<InsertDeclarationReference, "declarationId">[]
+  ): Promise<Declaration | undefined> {
+    return await db.transaction(async (tx) => {
+      const [newDeclaration] = await tx
+        .insert(schema.declarations)
+        .values({ ...declaration, shipmentReference, entityId: tenantEntityIdFor() })
+        .onConflictDoNothing({ target: [schema.declarations.entityId, schema.declarations.shipmentReference] })
+        .returning();
+      if (!newDeclaration) return undefined;
+      
+      if (items.length > 0) {
+        await tx.insert(schema.declarationItems).values(items.map(item => ({ ...item, declarationId: newDeclaration.id })));
+      }
+      if (references.length > 0) {
+        await tx.insert(schema.declarationReferences).values(references.map(reference => ({ ...reference, declarationId: newDeclaration.id })));
+      }
+      return newDeclaration;
+    });
+  }
+
+  async createDeclarationImport(declarationImport: InsertDeclarationImport): Promise<DeclarationImport> {
+    const [newImport] = await db
+      .insert(schema.declarationImports)
+      .values({ ...declarationImport, entityId: tenantEntityIdFor() })
+      .returning();
+    return newImport;
+  }
+
+  async getDeclarationImport(id: number): Promise<DeclarationImport | undefined> {
+    const [declarationImport] = await db
+      .select()
+      .from(schema.declarationImports)
+      .where(and(eq(schema.declarationImports.id, id), this.inTenant(schema.declarationImports.entityId)));
+    return declarationImport;
+  }
 }
 
 export const dbStorage = new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,211 @@
+// Local stand-in for the EU Information System (TRACES NT) DDS services, so
+// submissions can be developed and tested offline. Run with `npm run eu-is:mock`
+// and leave EU_IS_ENDPOINT unset (or point it at this server).
+//
+// Accepted statements stay SUBMITTED for EU_IS_MOCK_DELAY_MS and then become
+// AVAILABLE with generated reference and verification numbers; a commodity
+// with a net weight of 0 is rejected at that point instead.
+import express from "express";
+import { randomUUID, randomInt } from "crypto";
+import { DOMParser } from "@xmldom/xmldom";
+import { EU_IS_NAMESPACES, EU_IS_SERVICES, escapeXml, passwordDigest, textOf } from "./services/eu-is";
+
+const PORT = Number(process.env.EU_IS_MOCK_PORT) || 4010;
+const DELAY_MS = Number(process.env.EU_IS_MOCK_DELAY_MS ?? 10000);
+const USERNAME = process.env.EU_IS_USERNAME || "mock-operator";
+const AUTH_KEY = process.env.EU_IS_AUTH_KEY || "mock-auth-key";
+const ACTIVITY_TYPES = ["IMPORT", "EXPORT", "DOMESTIC", "TRADE"];
+
+interface MockStatement {
+  identifier: string;
+  internalReferenceNumber: string;
+  countryCode: string;
+  submittedAt: number;
+  rejectionReason: string | null;
+  referenceNumber: string | null;
+  verificationNumber: string | null;
+}
+
+class SoapFault extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = "SoapFault";
+  }
+}
+
+const statements = new Map<string, MockStatement>();
+
+const app = express();
+app.use(express.text({ type: ["text/xml", "application/soap+xml"], limit: "60mb" }));
+
+app.get("/health", (req, res) => {
+  res.json({ status: "ok", statements: statements.size });
+});
+
+app.post(`/tracesnt/ws/${EU_IS_SERVICES.submission}`, (req, res) => {
+  handle(req.body, res, document => {
+    const request = document.getElementsByTagNameNS("*", "SubmitStatementRequest")[0];
+    if (!request) throw new SoapFault("soap:Client", "Unsupported operation");
+
+    const activityType = textOf(request, "activityType");
+    if (!activityType || !ACTIVITY_TYPES.includes(activityType)) {
+      throw new SoapFault("EUDR-API-VALIDATION", `Invalid activity type "${activityType}"`);
+    }
+
+    const commodities = Array.from(request.getElementsByTagNameNS("*", "commodities"));
+    if (commodities.length === 0) {
+      throw new SoapFault("EUDR-API-VALIDATION", "A statement needs at least one commodity");
+    }
+
+    let countryCode = "";
+    let rejectionReason: string | null = null;
+    for (const commodity of commodities) {
+      if (!/^\d{4}/.test(textOf(commodity, "hsHeading") || "")) {
+        throw new SoapFault("EUDR-API-VALIDATION", "Every commodity needs an HS heading");
+      }
+      const producers = Array.from(commodity.getElementsByTagNameNS("*", "producers"));
+      if (producers.length === 0) {
+        throw new SoapFault("EUDR-API-VALIDATION", "Every commodity needs geolocated producers");
+      }
+      for (const producer of producers) {
+        countryCode ||= textOf(producer, "country") || "";
+        const geojson = JSON.parse(Buffer.from(textOf(producer, "geometryGeojson") || "", "base64").toString() || "null");
+        if (geojson?.type !== "FeatureCollection" || !Array.isArray(geojson.features) || geojson.features.length === 0) {
+          throw new SoapFault("EUDR-API-VALIDATION", "Producer geolocation must be a non-empty GeoJSON FeatureCollection");
+        }
+      }
+      if (textOf(commodity, "netWeight") === "0") {
+        rejectionReason = "Net weight of a commodity must be greater than zero";
+      }
+    }
+
+    const statement: MockStatement = {
+      identifier: randomUUID(),
+      internalReferenceNumber: textOf(request, "internalReferenceNumber") || "",
+      countryCode: countryCode || "EU",
+      submittedAt: Date.now(),
+      rejectionReason,
+      referenceNumber: null,
+      verificationNumber: null,
+    };
+    statements.set(statement.identifier, statement);
+    console.log(`[eu-is-mock] accepted ${statement.identifier} (${activityType}, ${commodities.length} commodities)`);
+
+    return `<sub:SubmitStatementResponse xmlns:sub="${EU_IS_NAMESPACES.submission}">
+  <sub:ddsIdentifier>${statement.identifier}</sub:ddsIdentifier>
+</sub:SubmitStatementResponse>`;
+  });
+});
+
+app.post(`/tracesnt/ws/${EU_IS_SERVICES.retrieval}`, (req, res) => {
+  handle(req.body, res, document => {
+    // Lookup by internal reference number answers with every matching statement
+    const byReference = document.getElementsByTagNameNS("*", "GetDdsInfoByInternalReferenceNumberRequest")[0];
+    if (byReference) {
+      const internalReferenceNumber = textOf(byReference, "internalReferenceNumber");
+      const matching = Array.from(statements.values())
+        .filter(statement => statement.internalReferenceNumber === internalReferenceNumber);
+      return `<ret:GetDdsInfoByInternalReferenceNumberResponse xmlns:ret="${EU_IS_NAMESPACES.retrieval}">
+  ${matching.map(statementInfoXml).join("\n  ")}
+</ret:GetDdsInfoByInternalReferenceNumberResponse>`;
+    }
+
+    const identifier = textOf(document, "identifier");
+    const statement = identifier ? statements.get(identifier) : undefined;
+    if (!statement) {
+      throw new SoapFault("EUDR-API-NOT-FOUND", `No statement with identifier ${identifier}`);
+    }
+
+    return `<ret:GetDdsInfoResponse xmlns:ret="${EU_IS_NAMESPACES.retrieval}">
+  ${statementInfoXml(statement)}
+</ret:GetDdsInfoResponse>`;
+  });
+});
+
+function statementInfoXml(statement: MockStatement): string {
+  const status = statusOf(statement);
+  return `<ret:statementInfo>
+    <ret:identifier>${statement.identifier}</ret:identifier>
+    <ret:status>${status}</ret:status>
+    ${statement.referenceNumber ? `<ret:referenceNumber>${statement.referenceNumber}</ret:referenceNumber>` : ""}
+    ${statement.verificationNumber ? `<ret:verificationNumber>${statement.verificationNumber}</ret:verificationNumber>` : ""}
+    ${status === "REJECTED" ? `<ret:rejectionReason>${escapeXml(statement.rejectionReason!)}</ret:rejectionReason>` : ""}
+    <ret:date>${new Date(statement.submittedAt).toISOString()}</ret:date>
+  </ret:statementInfo>`;
+}
+
+// Parse and authenticate a SOAP request and answer with the handler's body or a fault
+function handle(xml: unknown, res: express.Response, handler: (document: Document) => string) {
+  try {
+    if (typeof xml !== "string" || !xml.trim()) {
+      throw new SoapFault("soap:Client", "Expected a SOAP envelope");
+    }
+    const errors: string[] = [];
+    const document = new DOMParser({
+      errorHandler: { warning: () => undefined, error: message => errors.push(message), fatalError: message => errors.push(message) },
+    }).parseFromString(xml, "text/xml") as unknown as Document;
+    if (errors.length > 0) {
+      throw new SoapFault("soap:Client", `Malformed XML: ${errors[0]}`);
+    }
+
+    authenticate(document);
+    res.type("text/xml").send(soapEnvelope(handler(document)));
+  } catch (error) {
+    const fault = error instanceof SoapFault ? error : new SoapFault("soap:Server", "Internal error");
+    if (!(error instanceof SoapFault)) console.error("[eu-is-mock]", error);
+    res.status(500).type("text/xml").send(soapEnvelope(`<soapenv:Fault>
+  <faultcode>${fault.code}</faultcode>
+  <faultstring>${escapeXml(fault.message)}</faultstring>
+</soapenv:Fault>`));
+  }
+}
+
+// WS-Security UsernameToken with a password digest, as the EU-IS requires
+function authenticate(document: Document) {
+  const token = document.getElementsByTagNameNS(EU_IS_NAMESPACES.wsse, "UsernameToken")[0];
+  const username = token && textOf(token, "Username");
+  const password = token && textOf(token, "Password");
+  const nonce = token && textOf(token, "Nonce");
+  const created = token && textOf(token, "Created");
+
+  if (!username || !password || !nonce || !created || !textOf(document, "WebServiceClientId")) {
+    throw new SoapFault("wsse:InvalidSecurity", "Missing security header or web service client id");
+  }
+  if (Math.abs(Date.now() - Date.parse(created)) > 5 * 60 * 1000) {
+    throw new SoapFault("wsse:MessageExpired", "Security token has expired");
+  }
+  if (username !== USERNAME || password !== passwordDigest(Buffer.from(nonce, "base64"), created, AUTH_KEY)) {
+    throw new SoapFault("wsse:FailedAuthentication", "Authentication failed");
+  }
+}
+
+// Register a statement once the processing delay has passed
+function statusOf(statement: MockStatement): "SUBMITTED" | "AVAILABLE" | "REJECTED" {
+  if (Date.now() - statement.submittedAt < DELAY_MS) return "SUBMITTED";
+  if (statement.rejectionReason) return "REJECTED";
+
+  if (!statement.referenceNumber) {
+    const year = String(new Date().getUTCFullYear()).slice(2);
+    statement.referenceNumber = `${year}${statement.countryCode}${randomCode(10)}`;
+    statement.verificationNumber = randomCode(8);
+  }
+  return "AVAILABLE";
+}
+
+function randomCode(length: number): string {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ0123456789";
+  return Array.from({ length }, () => alphabet[randomInt(alphabet.length)]).join("");
+}
+
+function soapEnvelope(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="${EU_IS_NAMESPACES.soap}">
+<soapenv:Body>
+${body}
+</soapenv:Body>
+</soapenv:Envelope>`;
+}
+
+app.listen(PORT, () => {
+  console.log(`[eu-is-mock] EU-IS mock listening on http://localhost:${PORT}/tracesnt/ws (processing delay ${DELAY_MS}ms)`);
+});
@@ -1,5 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startValidationWorker } from "./services/validation-worker";
+import { startEUISPoller } from "./services/eu-is-submissions";
 import { setupVite, serveStatic, log } from "./vite";
 import { dbStorage } from "./database-storage";
 // Remove the sqlite import
@@ -328,6 +330,12 @@ app.use((req, res, next) => {
     await dbStorage.init();
     
     const server = await registerRoutes(app);
+    
+    // Process queued geometry / satellite validation jobs in the background
+    startValidationWorker();
+    
+    // Collect reference numbers of DDS submitted to the EU Information System
+    startEUISPoller();
 
     if (process.env.NODE_ENV === "production") {
       serveStatic(app);
@@ -1,31 +1,115 @@
 import crypto from 'crypto';
 
+// Stored as $scrypt$v=1$N=32768,r=8,p=1$<salt>$<hash>, salt and hash in base64.
+// The parameters travel with each hash so they can be raised later without
+// locking anyone out: older hashes still verify and are rehashed on login.
+const SCRYPT_PREFIX = '$scrypt$';
+const SCRYPT_VERSION = 1;
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+// Legacy salt:hash format, PBKDF2-SHA512 with hex salt and hash
+const LEGACY_ITERATIONS = 1000;
+
+interface ScryptHash {
+  version: number;
+  N: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+function scrypt(password: string, salt: Buffer, params: { N: number; r: number; p: number }, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, { ...params, maxmem: 256 * params.N * params.r }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+function parseScryptHash(stored: string): ScryptHash | null {
+  if (!stored.startsWith(SCRYPT_PREFIX)) {
+    return null;
+  }
+  const [version, params, salt, hash] = stored.slice(SCRYPT_PREFIX.length).split('$');
+  const versionMatch = /^v=(\d+)$/.exec(version ?? '');
+  const paramsMatch = /^N=(\d+),r=(\d+),p=(\d+)$/.exec(params ?? '');
+  if (!versionMatch || !paramsMatch || !salt || !hash) {
+    return null;
+  }
+  return {
+    version: Number(versionMatch[1]),
+    N: Number(paramsMatch[1]),
+    r: Number(paramsMatch[2]),
+    p: Number(paramsMatch[3]),
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+}
+
+function isLegacyHash(stored: string): boolean {
+  return /^[0-9a-f]+:[0-9a-f]+$/i.test(stored);
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 /**
- * Hash a password using a secure method
- * In a production app, you would use bcrypt here
+ * Hash a password with scrypt in the versioned format
  */
 export async function hashPassword(password: string): Promise<string> {
-  // Generate a random salt
-  const salt = crypto.randomBytes(16).toString('hex');
-  
-  // Hash the password with the salt
-  const hash = crypto.pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex');
-  
-  // Return the salt and hash, joined with a delimiter
-  return `${salt}:${hash}`;
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, SCRYPT_PARAMS, KEY_BYTES);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `${SCRYPT_PREFIX}v=${SCRYPT_VERSION}$N=${N},r=${r},p=${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
 }
 
 /**
- * Compare a plaintext password with a stored hash
- * In a production app, you would use bcrypt.compare here
+ * Compare a plaintext password with a stored hash in constant time.
+ * Accepts the scrypt format and the legacy PBKDF2 salt:hash format.
  */
 export async function comparePassword(plaintext: string, stored: string): Promise<boolean> {
-  // Split the stored string to get the salt and hash
-  const [salt, storedHash] = stored.split(':');
-  
-  // Hash the plaintext with the same salt
-  const hash = crypto.pbkdf2Sync(plaintext, salt, 1000, 64, 'sha512').toString('hex');
-  
-  // Compare the hashes
-  return storedHash === hash;
-}
\ No newline at end of file
+  const parsed = parseScryptHash(stored);
+  if (parsed) {
+    if (parsed.hash.length === 0) {
+      return false;
+    }
+    try {
+      const hash = await scrypt(plaintext, parsed.salt, parsed, parsed.hash.length);
+      return safeEqual(hash, parsed.hash);
+    } catch (error) {
+      // Unusable parameters in the stored hash
+      console.error('Error verifying password hash:', error);
+      return false;
+    }
+  }
+
+  if (isLegacyHash(stored)) {
+    const [salt, storedHash] = stored.split(':');
+    const hash = crypto.pbkdf2Sync(plaintext, salt, LEGACY_ITERATIONS, KEY_BYTES, 'sha512');
+    return safeEqual(hash, Buffer.from(storedHash, 'hex'));
+  }
+
+  return false;
+}
+
+/**
+ * Whether a stored hash should be replaced after the next successful login:
+ * legacy hashes and scrypt hashes made with other parameters
+ */
+export function needsRehash(stored: string): boolean {
+  const parsed = parseScryptHash(stored);
+  if (!parsed) {
+    return true;
+  }
+  return parsed.version !== SCRYPT_VERSION
+    || parsed.N !== SCRYPT_PARAMS.N
+    || parsed.r !== SCRYPT_PARAMS.r
+    || parsed.p !== SCRYPT_PARAMS.p
+    || parsed.salt.length !== SALT_BYTES
+    || parsed.hash.length !== KEY_BYTES;
+}
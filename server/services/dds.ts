@@ -0,0 +1,436 @@
+import PDFDocument from 'pdfkit';
+import { Customer, Declaration, DeclarationVersion, Document, Entity, Supplier, ValidationJob } from '@shared/schema';
+import { DeclarationSnapshot } from '@shared/declaration-versions';
+import { PlotArea } from '@shared/geojson-validation';
+import { DECLARATION_STATE_LABELS, lifecycleStateOf } from '@shared/declaration-lifecycle';
+import { storage } from '../storage';
+import { snapshotOf, snapshotOfVersion } from './declaration-versions';
+import { validateGeoJSON } from './geojson-validation';
+import { summarizePlotAreas } from './plot-area';
+import { EUReferencePair } from './mass-balance';
+
+export const DDS_SCHEMA_VERSION = '1.0';
+
+// Statement the operator makes by submitting a DDS (EUDR Annex II)
+const DDS_STATEMENT =
+  'By submitting this due diligence statement the operator confirms that due diligence in accordance with ' +
+  'Regulation (EU) 2023/1115 was carried out and that no or only a negligible risk was found that the relevant ' +
+  'products do not comply with Article 3, point (a) or (b), of that Regulation.';
+
+// Plots listed in the PDF; the JSON always lists every plot
+const PDF_PLOT_ROWS = 100;
+
+export interface DDSParty {
+  name: string;
+  country: string | null;
+  address: string | null;
+  registrationNumber: string | null;
+  email: string | null;
+}
+
+export interface DDSCommodity {
+  position: number;
+  hsCode: string | null;
+  description: string;
+  scientificName: string | null;
+  quantity: number | null;
+  unit: string | null;
+  netMassKg: number | null;
+  countryOfProduction: string | null;
+}
+
+export interface DDSValidationCheck {
+  status: string;
+  completedAt: string | null;
+  result: unknown;
+}
+
+export interface DueDiligenceStatement {
+  schemaVersion: string;
+  generatedAt: string;
+  declaration: {
+    id: number;
+    internalReference: string;
+    type: string;
+    status: string;
+    version: number | null; // Sealed version the statement was built from; null for the working copy
+    eudrReferenceNumber: string | null;
+    eudrVerificationNumber: string | null;
+    validFrom: string | null;
+    validUntil: string | null;
+  };
+  operator: DDSParty | null;
+  supplier: DDSParty | null;
+  customer: DDSParty | null;
+  commodities: DDSCommodity[];
+  geolocation: {
+    plotCount: number;
+    polygonCount: number;
+    pointCount: number;
+    totalHectares: number;
+    plots: { plotId: string; geometryType: string | null; hectares: number | null }[];
+  };
+  referencedStatements: EUReferencePair[]; // DDS of upstream operators
+  riskAssessment: {
+    riskLevel: string;
+    complianceStatus: string | null;
+    conclusion: 'negligible' | 'non-negligible';
+    geometryCheck: DDSValidationCheck | null;
+    satelliteCheck: DDSValidationCheck | null;
+  };
+  evidenceDocuments: { title: string; documentType: string; status: string; expiresAt: string | null }[];
+  statement: string;
+}
+
+export interface DDSContext {
+  declarationId: number;
+  status: string;
+  version: number | null;
+  content: DeclarationSnapshot; // Sealed version or working copy
+  riskLevel: string;
+  complianceStatus: string | null;
+  plotAreas: PlotArea[] | null;
+  operator?: Entity;
+  supplier?: Supplier;
+  customer?: Customer;
+  documents: Document[];
+  validationJobs: ValidationJob[]; // Newest first
+}
+
+/**
+ * Content of a Due Diligence Statement: declaration, parties, commodities,
+ * geolocation summary, risk assessment and evidence.
+ */
+export function buildDDS(context: DDSContext): DueDiligenceStatement {
+  const { content } = context;
+  const fields = content.fields;
+  const plots = plotsOf(context);
+  const geometryCheck = latestCheck(context.validationJobs, 'geometry');
+  const satelliteCheck = latestCheck(context.validationJobs, 'satellite');
+
+  const commodities: DDSCommodity[] = content.items.length > 0
+    ? content.items.map((item, index) => ({
+        position: index + 1,
+        hsCode: item.hsCode,
+        description: item.productName,
+        scientificName: item.scientificName,
+        quantity: item.quantity,
+        unit: item.unit,
+        netMassKg: item.netMassKg,
+        countryOfProduction: item.countryOfProduction,
+      }))
+    : [{
+        position: 1,
+        hsCode: stringOrNull(fields.hsnCode),
+        description: String(fields.productName ?? ''),
+        scientificName: null,
+        quantity: typeof fields.quantity === 'number' ? fields.quantity : null,
+        unit: stringOrNull(fields.unit),
+        netMassKg: null,
+        countryOfProduction: context.supplier?.country ?? null,
+      }];
+
+  const nonCompliant = (context.complianceStatus ?? '').startsWith('non-compliant');
+  const lossPlots = (satelliteCheck?.result as { lossPlots?: unknown[] } | null)?.lossPlots ?? [];
+  const lossDetected = lossPlots.length > 0;
+
+  return {
+    schemaVersion: DDS_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    declaration: {
+      id: context.declarationId,
+      internalReference: `DECL-${context.declarationId}${context.version ? `-V${context.version}` : ''}`,
+      type: String(fields.type ?? ''),
+      status: context.status,
+      version: context.version,
+      eudrReferenceNumber: stringOrNull(fields.eudrReferenceNumber),
+      eudrVerificationNumber: stringOrNull(fields.eudrVerificationNumber),
+      validFrom: stringOrNull(fields.startDate),
+      validUntil: stringOrNull(fields.endDate),
+    },
+    operator: context.operator ? {
+      name: context.operator.name,
+      country: context.operator.country,
+      address: context.operator.address,
+      registrationNumber: context.operator.registrationNumber,
+      email: context.operator.email,
+    } : null,
+    supplier: context.supplier ? {
+      name: context.supplier.name,
+      country: context.supplier.country,
+      address: context.supplier.businessAddress
+        || [context.supplier.addressLine1, context.supplier.street, context.supplier.city, context.supplier.pinCode]
+          .filter(Boolean).join(', ')
+        || null,
+      registrationNumber: context.supplier.businessRegistration,
+      email: context.supplier.email,
+    } : null,
+    customer: context.customer ? {
+      name: context.customer.displayName || context.customer.companyName
+        || `${context.customer.firstName} ${context.customer.lastName}`,
+      country: null,
+      address: null,
+      registrationNumber: null,
+      email: context.customer.email,
+    } : null,
+    commodities,
+    geolocation: {
+      plotCount: plots.length,
+      polygonCount: plots.filter(plot => plot.geometryType?.includes('Polygon')).length,
+      pointCount: plots.filter(plot => plot.geometryType?.includes('Point')).length,
+      totalHectares: round(plots.reduce((sum, plot) => sum + (plot.hectares ?? 0), 0)),
+      plots,
+    },
+    referencedStatements: referencePairsOf(fields.euReferenceNumbers),
+    riskAssessment: {
+      riskLevel: context.riskLevel,
+      complianceStatus: context.complianceStatus,
+      conclusion: context.riskLevel === 'low' && !nonCompliant && !lossDetected ? 'negligible' : 'non-negligible',
+      geometryCheck,
+      satelliteCheck,
+    },
+    evidenceDocuments: context.documents.map(document => ({
+      title: document.title,
+      documentType: document.documentType,
+      status: document.status,
+      expiresAt: document.expiresAt ? document.expiresAt.toISOString() : null,
+    })),
+    statement: DDS_STATEMENT,
+  };
+}
+
+/**
+ * DDS of a sealed declaration version, or of the working copy when no version
+ * is given, with the parties, evidence and validation results on file.
+ */
+export async function loadDDS(declaration: Declaration, version?: DeclarationVersion): Promise<DueDiligenceStatement> {
+  const content = version
+    ? snapshotOfVersion(version)
+    : snapshotOf(
+        declaration,
+        await storage.listDeclarationItems(declaration.id),
+        await storage.listDeclarationReferences(declaration.id)
+      );
+  const supplierId = Number(content.fields.supplierId);
+  const customerId = content.fields.customerId ? Number(content.fields.customerId) : null;
+  const creator = await storage.getUser(declaration.createdBy);
+
+  const [operator, supplier, customer, documents, validationJobs] = await Promise.all([
+    creator?.entityId ? storage.getEntity(creator.entityId) : undefined,
+    storage.getSupplier(supplierId),
+    customerId ? storage.getCustomer(customerId) : undefined,
+    storage.listDocumentsBySupplier(supplierId),
+    storage.listValidationJobs(declaration.id),
+  ]);
+
+  return buildDDS({
+    declarationId: declaration.id,
+    status: DECLARATION_STATE_LABELS[lifecycleStateOf(declaration.status)],
+    version: version ? version.version : null,
+    content,
+    riskLevel: String(content.fields.riskLevel || declaration.riskLevel),
+    complianceStatus: declaration.complianceStatus,
+    plotAreas: (declaration.plotAreas as PlotArea[] | null) ?? null,
+    operator,
+    supplier,
+    customer,
+    documents,
+    validationJobs,
+  });
+}
+
+/**
+ * Printable PDF of a DDS, rendered in-process.
+ */
+export function renderDDSPdf(dds: DueDiligenceStatement): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Due Diligence Statement ${dds.declaration.internalReference}` } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font('Helvetica-Bold').fontSize(18).text('Due Diligence Statement');
+    doc.font('Helvetica').fontSize(9).fillColor('#555555')
+      .text(`Regulation (EU) 2023/1115 · ${dds.declaration.internalReference} · generated ${formatDate(dds.generatedAt)}`);
+    doc.fillColor('black').moveDown();
+
+    heading(doc, 'Declaration');
+    field(doc, 'Type', dds.declaration.type);
+    field(doc, 'Status', dds.declaration.status);
+    field(doc, 'Version', dds.declaration.version ? String(dds.declaration.version) : 'Working copy');
+    field(doc, 'EUDR reference number', dds.declaration.eudrReferenceNumber);
+    field(doc, 'EUDR verification number', dds.declaration.eudrVerificationNumber);
+    field(doc, 'Validity', dds.declaration.validFrom
+      ? `${formatDate(dds.declaration.validFrom)} to ${dds.declaration.validUntil ? formatDate(dds.declaration.validUntil) : 'open'}`
+      : null);
+
+    party(doc, 'Operator', dds.operator);
+    party(doc, 'Supplier', dds.supplier);
+    if (dds.customer) party(doc, 'Customer', dds.customer);
+
+    heading(doc, 'Commodities');
+    table(doc, ['#', 'HS code', 'Description', 'Quantity', 'Net mass', 'Country'], [25, 65, 165, 80, 80, 80],
+      dds.commodities.map(commodity => [
+        String(commodity.position),
+        commodity.hsCode || '-',
+        commodity.scientificName ? `${commodity.description} (${commodity.scientificName})` : commodity.description,
+        commodity.quantity !== null ? `${commodity.quantity} ${commodity.unit || ''}`.trim() : '-',
+        commodity.netMassKg !== null ? `${commodity.netMassKg} kg` : '-',
+        commodity.countryOfProduction || '-',
+      ]));
+
+    heading(doc, 'Geolocation');
+    field(doc, 'Plots', `${dds.geolocation.plotCount} (${dds.geolocation.polygonCount} polygons, ${dds.geolocation.pointCount} points)`);
+    field(doc, 'Total area', `${dds.geolocation.totalHectares} ha`);
+    if (dds.geolocation.plots.length > 0) {
+      table(doc, ['Production place', 'Geometry', 'Area (ha)'], [245, 125, 125],
+        dds.geolocation.plots.slice(0, PDF_PLOT_ROWS).map(plot => [
+          plot.plotId,
+          plot.geometryType || '-',
+          plot.hectares !== null ? String(plot.hectares) : '-',
+        ]));
+      if (dds.geolocation.plots.length > PDF_PLOT_ROWS) {
+        note(doc, `${dds.geolocation.plots.length - PDF_PLOT_ROWS} more plots are listed in the JSON statement.`);
+      }
+    }
+
+    if (dds.referencedStatements.length > 0) {
+      heading(doc, 'Referenced Due Diligence Statements');
+      table(doc, ['Reference number', 'Verification number'], [250, 245],
+        dds.referencedStatements.map(pair => [pair.referenceNumber, pair.verificationNumber || '-']));
+    }
+
+    heading(doc, 'Risk Assessment');
+    field(doc, 'Risk level', dds.riskAssessment.riskLevel);
+    field(doc, 'Compliance status', dds.riskAssessment.complianceStatus);
+    field(doc, 'Geometry check', checkSummary(dds.riskAssessment.geometryCheck));
+    field(doc, 'Satellite check', checkSummary(dds.riskAssessment.satelliteCheck));
+    field(doc, 'Conclusion', dds.riskAssessment.conclusion === 'negligible' ? 'Negligible risk' : 'Risk is not negligible');
+
+    heading(doc, 'Evidence Documents');
+    if (dds.evidenceDocuments.length > 0) {
+      table(doc, ['Document', 'Type', 'Status', 'Expires'], [215, 110, 85, 85],
+        dds.evidenceDocuments.map(document => [
+          document.title,
+          document.documentType,
+          document.status,
+          document.expiresAt ? formatDate(document.expiresAt) : '-',
+        ]));
+    } else {
+      note(doc, 'No evidence documents on file.');
+    }
+
+    heading(doc, 'Statement');
+    doc.font('Helvetica').fontSize(9).text(dds.statement, { align: 'justify' });
+
+    doc.end();
+  });
+}
+
+function heading(doc: PDFKit.PDFDocument, title: string) {
+  doc.moveDown(0.8);
+  doc.x = doc.page.margins.left;
+  doc.font('Helvetica-Bold').fontSize(12).text(title);
+  doc.moveDown(0.3);
+}
+
+function field(doc: PDFKit.PDFDocument, label: string, value: string | null | undefined) {
+  doc.font('Helvetica-Bold').fontSize(9).text(`${label}: `, { continued: true });
+  doc.font('Helvetica').text(value || '-');
+}
+
+function note(doc: PDFKit.PDFDocument, text: string) {
+  doc.font('Helvetica-Oblique').fontSize(9).fillColor('#555555').text(text).fillColor('black');
+}
+
+function party(doc: PDFKit.PDFDocument, title: string, value: DDSParty | null) {
+  heading(doc, title);
+  if (!value) {
+    note(doc, 'Not on file.');
+    return;
+  }
+  field(doc, 'Name', value.name);
+  field(doc, 'Country', value.country);
+  field(doc, 'Address', value.address);
+  field(doc, 'Registration number', value.registrationNumber);
+  field(doc, 'Email', value.email);
+}
+
+// Rows of wrapped cells; a new page is started when a row does not fit
+function table(doc: PDFKit.PDFDocument, headers: string[], widths: number[], rows: string[][]) {
+  const left = doc.page.margins.left;
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: widths[i] - 6 }))) + 6;
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+    const top = doc.y;
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + 3, top + 3, { width: widths[i] - 6 });
+      x += widths[i];
+    });
+    doc.moveTo(left, top + height).lineTo(x, top + height).strokeColor('#dddddd').stroke();
+    doc.x = left;
+    doc.y = top + height;
+  };
+
+  drawRow(headers, true);
+  rows.forEach(row => drawRow(row, false));
+  doc.moveDown(0.5);
+}
+
+function checkSummary(check: DDSValidationCheck | null): string {
+  if (!check) return 'Not run';
+  return check.completedAt ? `${check.status} on ${formatDate(check.completedAt)}` : check.status;
+}
+
+function plotsOf(context: DDSContext): DueDiligenceStatement['geolocation']['plots'] {
+  // Stored areas describe the working copy; a sealed version's plots are measured again
+  const areas = context.version === null && context.plotAreas
+    ? context.plotAreas
+    : context.content.geojsonData ? summarizePlotAreas(validateGeoJSON(context.content.geojsonData)) : [];
+
+  return areas.map(area => ({
+    plotId: area.plotId,
+    geometryType: area.geometryType,
+    hectares: area.computedHectares ?? area.declaredHectares,
+  }));
+}
+
+function latestCheck(jobs: ValidationJob[], type: string): DDSValidationCheck | null {
+  const job = jobs.find(candidate => candidate.type === type && candidate.status !== 'cancelled');
+  return job ? {
+    status: job.status,
+    completedAt: job.completedAt ? job.completedAt.toISOString() : null,
+    result: job.result ?? null,
+  } : null;
+}
+
+// Snapshots sealed before references had their own table hold them as a JSON string
+function referencePairsOf(value: unknown): EUReferencePair[] {
+  try {
+    const pairs = typeof value === 'string' && value ? JSON.parse(value) : value;
+    return Array.isArray(pairs)
+      ? pairs
+          .filter(pair => typeof pair?.referenceNumber === 'string' && pair.referenceNumber.trim())
+          .map(pair => ({ referenceNumber: pair.referenceNumber.trim(), verificationNumber: String(pair.verificationNumber ?? '').trim() }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
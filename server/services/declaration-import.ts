@@ -0,0 +1,514 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+import { InsertDeclarationItem, InsertDeclarationReference, Product, Supplier } from '@shared/schema';
+import { normalizeReferenceNumber, referenceFormatError } from '@shared/eu-reference-numbers';
+import { storage } from '../storage';
+import { netMassKgOf, summarizeDeclarationItems } from './declaration-items';
+import { GeoFileConversionError, convertGeoFile } from './geo-file-import';
+import { enqueueValidationJobs } from './validation-worker';
+
+// Spreadsheet columns, by the header they have in the import template. One
+// row is one line item; rows with the same shipment reference make up one
+// inbound declaration.
+export const IMPORT_COLUMNS = {
+  shipmentReference: 'Shipment Reference',
+  supplierCode: 'Supplier Code',
+  productCode: 'Product Code',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  netMassKg: 'Net Mass (kg)',
+  batchId: 'Batch ID',
+  countryOfProduction: 'Country of Production',
+  hsCode: 'HS Code',
+  validFrom: 'Valid From',
+  validUntil: 'Valid Until',
+  geojsonFile: 'GeoJSON File',
+  referenceNumber: 'EU Reference Number',
+  verificationNumber: 'EU Verification Number',
+} as const;
+
+type ImportColumn = keyof typeof IMPORT_COLUMNS;
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['shipmentReference', 'supplierCode', 'productCode', 'quantity', 'unit'];
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.csv'];
+const TEMPLATE_EXAMPLE: Record<ImportColumn, string> = {
+  shipmentReference: 'SHP-1001',
+  supplierCode: 'REG-123456',
+  productCode: 'P-COCOA-01',
+  quantity: '1200',
+  unit: 'kg',
+  netMassKg: '',
+  batchId: 'B-2024-17',
+  countryOfProduction: 'Ghana',
+  hsCode: '1801',
+  validFrom: '2025-01-01',
+  validUntil: '2025-12-31',
+  geojsonFile: 'shp-1001-plots.geojson',
+  referenceNumber: '',
+  verificationNumber: '',
+};
+
+// Excel stores dates as days since 30 December 1899
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A problem with an upload or one of its rows; the message is shown to the
+ * user. Row problems are collected into the import's error report.
+ */
+export class DeclarationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeclarationImportError';
+  }
+}
+
+export interface ImportRowError {
+  row: number; // Spreadsheet row number; the header is row 1
+  shipmentReference: string | null;
+  reason: string;
+}
+
+export interface ImportedDeclaration {
+  declarationId: number;
+  shipmentReference: string;
+}
+
+export interface DeclarationImportResult {
+  totalRows: number;
+  importedRows: number;
+  declarations: ImportedDeclaration[];
+  errors: ImportRowError[];
+}
+
+interface ImportRow {
+  row: number;
+  values: Partial<Record<ImportColumn, string>>;
+}
+
+interface ShipmentLine {
+  row: number;
+  item: Omit<InsertDeclarationItem, 'declarationId'>;
+  reference: Omit<InsertDeclarationReference, 'declarationId'> | null;
+}
+
+/**
+ * Create inbound draft declarations from an XLSX or CSV export, or from a ZIP
+ * holding the spreadsheet and the geolocation files its rows refer to.
+ * Suppliers are matched by business registration number (or name) and
+ * products by product code. A shipment with any invalid row, or one the
+ * entity already imported, is not imported; every row of it is reported with
+ * the reason.
+ */
+export async function importDeclarations(fileName: string, data: Buffer, createdBy: number): Promise<DeclarationImportResult> {
+  const { rows, geoFiles } = await readUpload(fileName, data);
+  if (rows.length === 0) {
+    throw new DeclarationImportError('The spreadsheet has no rows to import');
+  }
+
+  const [suppliers, products] = await Promise.all([storage.listSuppliers(), storage.listProducts()]);
+  const suppliersByCode = supplierLookup(suppliers);
+  const productsByCode = new Map(products.map(product => [product.productCode.trim().toLowerCase(), product]));
+
+  const shipments = new Map<string, ImportRow[]>();
+  const errors: ImportRowError[] = [];
+  for (const row of rows) {
+    const shipmentReference = row.values.shipmentReference;
+    if (!shipmentReference) {
+      errors.push({ row: row.row, shipmentReference: null, reason: `${IMPORT_COLUMNS.shipmentReference} is required` });
+      continue;
+    }
+    shipments.set(shipmentReference, [...(shipments.get(shipmentReference) ?? []), row]);
+  }
+
+  const declarations: ImportedDeclaration[] = [];
+  let importedRows = 0;
+  for (const [shipmentReference, shipmentRows] of Array.from(shipments.entries())) {
+    const supplier = suppliersByCode.get(shipmentRows[0].values.supplierCode?.toLowerCase() ?? '');
+    const rowErrors: ImportRowError[] = [];
+    const lines: ShipmentLine[] = [];
+    const features: unknown[] = [];
+    const geoFileNames = new Set<string>();
+
+    for (const row of shipmentRows) {
+      try {
+        const rowSupplier = suppliersByCode.get(row.values.supplierCode?.toLowerCase() ?? '');
+        if (supplier && rowSupplier && rowSupplier.id !== supplier.id) {
+          throw new DeclarationImportError(`Supplier ${rowSupplier.name} differs from ${supplier.name} on the shipment's first row`);
+        }
+        lines.push(shipmentLine(row, rowSupplier, productsByCode, lines.length));
+        const geoFileName = row.values.geojsonFile;
+        if (geoFileName && !geoFileNames.has(geoFileName.toLowerCase())) {
+          geoFileNames.add(geoFileName.toLowerCase());
+          features.push(...await geolocationOf(geoFileName, geoFiles));
+        }
+      } catch (error) {
+        if (!(error instanceof DeclarationImportError)) throw error;
+        rowErrors.push({ row: row.row, shipmentReference, reason: error.message });
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      const failed = new Set(rowErrors.map(error => error.row));
+      for (const row of shipmentRows.filter(row => !failed.has(row.row))) {
+        errors.push({ row: row.row, shipmentReference, reason: `Not imported because another row of shipment ${shipmentReference} was rejected` });
+      }
+      continue;
+    }
+
+    const items = lines.map(line => line.item);
+    const summary = summarizeDeclarationItems(items);
+    const first = shipmentRows[0].values;
+    const declaration = await storage.createImportedDeclaration({
+      type: 'inbound',
+      supplierId: supplier!.id,
+      productName: summary.productName ?? items[0].productName,
+      hsnCode: summary.hsnCode,
+      quantity: summary.quantity,
+      unit: summary.unit,
+      status: 'draft',
+      riskLevel: 'medium',
+      geojsonData: features.length > 0 ? { type: 'FeatureCollection', features } : undefined,
+      startDate: dateOf(first.validFrom, IMPORT_COLUMNS.validFrom) ?? undefined,
+      endDate: dateOf(first.validUntil, IMPORT_COLUMNS.validUntil) ?? undefined,
+      createdBy,
+    }, shipmentReference, items, uniqueReferences(lines));
+    if (!declaration) {
+      for (const row of shipmentRows) {
+        errors.push({ row: row.row, shipmentReference, reason: `Shipment ${shipmentReference} was already imported` });
+      }
+      continue;
+    }
+    if (declaration.geojsonData) {
+      await enqueueValidationJobs(declaration.id);
+    }
+
+    declarations.push({ declarationId: declaration.id, shipmentReference });
+    importedRows += shipmentRows.length;
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { totalRows: rows.length, importedRows, declarations, errors };
+}
+
+/**
+ * CSV listing every rejected row with the reason, for download.
+ */
+export function errorReportCsv(errors: ImportRowError[]): string {
+  const lines = [['Row', IMPORT_COLUMNS.shipmentReference, 'Reason']]
+    .concat(errors.map(error => [String(error.row), error.shipmentReference ?? '', error.reason]));
+  return lines.map(line => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV template with the import columns and an example row.
+ */
+export function importTemplateCsv(): string {
+  const columns = Object.keys(IMPORT_COLUMNS) as ImportColumn[];
+  return [
+    columns.map(column => csvField(IMPORT_COLUMNS[column])).join(','),
+    columns.map(column => csvField(TEMPLATE_EXAMPLE[column])).join(','),
+  ].join('\r\n') + '\r\n';
+}
+
+function shipmentLine(
+  row: ImportRow,
+  supplier: Supplier | undefined,
+  productsByCode: Map<string, Product>,
+  position: number
+): ShipmentLine {
+  const values = row.values;
+  for (const column of REQUIRED_COLUMNS) {
+    if (!values[column]) {
+      throw new DeclarationImportError(`${IMPORT_COLUMNS[column]} is required`);
+    }
+  }
+  if (!supplier) {
+    throw new DeclarationImportError(`No supplier with registration number or name "${values.supplierCode}"`);
+  }
+
+  const product = productsByCode.get(values.productCode!.toLowerCase());
+  if (!product) {
+    throw new DeclarationImportError(`No product with code "${values.productCode}"`);
+  }
+
+  const quantity = numberOf(values.quantity!, IMPORT_COLUMNS.quantity);
+  if (quantity <= 0) {
+    throw new DeclarationImportError(`${IMPORT_COLUMNS.quantity} must be greater than zero`);
+  }
+  const unit = values.unit!;
+  const netMassKg = values.netMassKg ? numberOf(values.netMassKg, IMPORT_COLUMNS.netMassKg) : netMassKgOf(quantity, unit);
+  const hsCode = values.hsCode || product.hsCode;
+  if (hsCode && !/^\d{4,10}$/.test(hsCode)) {
+    throw new DeclarationImportError(`${IMPORT_COLUMNS.hsCode} "${hsCode}" must be 4 to 10 digits`);
+  }
+  dateOf(values.validFrom, IMPORT_COLUMNS.validFrom);
+  dateOf(values.validUntil, IMPORT_COLUMNS.validUntil);
+
+  let reference: ShipmentLine['reference'] = null;
+  if (values.referenceNumber || values.verificationNumber) {
+    const formatError = referenceFormatError(values.referenceNumber ?? '', values.verificationNumber ?? '');
+    if (formatError) {
+      throw new DeclarationImportError(formatError);
+    }
+    reference = {
+      referenceNumber: normalizeReferenceNumber(values.referenceNumber!),
+      verificationNumber: normalizeReferenceNumber(values.verificationNumber!),
+      source: 'supplier',
+      validationStatus: 'valid_format',
+    };
+  }
+
+  return {
+    row: row.row,
+    item: {
+      productId: product.id,
+      productName: product.name,
+      scientificName: null,
+      hsCode: hsCode || null,
+      quantity,
+      unit,
+      netMassKg,
+      countryOfProduction: values.countryOfProduction || supplier.country || null,
+      rmId: null,
+      skuCode: product.productCode,
+      batchId: values.batchId || null,
+      position,
+    },
+    reference,
+  };
+}
+
+// Suppliers by business registration number and by name, lowercased
+function supplierLookup(suppliers: Supplier[]): Map<string, Supplier> {
+  const byCode = new Map<string, Supplier>();
+  for (const supplier of suppliers) {
+    byCode.set(supplier.name.trim().toLowerCase(), supplier);
+  }
+  for (const supplier of suppliers) {
+    if (supplier.businessRegistration) {
+      byCode.set(supplier.businessRegistration.trim().toLowerCase(), supplier);
+    }
+  }
+  return byCode;
+}
+
+async function geolocationOf(fileName: string, geoFiles: Map<string, { name: string; data: Buffer }>): Promise<unknown[]> {
+  const file = geoFiles.get(path.basename(fileName).toLowerCase());
+  if (!file) {
+    throw new DeclarationImportError(`${fileName} is not in the upload; upload a ZIP with the spreadsheet and its geolocation files`);
+  }
+  try {
+    return (await convertGeoFile(file.name, file.data)).geojsonData.features;
+  } catch (error) {
+    if (error instanceof GeoFileConversionError) {
+      throw new DeclarationImportError(`${fileName}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function uniqueReferences(lines: ShipmentLine[]): Omit<InsertDeclarationReference, 'declarationId'>[] {
+  const references = new Map<string, Omit<InsertDeclarationReference, 'declarationId'>>();
+  for (const { reference } of lines) {
+    if (reference && !references.has(reference.referenceNumber)) {
+      references.set(reference.referenceNumber, reference);
+    }
+  }
+  return Array.from(references.values());
+}
+
+function numberOf(value: string, label: string): number {
+  const number = Number(value.replace(/\s/g, ''));
+  if (!Number.isFinite(number)) {
+    throw new DeclarationImportError(`${label} "${value}" is not a number`);
+  }
+  return number;
+}
+
+// ISO dates, or Excel date serials from cells formatted as dates
+function dateOf(value: string | undefined, label: string): Date | null {
+  if (!value) return null;
+  const date = /^\d+(\.\d+)?$/.test(value)
+    ? new Date(EXCEL_EPOCH_MS + Math.round(Number(value)) * MS_PER_DAY)
+    : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new DeclarationImportError(`${label} "${value}" is not a date; use YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function readUpload(
+  fileName: string,
+  data: Buffer
+): Promise<{ rows: ImportRow[]; geoFiles: Map<string, { name: string; data: Buffer }> }> {
+  const extension = path.extname(fileName).toLowerCase();
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) {
+    return { rows: await readSpreadsheet(fileName, data), geoFiles: new Map() };
+  }
+  if (extension !== '.zip') {
+    throw new DeclarationImportError(`Unsupported file type "${extension || fileName}". Upload an XLSX or CSV file, or a ZIP with one and its geolocation files.`);
+  }
+
+  const zip = await JSZip.loadAsync(data).catch(() => {
+    throw new DeclarationImportError(`${fileName} is not a valid ZIP file`);
+  });
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'));
+  const spreadsheets = entries.filter(entry => SPREADSHEET_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()));
+  if (spreadsheets.length !== 1) {
+    throw new DeclarationImportError(`The ZIP must contain exactly one XLSX or CSV file; it has ${spreadsheets.length}`);
+  }
+
+  const geoFiles = new Map<string, { name: string; data: Buffer }>();
+  for (const entry of entries.filter(entry => entry !== spreadsheets[0])) {
+    const name = path.basename(entry.name);
+    geoFiles.set(name.toLowerCase(), { name, data: await entry.async('nodebuffer') });
+  }
+  return { rows: await readSpreadsheet(spreadsheets[0].name, await spreadsheets[0].async('nodebuffer')), geoFiles };
+}
+
+// Rows keyed by import column; headers are matched without regard to case or spacing
+async function readSpreadsheet(fileName: string, data: Buffer): Promise<ImportRow[]> {
+  const table = path.extname(fileName).toLowerCase() === '.csv'
+    ? readCSV(data.toString('utf8'))
+    : await readXLSX(data);
+
+  const [header, ...body] = table;
+  const key = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const columnsByHeader = new Map(
+    (Object.keys(IMPORT_COLUMNS) as ImportColumn[]).map(column => [key(IMPORT_COLUMNS[column]), column])
+  );
+  const columns = (header?.cells ?? []).map(cell => columnsByHeader.get(key(cell)));
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new DeclarationImportError(`Missing columns: ${missing.map(column => IMPORT_COLUMNS[column]).join(', ')}`);
+  }
+
+  return body
+    .map(({ row, cells }) => {
+      const values: ImportRow['values'] = {};
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        if (column && cell.trim()) values[column] = cell.trim();
+      });
+      return { row, values };
+    })
+    .filter(row => Object.keys(row.values).length > 0);
+}
+
+// RFC 4180 CSV; semicolon-separated exports are recognised by their header
+function readCSV(text: string): { row: number; cells: string[] }[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: { row: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ row: rowStart, cells });
+      cells = [];
+      cell = '';
+      rowStart = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ row: rowStart, cells });
+  }
+  return rows;
+}
+
+// Cell text of the first worksheet of an XLSX workbook
+async function readXLSX(data: Buffer): Promise<{ row: number; cells: string[] }[]> {
+  const zip = await JSZip.loadAsync(data).catch(() => {
+    throw new DeclarationImportError('The file is not a valid XLSX workbook');
+  });
+  const workbook = await xmlOf(zip, 'xl/workbook.xml');
+  const relationships = await xmlOf(zip, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook.getElementsByTagNameNS('*', 'sheet')[0];
+  const relationshipId = sheet?.getAttribute('r:id');
+  const target = Array.from(relationships.getElementsByTagNameNS('*', 'Relationship'))
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  if (!target) {
+    throw new DeclarationImportError('The workbook has no worksheet');
+  }
+
+  const sharedStrings = zip.file('xl/sharedStrings.xml')
+    ? Array.from((await xmlOf(zip, 'xl/sharedStrings.xml')).getElementsByTagNameNS('*', 'si')).map(textContentOf)
+    : [];
+  const worksheet = await xmlOf(zip, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+
+  return Array.from(worksheet.getElementsByTagNameNS('*', 'row')).map((rowElement, index) => {
+    const cells: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagNameNS('*', 'c'))) {
+      const column = columnIndexOf(cell.getAttribute('r')) ?? cells.length;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagNameNS('*', 'v')[0]?.textContent ?? '';
+      cells[column] = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? textContentOf(cell.getElementsByTagNameNS('*', 'is')[0])
+          : type === 'b'
+            ? (value === '1' ? 'TRUE' : 'FALSE')
+            : value;
+    }
+    return { row: Number(rowElement.getAttribute('r')) || index + 1, cells: Array.from(cells, cell => cell ?? '') };
+  });
+}
+
+async function xmlOf(zip: JSZip, name: string): Promise<Document> {
+  const file = zip.file(name);
+  if (!file) {
+    throw new DeclarationImportError(`The workbook is missing ${name}`);
+  }
+  return new DOMParser({ errorHandler: { warning: () => undefined, error: () => undefined } })
+    .parseFromString(await file.async('string'), 'text/xml') as unknown as Document;
+}
+
+// Text of a shared or inline string, including rich text runs but not phonetic hints
+function textContentOf(element: Element | undefined): string {
+  if (!element) return '';
+  return Array.from(element.getElementsByTagNameNS('*', 't'))
+    .filter(text => (text.parentNode as Element | null)?.localName !== 'rPh')
+    .map(text => text.textContent ?? '')
+    .join('');
+}
+
+// Zero-based column of a cell reference such as "C12"
+function columnIndexOf(reference: string | null): number | null {
+  const letters = reference?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return null;
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
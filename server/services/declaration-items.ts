@@ -0,0 +1,85 @@
+import { InsertDeclarationItem } from '@shared/schema';
+import { storage } from '../storage';
+
+// Kilograms per unit for units that measure mass
+const KG_PER_UNIT: Record<string, number> = {
+  g: 0.001,
+  kg: 1,
+  ton: 1000,
+  tons: 1000,
+  tonne: 1000,
+  tonnes: 1000,
+  t: 1000,
+};
+
+/**
+ * Net mass in kilograms of a quantity, or null when the unit is not a mass
+ * (liters, m³, pieces) and the net mass must be declared explicitly.
+ */
+export function netMassKgOf(quantity: number | null, unit: string | null): number | null {
+  if (quantity === null || !unit) return null;
+  const factor = KG_PER_UNIT[unit.trim().toLowerCase()];
+  return factor !== undefined ? quantity * factor : null;
+}
+
+/**
+ * Line items of a declaration from the wizard's `items` payload. Items are
+ * linked to the catalogue product with the same name, and default to the
+ * supplier's country of production. The declaration id is set when saving.
+ */
+export async function buildDeclarationItems(
+  rawItems: unknown,
+  defaultCountryOfProduction?: string | null
+): Promise<Omit<InsertDeclarationItem, 'declarationId'>[]> {
+  if (!Array.isArray(rawItems)) return [];
+
+  const items = rawItems.filter(item => item && typeof item.productName === 'string' && item.productName.trim());
+  return await Promise.all(items.map(async (item: any, position: number) => {
+    const productName = item.productName.trim();
+    const product = item.productId
+      ? await storage.getProduct(Number(item.productId))
+      : (await storage.searchProducts(productName)).find(p => p.name.toLowerCase() === productName.toLowerCase());
+
+    const quantity = numberOrNull(item.quantity);
+    const unit = item.unit ? String(item.unit) : null;
+
+    return {
+      productId: product?.id ?? null,
+      productName,
+      scientificName: item.scientificName ? String(item.scientificName) : null,
+      hsCode: item.hsnCode || item.hsCode || product?.hsCode || null,
+      quantity,
+      unit,
+      netMassKg: numberOrNull(item.netMassKg) ?? netMassKgOf(quantity, unit),
+      countryOfProduction: item.countryOfProduction || defaultCountryOfProduction || null,
+      rmId: item.rmId || null,
+      skuCode: item.skuCode || null,
+      batchId: item.productCode || item.batchId || null,
+      position,
+    };
+  }));
+}
+
+/**
+ * Header fields of a declaration derived from its items: the first item's
+ * product, and a total quantity only when every item uses the same unit.
+ */
+export function summarizeDeclarationItems(items: Omit<InsertDeclarationItem, 'declarationId'>[]) {
+  const units = Array.from(new Set(items.map(item => item.unit)));
+  const sameUnit = units.length === 1;
+
+  return {
+    productName: items[0]?.productName,
+    hsnCode: items[0]?.hsCode ?? undefined,
+    quantity: sameUnit
+      ? items.reduce((sum, item) => sum + (item.quantity ?? 0), 0)
+      : undefined,
+    unit: sameUnit ? units[0] ?? undefined : undefined,
+  };
+}
+
+function numberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
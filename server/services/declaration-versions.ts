@@ -0,0 +1,112 @@
+import { Declaration, DeclarationItem, DeclarationReference, DeclarationTransition, DeclarationVersion } from '@shared/schema';
+import {
+  DeclarationItemChange,
+  DeclarationSnapshot,
+  DeclarationSnapshotItem,
+  DeclarationVersionDiff,
+  VERSIONED_DECLARATION_FIELDS,
+  VersionedDeclarationField,
+} from '@shared/declaration-versions';
+import { diffGeoJSON } from './geojson-edits';
+
+/**
+ * Content of a declaration as submitted: the versioned fields, its line items
+ * in order, the EU reference numbers it refers to and its geolocation.
+ */
+export function snapshotOf(
+  declaration: Declaration,
+  items: DeclarationItem[],
+  references: DeclarationReference[]
+): DeclarationSnapshot {
+  const fields = {} as Record<VersionedDeclarationField, unknown>;
+  for (const field of Object.keys(VERSIONED_DECLARATION_FIELDS) as VersionedDeclarationField[]) {
+    const value = declaration[field];
+    fields[field] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  fields.euReferenceNumbers = references.length > 0
+    ? references.map(({ referenceNumber, verificationNumber, source }) => ({ referenceNumber, verificationNumber, source }))
+    : null;
+
+  return {
+    fields,
+    items: items.map(item => ({
+      productName: item.productName,
+      scientificName: item.scientificName,
+      hsCode: item.hsCode,
+      quantity: item.quantity,
+      unit: item.unit,
+      netMassKg: item.netMassKg,
+      countryOfProduction: item.countryOfProduction,
+      rmId: item.rmId,
+      skuCode: item.skuCode,
+      batchId: item.batchId,
+    })),
+    geojsonData: declaration.geojsonData ?? null,
+  };
+}
+
+/**
+ * Field, item and plot differences between two snapshots. Items are matched
+ * by product name and batch; plots by production place id.
+ */
+export function diffSnapshots(
+  before: DeclarationSnapshot,
+  after: DeclarationSnapshot,
+  from: number,
+  to: number | 'current'
+): DeclarationVersionDiff {
+  const fields = (Object.keys(VERSIONED_DECLARATION_FIELDS) as VersionedDeclarationField[])
+    .filter(field => JSON.stringify(before.fields[field] ?? null) !== JSON.stringify(after.fields[field] ?? null))
+    .map(field => ({
+      field,
+      label: VERSIONED_DECLARATION_FIELDS[field],
+      before: before.fields[field] ?? null,
+      after: after.fields[field] ?? null,
+    }));
+
+  const previous = itemsByKey(before.items);
+  const next = itemsByKey(after.items);
+  const items: DeclarationItemChange[] = [];
+  next.forEach((item, key) => {
+    const old = previous.get(key);
+    if (!old) {
+      items.push({ key, change: 'added', before: null, after: item });
+    } else if (JSON.stringify(old) !== JSON.stringify(item)) {
+      items.push({ key, change: 'changed', before: old, after: item });
+    }
+  });
+  previous.forEach((item, key) => {
+    if (!next.has(key)) {
+      items.push({ key, change: 'removed', before: item, after: null });
+    }
+  });
+
+  return { from, to, fields, items, geometry: diffGeoJSON(before.geojsonData, after.geojsonData) };
+}
+
+/**
+ * Reason the declaration was reopened since it was last submitted: the latest
+ * amendment or rejection. `transitions` are newest first.
+ */
+export function reopeningReason(transitions: DeclarationTransition[]): string | null {
+  for (const transition of transitions) {
+    if (transition.action === 'submit' || transition.action === 'resubmit') return null;
+    if (transition.action === 'amend' || transition.action === 'reject') return transition.reason;
+  }
+  return null;
+}
+
+export function snapshotOfVersion(version: DeclarationVersion): DeclarationSnapshot {
+  return version.snapshot as DeclarationSnapshot;
+}
+
+function itemsByKey(items: DeclarationSnapshotItem[]): Map<string, DeclarationSnapshotItem> {
+  const byKey = new Map<string, DeclarationSnapshotItem>();
+  for (const item of items) {
+    const base = [item.productName, item.batchId].filter(Boolean).join(' / ');
+    let key = base;
+    for (let n = 2; byKey.has(key); n++) key = `${base} (${n})`;
+    byKey.set(key, item);
+  }
+  return byKey;
+}
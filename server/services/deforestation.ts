@@ -0,0 +1,170 @@
+import path from 'path';
+import {
+  DeforestationCheckResult,
+  DeforestationPlotResult,
+  ValidationIssue,
+} from '@shared/geojson-validation';
+import { extractFeatures, productionPlaceIdOf } from './geojson-validation';
+import { geodesicAreaHectares } from './plot-area';
+import { ForestLossSource, loadForestLossSources } from './forest-loss-sources';
+import { bboxOf, polygonsOf } from './geo-utils';
+
+// EUDR Article 2(13): commodities must come from land not deforested after 31 December 2020
+export const DEFORESTATION_CUTOFF_DATE = '2020-12-31';
+const CUTOFF_YEAR = 2020;
+
+// Directory of forest-loss GeoJSON / GeoTIFF tiles
+const FOREST_LOSS_DATA_DIR = process.env.FOREST_LOSS_DATA_DIR
+  || path.resolve(process.cwd(), 'server/data/forest-loss');
+
+let sourcesPromise: Promise<ForestLossSource[]> | null = null;
+
+function getSources(): Promise<ForestLossSource[]> {
+  if (!sourcesPromise) {
+    sourcesPromise = loadForestLossSources(FOREST_LOSS_DATA_DIR).then(sources => {
+      console.log(`Loaded ${sources.length} forest-loss dataset(s) from ${FOREST_LOSS_DATA_DIR}`);
+      return sources;
+    });
+  }
+  return sourcesPromise;
+}
+
+/**
+ * Drop the cached datasets so the next check re-reads the data directory.
+ */
+export function reloadForestLossSources() {
+  sourcesPromise = null;
+}
+
+/**
+ * Intersect each plot of a declaration's GeoJSON with the forest-loss datasets
+ * and report the area that lost forest cover after the EUDR cutoff date.
+ */
+export async function checkDeforestation(geojson: unknown): Promise<DeforestationCheckResult> {
+  const sources = await getSources();
+  const features = extractFeatures(geojson) ?? [];
+
+  if (sources.length === 0) {
+    return {
+      checked: false,
+      cutoffDate: DEFORESTATION_CUTOFF_DATE,
+      datasets: [],
+      riskLevel: 'medium',
+      plots: features.map((feature, index) => ({
+        plotId: productionPlaceIdOf(feature, index),
+        status: 'warning',
+        lossDetected: false,
+        overlapHectares: null,
+        overlapPercent: null,
+        issues: [satelliteIssue('Deforestation check unavailable', `No forest-loss dataset is configured in ${FOREST_LOSS_DATA_DIR}`, 'warning')],
+      })),
+    };
+  }
+
+  const plots: DeforestationPlotResult[] = [];
+  for (let index = 0; index < features.length; index++) {
+    plots.push(await checkPlot(features[index], index, sources));
+  }
+
+  return {
+    checked: true,
+    cutoffDate: DEFORESTATION_CUTOFF_DATE,
+    datasets: sources.map(source => source.name),
+    riskLevel: plots.some(plot => plot.lossDetected)
+      ? 'high'
+      : plots.some(plot => plot.status !== 'compliant') ? 'medium' : 'low',
+    plots,
+  };
+}
+
+async function checkPlot(feature: any, index: number, sources: ForestLossSource[]): Promise<DeforestationPlotResult> {
+  const plotId = productionPlaceIdOf(feature, index);
+  const geometry = feature?.geometry;
+  const points = geometry?.type === 'Point'
+    ? [geometry.coordinates]
+    : geometry?.type === 'MultiPoint' ? geometry.coordinates : [];
+  const polygons = polygonsOf(geometry);
+
+  const positions = polygons.length > 0 ? polygons.flat(2) : points;
+  if (!Array.isArray(positions) || positions.length === 0 || !positions.every(isPosition)) {
+    return uncheckedPlot(plotId, 'Plot geometry could not be checked against forest-loss data');
+  }
+
+  const bbox = bboxOf(positions);
+  const covering = sources.filter(source => source.covers(bbox));
+  if (covering.length === 0) {
+    return uncheckedPlot(plotId, 'No forest-loss dataset covers this plot');
+  }
+
+  if (polygons.length === 0) {
+    let lossDetected = false;
+    for (const source of covering) {
+      for (const point of points) {
+        lossDetected = lossDetected || await source.lossAtPoint(point, CUTOFF_YEAR);
+      }
+    }
+    return {
+      plotId,
+      status: lossDetected ? 'non-compliant' : 'compliant',
+      lossDetected,
+      overlapHectares: null,
+      overlapPercent: null,
+      issues: lossDetected
+        ? [satelliteIssue('Forest loss after cutoff date', `Plot location lost forest cover after ${DEFORESTATION_CUTOFF_DATE}`)]
+        : [],
+    };
+  }
+
+  // Datasets may overlap each other, so take the largest reported loss
+  let overlapHectares = 0;
+  let dataset = '';
+  for (const source of covering) {
+    const loss = await source.lossHectares(polygons, bbox, CUTOFF_YEAR);
+    if (loss > overlapHectares) {
+      overlapHectares = loss;
+      dataset = source.name;
+    }
+  }
+
+  const plotHectares = geodesicAreaHectares(geometry) ?? 0;
+  const overlapPercent = plotHectares > 0 ? Math.min((overlapHectares / plotHectares) * 100, 100) : 0;
+  const lossDetected = overlapHectares > 0;
+
+  return {
+    plotId,
+    status: lossDetected ? 'non-compliant' : 'compliant',
+    lossDetected,
+    overlapHectares: round(overlapHectares, 4),
+    overlapPercent: round(overlapPercent, 2),
+    issues: lossDetected
+      ? [satelliteIssue(
+          'Forest loss after cutoff date',
+          `${round(overlapHectares, 2)} hectares (${round(overlapPercent, 1)}% of the plot) lost forest cover after ${DEFORESTATION_CUTOFF_DATE} according to ${dataset}`
+        )]
+      : [],
+  };
+}
+
+function uncheckedPlot(plotId: string, details: string): DeforestationPlotResult {
+  return {
+    plotId,
+    status: 'warning',
+    lossDetected: false,
+    overlapHectares: null,
+    overlapPercent: null,
+    issues: [satelliteIssue('Deforestation check incomplete', details, 'warning')],
+  };
+}
+
+function satelliteIssue(message: string, details: string, severity: 'error' | 'warning' = 'error'): ValidationIssue {
+  return { type: 'satellite', message, details, severity };
+}
+
+function isPosition(position: any): boolean {
+  return Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1]);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
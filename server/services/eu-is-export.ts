@@ -0,0 +1,220 @@
+import { EUISExportRejection } from '@shared/geojson-validation';
+import { extractFeatures, productionPlaceIdOf, validateGeoJSON } from './geojson-validation';
+import { parseDeclaredHectares } from './plot-area';
+
+type Position = number[];
+
+// Upload limit of the EU Information System for a single geolocation file
+export const EU_IS_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+// The EU-IS requires at least six decimal digits; more only adds file size
+const COORDINATE_DECIMALS = 6;
+
+export interface EUISExportContext {
+  declarationId: number;
+  commodity: string; // HS code or product name of the declaration
+  producerName?: string; // Supplier name, used when a plot has no producer of its own
+  producerCountry?: string; // Supplier country name or ISO code
+  maxFileBytes?: number;
+}
+
+export interface EUISExportFile {
+  fileName: string;
+  commodity: string;
+  featureCount: number;
+  bytes: number;
+  content: string;
+}
+
+export interface EUISExportResult {
+  files: EUISExportFile[];
+  rejected: EUISExportRejection[];
+  errors: string[]; // Document-level problems
+}
+
+/**
+ * Rewrite a declaration's GeoJSON to the EU Information System profile: one
+ * FeatureCollection per commodity with ProducerName, ProducerCountry,
+ * ProductionPlace and (for points) Area properties, WGS84 coordinates rounded
+ * to six decimals, and files split below the upload limit.
+ *
+ * Plots with geometries the profile does not allow are returned in `rejected`;
+ * callers should not submit a partial export.
+ */
+export function exportEUISGeoJSON(geojson: unknown, context: EUISExportContext): EUISExportResult {
+  const validation = validateGeoJSON(geojson);
+  if (validation.errors.length > 0) {
+    return { files: [], rejected: [], errors: validation.errors };
+  }
+
+  const maxFileBytes = context.maxFileBytes ?? EU_IS_MAX_FILE_BYTES;
+  const fallbackCountry = countryCodeOf(context.producerCountry);
+  const rejected: EUISExportRejection[] = [];
+  const byCommodity = new Map<string, string[]>();
+
+  extractFeatures(geojson)!.forEach((feature, index) => {
+    const properties = (feature && typeof feature.properties === 'object' && feature.properties) || {};
+    const plotId = productionPlaceIdOf(feature, index);
+    const geometryType = typeof feature?.geometry?.type === 'string' ? feature.geometry.type : null;
+    const reasons = validation.plots[index].issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => issue.details || issue.message);
+
+    const geometry = reasons.length === 0 ? roundGeometry(feature.geometry) : null;
+    if (reasons.length === 0 && !geometry) {
+      reasons.push(`Geometry collapses when rounded to ${COORDINATE_DECIMALS} decimals`);
+    }
+
+    const producerCountry = countryCodeOf(properties.ProducerCountry ?? properties.producerCountry ?? properties.country)
+      ?? fallbackCountry;
+    if (!producerCountry) {
+      reasons.push('Producer country is unknown; set a ProducerCountry ISO 3166-1 alpha-2 code');
+    }
+
+    if (reasons.length > 0) {
+      rejected.push({ plotId, geometryType, reasons });
+      return;
+    }
+
+    const profileProperties: Record<string, string | number> = {
+      ProducerName: String(properties.ProducerName ?? properties.producerName ?? properties.name ?? context.producerName ?? ''),
+      ProducerCountry: producerCountry!,
+      ProductionPlace: plotId,
+    };
+    const declaredArea = parseDeclaredHectares(properties.Area ?? properties.area);
+    if ((geometryType === 'Point' || geometryType === 'MultiPoint') && declaredArea !== undefined) {
+      profileProperties.Area = declaredArea;
+    }
+
+    const commodity = String(properties.Commodity ?? properties.commodity ?? properties.hsCode ?? context.commodity);
+    const serialized = JSON.stringify({ type: 'Feature', properties: profileProperties, geometry });
+    byCommodity.set(commodity, [...(byCommodity.get(commodity) ?? []), serialized]);
+  });
+
+  if (rejected.length > 0) {
+    return { files: [], rejected, errors: [] };
+  }
+
+  const files: EUISExportFile[] = [];
+  const errors: string[] = [];
+  byCommodity.forEach((features, commodity) => {
+    const parts = splitFeatures(features, maxFileBytes);
+    if (!parts) {
+      errors.push(`A single plot of commodity ${commodity} exceeds the ${formatBytes(maxFileBytes)} file limit`);
+      return;
+    }
+    parts.forEach((part, partIndex) => {
+      const suffix = parts.length > 1 ? `-part-${partIndex + 1}` : '';
+      const content = featureCollection(part);
+      files.push({
+        fileName: `declaration-${context.declarationId}-${slugOf(commodity)}${suffix}.geojson`,
+        commodity,
+        featureCount: part.length,
+        bytes: Buffer.byteLength(content),
+        content,
+      });
+    });
+  });
+
+  return { files: errors.length > 0 ? [] : files, rejected, errors };
+}
+
+function featureCollection(features: string[]): string {
+  return `{"type":"FeatureCollection","features":[${features.join(',')}]}`;
+}
+
+// Pack serialized features into as few collections as fit the limit; null if one feature alone is too large
+function splitFeatures(features: string[], maxBytes: number): string[][] | null {
+  const overhead = Buffer.byteLength(featureCollection([]));
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let currentBytes = overhead;
+
+  for (const feature of features) {
+    const bytes = Buffer.byteLength(feature);
+    if (overhead + bytes > maxBytes) return null;
+
+    let separator = current.length > 0 ? 1 : 0;
+    if (currentBytes + separator + bytes > maxBytes) {
+      parts.push(current);
+      current = [];
+      currentBytes = overhead;
+      separator = 0;
+    }
+    current.push(feature);
+    currentBytes += separator + bytes;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+// Round to the profile's precision and drop altitudes; null when a ring degenerates
+function roundGeometry(geometry: any): any | null {
+  const roundPosition = (position: Position): Position => [round(position[0]), round(position[1])];
+
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: roundPosition(geometry.coordinates) };
+    case 'MultiPoint':
+      return { type: 'MultiPoint', coordinates: geometry.coordinates.map(roundPosition) };
+    case 'Polygon': {
+      const rings = roundPolygon(geometry.coordinates, roundPosition);
+      return rings ? { type: 'Polygon', coordinates: rings } : null;
+    }
+    case 'MultiPolygon': {
+      const polygons = geometry.coordinates.map((polygon: Position[][]) => roundPolygon(polygon, roundPosition));
+      return polygons.every(Boolean) ? { type: 'MultiPolygon', coordinates: polygons } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function roundPolygon(rings: Position[][], roundPosition: (position: Position) => Position): Position[][] | null {
+  const rounded = rings.map(ring => ring.map(roundPosition).filter((position, i, all) =>
+    i === 0 || position[0] !== all[i - 1][0] || position[1] !== all[i - 1][1]
+  ));
+  return rounded.every(ring => ring.length >= 4) ? rounded : null;
+}
+
+function round(value: number): number {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+let countryCodes: Map<string, string> | null = null;
+
+// ISO 3166-1 alpha-2 code for a code or an English country name
+export function countryCodeOf(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const trimmed = value.trim();
+
+  if (!countryCodes) {
+    countryCodes = new Map();
+    const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+    for (let first = 65; first <= 90; first++) {
+      for (let second = 65; second <= 90; second++) {
+        const code = String.fromCharCode(first, second);
+        const name = regionNames.of(code);
+        if (name && name !== code && name !== 'Unknown Region') {
+          countryCodes.set(code, code);
+          countryCodes.set(normaliseCountryName(name), code);
+        }
+      }
+    }
+  }
+
+  return countryCodes.get(trimmed.length === 2 ? trimmed.toUpperCase() : normaliseCountryName(trimmed));
+}
+
+function normaliseCountryName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[’']/g, "'").toLowerCase();
+}
+
+function slugOf(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'commodity';
+}
+
+function formatBytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
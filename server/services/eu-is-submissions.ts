@@ -0,0 +1,277 @@
+import { Declaration, DeclarationVersion, EUISSubmission } from '@shared/schema';
+import { lifecycleStateOf } from '@shared/declaration-lifecycle';
+import { storage } from '../storage';
+import { DueDiligenceStatement, loadDDS } from './dds';
+import { snapshotOfVersion } from './declaration-versions';
+import { countryCodeOf, exportEUISGeoJSON } from './eu-is-export';
+import {
+  EUISError,
+  EUISProducer,
+  EUISStatement,
+  findStatementsByInternalReference,
+  getStatementInfo,
+  submitStatement,
+} from './eu-is';
+
+const POLL_INTERVAL_MS = Number(process.env.EU_IS_POLL_INTERVAL_MS) || 30000;
+// Submissions still unregistered after this many polls are given up on
+const MAX_POLL_ATTEMPTS = 240;
+// Claims older than this without a recorded outcome are looked up in the EU-IS;
+// well above the EU-IS request timeout so calls still in flight are left alone
+const UNCONFIRMED_AFTER_MS = 5 * 60 * 1000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Submit the DDS of a sealed declaration version to the EU-IS and record the
+ * submission. Geolocation that cannot be exported is refused before anything
+ * is sent. The submission is claimed before the call, so undefined means
+ * another one is already in flight or awaiting registration. A call the EU-IS
+ * refused releases the claim; when the outcome is unknown (a timeout, or the
+ * EU-IS unreachable) the claim is kept for the poller to reconcile. Either
+ * error is rethrown.
+ */
+export async function submitDeclarationToEUIS(
+  declaration: Declaration,
+  version: DeclarationVersion,
+  submittedBy: number
+): Promise<EUISSubmission | undefined> {
+  const dds = await loadDDS(declaration, version);
+  const statement = statementOf(dds, snapshotOfVersion(version).geojsonData);
+
+  const claimed = await storage.claimEUISSubmission({
+    declarationId: declaration.id,
+    declarationVersion: version.version,
+    internalReferenceNumber: statement.internalReferenceNumber,
+    payload: dds,
+    submittedBy,
+  });
+  if (!claimed) return undefined;
+
+  let ddsIdentifier: string;
+  try {
+    ddsIdentifier = await submitStatement(statement);
+  } catch (error) {
+    if (error instanceof EUISError && !error.retryable) {
+      await storage.updateEUISSubmission(claimed.id, { status: 'failed', errorMessage: error.message });
+      await storage.updateDeclaration(declaration.id, { ddsStatus: 'failed' });
+    } else {
+      // The EU-IS may have accepted the statement; resubmitting could file it twice
+      await storage.updateEUISSubmission(claimed.id, {
+        errorMessage: error instanceof EUISError ? error.message : 'The submission to the EU-IS could not be completed',
+      });
+    }
+    throw error;
+  }
+
+  const submission = await storage.updateEUISSubmission(claimed.id, { ddsIdentifier, status: 'submitted' });
+  await storage.updateDeclaration(declaration.id, { ddsStatus: 'submitted' });
+  return submission ?? claimed;
+}
+
+/**
+ * Ask the EU-IS for the status of every pending submission. Registered
+ * statements store their reference and verification numbers on the
+ * declaration and mark an approved declaration as filed. Claims whose outcome
+ * was never recorded are first looked up by their internal reference number.
+ */
+export async function pollEUISSubmissions(): Promise<void> {
+  for (const submission of await storage.listUnconfirmedEUISSubmissions(new Date(Date.now() - UNCONFIRMED_AFTER_MS))) {
+    try {
+      await reconcileSubmission(submission);
+    } catch (error) {
+      console.error(`Error reconciling EU-IS submission ${submission.id}:`, error);
+      await recordPoll(submission);
+    }
+  }
+
+  for (const submission of await storage.listPendingEUISSubmissions()) {
+    try {
+      const info = await getStatementInfo(submission.ddsIdentifier!);
+      if (info.status === 'AVAILABLE') {
+        await registerSubmission(submission, info.referenceNumber, info.verificationNumber);
+      } else if (info.status !== 'SUBMITTED') {
+        await rejectSubmission(submission, info.rejectionReason || `The EU-IS reports the statement as ${info.status.toLowerCase()}`);
+      } else {
+        await recordPoll(submission);
+      }
+    } catch (error) {
+      if (error instanceof EUISError && !error.retryable) {
+        await rejectSubmission(submission, error.message, 'failed');
+      } else {
+        console.error(`Error polling EU-IS submission ${submission.id}:`, error);
+        await recordPoll(submission);
+      }
+    }
+  }
+}
+
+/**
+ * Start polling pending EU-IS submissions. Safe to call more than once.
+ */
+export function startEUISPoller() {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => {
+    if (polling) return;
+    polling = true;
+    pollEUISSubmissions()
+      .catch(error => console.error('EU-IS poller error:', error))
+      .finally(() => {
+        polling = false;
+      });
+  }, POLL_INTERVAL_MS);
+}
+
+export function stopEUISPoller() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+// EU-IS statement for a DDS: every item lists the producers of all plots
+function statementOf(dds: DueDiligenceStatement, geojson: unknown): EUISStatement {
+  if (!geojson) {
+    throw new EUISError('The declaration has no geolocation to submit');
+  }
+
+  const exported = exportEUISGeoJSON(geojson, {
+    declarationId: dds.declaration.id,
+    commodity: dds.commodities[0]?.hsCode || dds.commodities[0]?.description || '',
+    producerName: dds.supplier?.name,
+    producerCountry: dds.supplier?.country ?? undefined,
+  });
+  if (exported.errors.length > 0 || exported.rejected.length > 0) {
+    const rejected = exported.rejected[0];
+    throw new EUISError(exported.errors[0] || `${rejected.plotId}: ${rejected.reasons[0]}`);
+  }
+
+  // One producer per country, each with the plots produced there
+  const featuresByCountry = new Map<string, any[]>();
+  for (const file of exported.files) {
+    for (const feature of JSON.parse(file.content).features) {
+      const country = feature.properties.ProducerCountry;
+      featuresByCountry.set(country, [...(featuresByCountry.get(country) ?? []), feature]);
+    }
+  }
+  const producers: EUISProducer[] = Array.from(featuresByCountry.entries()).map(([country, features]) => ({
+    country,
+    name: features[0].properties.ProducerName || dds.supplier?.name || '',
+    geometryGeojson: JSON.stringify({ type: 'FeatureCollection', features }),
+  }));
+
+  const missingHsCode = dds.commodities.find(commodity => !commodity.hsCode);
+  if (missingHsCode) {
+    throw new EUISError(`${missingHsCode.description} has no HS code`);
+  }
+
+  const inbound = dds.declaration.type === 'inbound';
+  return {
+    operatorType: inbound ? 'OPERATOR' : 'TRADER',
+    activityType: inbound ? 'IMPORT' : 'TRADE',
+    internalReferenceNumber: dds.declaration.internalReference,
+    countryOfActivity: countryCodeOf(dds.operator?.country) ?? null,
+    commodities: dds.commodities.map(commodity => ({
+      hsHeading: commodity.hsCode!,
+      descriptionOfGoods: commodity.description,
+      netWeightKg: commodity.netMassKg,
+      scientificName: commodity.scientificName,
+      producers,
+    })),
+    associatedStatements: dds.referencedStatements,
+  };
+}
+
+// A claimed submission is pending if the EU-IS holds a statement under its
+// internal reference number, and is released for a new attempt if not
+async function reconcileSubmission(submission: EUISSubmission) {
+  const statements = submission.internalReferenceNumber
+    ? await findStatementsByInternalReference(submission.internalReferenceNumber)
+    : [];
+  const statement = statements[statements.length - 1];
+  if (!statement) {
+    await rejectSubmission(submission, 'The EU-IS has no record of the statement; it can be submitted again', 'failed');
+    return;
+  }
+
+  await storage.updateEUISSubmission(submission.id, {
+    status: 'submitted',
+    ddsIdentifier: statement.identifier,
+    errorMessage: null,
+    pollAttempts: submission.pollAttempts + 1,
+    lastPolledAt: new Date(),
+  });
+  await storage.updateDeclaration(submission.declarationId, { ddsStatus: 'submitted' });
+}
+
+async function registerSubmission(submission: EUISSubmission, referenceNumber: string | null, verificationNumber: string | null) {
+  await storage.updateEUISSubmission(submission.id, {
+    status: 'available',
+    referenceNumber,
+    verificationNumber,
+    pollAttempts: submission.pollAttempts + 1,
+    lastPolledAt: new Date(),
+  });
+  await storage.updateDeclaration(submission.declarationId, {
+    eudrReferenceNumber: referenceNumber,
+    eudrVerificationNumber: verificationNumber,
+    ddsStatus: 'available',
+  });
+
+  const declaration = await storage.getDeclaration(submission.declarationId);
+  if (declaration && lifecycleStateOf(declaration.status) === 'approved') {
+    await storage.transitionDeclaration(declaration.id, declaration.status, {
+      declarationId: declaration.id,
+      action: 'file',
+      fromStatus: 'approved',
+      toStatus: 'filed',
+      actorId: submission.submittedBy,
+      actorRole: null,
+      reason: `Registered in the EU-IS as ${referenceNumber}`,
+    });
+  }
+
+  await storage.createActivity({
+    type: 'declaration',
+    description: `Due diligence statement registered in the EU-IS with reference number ${referenceNumber}`,
+    userId: submission.submittedBy,
+    entityType: 'declaration',
+    entityId: submission.declarationId,
+    metadata: { submissionId: submission.id, referenceNumber, verificationNumber },
+    tenantEntityId: declaration?.entityId,
+  });
+}
+
+async function rejectSubmission(submission: EUISSubmission, reason: string, status = 'rejected') {
+  await storage.updateEUISSubmission(submission.id, {
+    status,
+    errorMessage: reason,
+    pollAttempts: submission.pollAttempts + 1,
+    lastPolledAt: new Date(),
+  });
+  await storage.updateDeclaration(submission.declarationId, { ddsStatus: status });
+
+  const declaration = await storage.getDeclaration(submission.declarationId);
+  await storage.createActivity({
+    type: 'declaration',
+    description: `Due diligence statement was not registered in the EU-IS: ${reason}`,
+    userId: submission.submittedBy,
+    entityType: 'declaration',
+    entityId: submission.declarationId,
+    metadata: { submissionId: submission.id, ddsIdentifier: submission.ddsIdentifier },
+    tenantEntityId: declaration?.entityId,
+  });
+}
+
+async function recordPoll(submission: EUISSubmission) {
+  if (submission.pollAttempts + 1 >= MAX_POLL_ATTEMPTS) {
+    await rejectSubmission(submission, 'The EU-IS did not register the statement in time; check its status in TRACES', 'failed');
+    return;
+  }
+  await storage.updateEUISSubmission(submission.id, {
+    pollAttempts: submission.pollAttempts + 1,
+    lastPolledAt: new Date(),
+  });
+}
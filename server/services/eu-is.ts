@@ -0,0 +1,249 @@
+import axios from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import { DOMParser } from '@xmldom/xmldom';
+import { EUReferencePair } from './mass-balance';
+
+// SOAP client for the EU Information System (TRACES NT) DDS services. The
+// endpoint defaults to the local mock server (npm run eu-is:mock).
+const EU_IS_ENDPOINT = (process.env.EU_IS_ENDPOINT || 'http://localhost:4010/tracesnt/ws').replace(/\/$/, '');
+const EU_IS_USERNAME = process.env.EU_IS_USERNAME || 'mock-operator';
+const EU_IS_AUTH_KEY = process.env.EU_IS_AUTH_KEY || 'mock-auth-key';
+const EU_IS_CLIENT_ID = process.env.EU_IS_CLIENT_ID || 'eudr-test';
+const REQUEST_TIMEOUT_MS = 30000;
+
+export const EU_IS_SERVICES = {
+  submission: 'EUDRSubmissionServiceV1',
+  retrieval: 'EUDRRetrievalServiceV1',
+};
+
+export const EU_IS_NAMESPACES = {
+  soap: 'http://schemas.xmlsoap.org/soap/envelope/',
+  wsse: 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd',
+  wsu: 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd',
+  base: 'http://ec.europa.eu/sanco/tracesnt/base/v4',
+  submission: 'http://ec.europa.eu/tracesnt/certificate/eudr/submission/v1',
+  retrieval: 'http://ec.europa.eu/tracesnt/certificate/eudr/retrieval/v1',
+  model: 'http://ec.europa.eu/tracesnt/certificate/eudr/model/v1',
+};
+
+const PASSWORD_DIGEST_TYPE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest';
+const BASE64_ENCODING_TYPE = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary';
+
+// Statuses the EU-IS reports for a submitted DDS
+export type EUISStatementStatus = 'SUBMITTED' | 'AVAILABLE' | 'REJECTED' | 'CANCELLED' | 'WITHDRAWN' | 'ARCHIVED';
+
+/**
+ * A failed EU-IS call. Transport problems are retryable; SOAP faults (the
+ * EU-IS refused the request) are not.
+ */
+export class EUISError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable = false) {
+    super(message);
+    this.name = 'EUISError';
+    this.retryable = retryable;
+  }
+}
+
+export interface EUISProducer {
+  country: string; // ISO 3166-1 alpha-2
+  name: string;
+  geometryGeojson: string; // EU-IS profile FeatureCollection
+}
+
+export interface EUISCommodity {
+  hsHeading: string;
+  descriptionOfGoods: string;
+  netWeightKg: number | null;
+  scientificName: string | null;
+  producers: EUISProducer[];
+}
+
+export interface EUISStatement {
+  operatorType: 'OPERATOR' | 'TRADER';
+  activityType: 'IMPORT' | 'EXPORT' | 'DOMESTIC' | 'TRADE';
+  internalReferenceNumber: string;
+  countryOfActivity: string | null;
+  commodities: EUISCommodity[];
+  associatedStatements: EUReferencePair[];
+}
+
+export interface EUISStatementInfo {
+  identifier: string;
+  status: EUISStatementStatus;
+  referenceNumber: string | null;
+  verificationNumber: string | null;
+  rejectionReason: string | null;
+}
+
+/**
+ * Submit a DDS; returns the identifier the EU-IS assigned to it. Reference and
+ * verification numbers follow once the statement becomes available.
+ */
+export async function submitStatement(statement: EUISStatement): Promise<string> {
+  const body = `<sub:SubmitStatementRequest xmlns:sub="${EU_IS_NAMESPACES.submission}" xmlns:m="${EU_IS_NAMESPACES.model}">
+  <sub:operatorType>${statement.operatorType}</sub:operatorType>
+  <sub:statement>
+    <m:internalReferenceNumber>${escapeXml(statement.internalReferenceNumber)}</m:internalReferenceNumber>
+    <m:activityType>${statement.activityType}</m:activityType>
+    ${statement.countryOfActivity ? `<m:countryOfActivity>${statement.countryOfActivity}</m:countryOfActivity>` : ''}
+    ${statement.commodities.map(commodityXml).join('\n    ')}
+    <m:geoLocationConfidential>false</m:geoLocationConfidential>
+    ${statement.associatedStatements.map(pair => `<m:associatedStatements>
+      <m:referenceNumber>${escapeXml(pair.referenceNumber)}</m:referenceNumber>
+      <m:verificationNumber>${escapeXml(pair.verificationNumber)}</m:verificationNumber>
+    </m:associatedStatements>`).join('\n    ')}
+  </sub:statement>
+</sub:SubmitStatementRequest>`;
+
+  const response = await call(EU_IS_SERVICES.submission, 'submitDds', body);
+  const identifier = textOf(response, 'ddsIdentifier');
+  if (!identifier) {
+    throw new EUISError('The EU-IS response has no DDS identifier');
+  }
+  return identifier;
+}
+
+/**
+ * Current status of a submitted DDS.
+ */
+export async function getStatementInfo(identifier: string): Promise<EUISStatementInfo> {
+  const body = `<ret:GetDdsInfoRequest xmlns:ret="${EU_IS_NAMESPACES.retrieval}">
+  <ret:identifier>${escapeXml(identifier)}</ret:identifier>
+</ret:GetDdsInfoRequest>`;
+
+  const response = await call(EU_IS_SERVICES.retrieval, 'getDdsInfo', body);
+  const status = textOf(response, 'status') as EUISStatementStatus | null;
+  if (!status) {
+    throw new EUISError(`The EU-IS returned no status for DDS ${identifier}`);
+  }
+  return {
+    identifier,
+    status,
+    referenceNumber: textOf(response, 'referenceNumber'),
+    verificationNumber: textOf(response, 'verificationNumber'),
+    rejectionReason: textOf(response, 'rejectionReason'),
+  };
+}
+
+/**
+ * Statements submitted under an internal reference number, for finding out
+ * whether a submission whose outcome is unknown reached the EU-IS.
+ */
+export async function findStatementsByInternalReference(internalReferenceNumber: string): Promise<EUISStatementInfo[]> {
+  const body = `<ret:GetDdsInfoByInternalReferenceNumberRequest xmlns:ret="${EU_IS_NAMESPACES.retrieval}">
+  <ret:internalReferenceNumber>${escapeXml(internalReferenceNumber)}</ret:internalReferenceNumber>
+</ret:GetDdsInfoByInternalReferenceNumberRequest>`;
+
+  const response = await call(EU_IS_SERVICES.retrieval, 'getDdsInfoByInternalReferenceNumber', body);
+  return Array.from(response.getElementsByTagNameNS('*', 'statementInfo')).flatMap(info => {
+    const identifier = textOf(info, 'identifier');
+    const status = textOf(info, 'status') as EUISStatementStatus | null;
+    return identifier && status
+      ? [{
+          identifier,
+          status,
+          referenceNumber: textOf(info, 'referenceNumber'),
+          verificationNumber: textOf(info, 'verificationNumber'),
+          rejectionReason: textOf(info, 'rejectionReason'),
+        }]
+      : [];
+  });
+}
+
+/**
+ * WS-Security UsernameToken digest: Base64(SHA-1(nonce + created + auth key)).
+ */
+export function passwordDigest(nonce: Buffer, created: string, authKey: string): string {
+  return createHash('sha1').update(Buffer.concat([nonce, Buffer.from(created + authKey)])).digest('base64');
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// First element with this local name, in any namespace
+export function textOf(document: Document | Element, localName: string): string | null {
+  const element = document.getElementsByTagNameNS('*', localName)[0];
+  const text = element?.textContent?.trim();
+  return text ? text : null;
+}
+
+function commodityXml(commodity: EUISCommodity): string {
+  return `<m:commodities>
+      <m:descriptors>
+        <m:descriptionOfGoods>${escapeXml(commodity.descriptionOfGoods)}</m:descriptionOfGoods>
+        <m:goodsMeasure>${commodity.netWeightKg !== null ? `<m:netWeight>${commodity.netWeightKg}</m:netWeight>` : ''}</m:goodsMeasure>
+      </m:descriptors>
+      <m:hsHeading>${escapeXml(commodity.hsHeading)}</m:hsHeading>
+      ${commodity.scientificName ? `<m:speciesInfo><m:scientificName>${escapeXml(commodity.scientificName)}</m:scientificName></m:speciesInfo>` : ''}
+      ${commodity.producers.map(producer => `<m:producers>
+        <m:country>${producer.country}</m:country>
+        <m:name>${escapeXml(producer.name)}</m:name>
+        <m:geometryGeojson>${Buffer.from(producer.geometryGeojson).toString('base64')}</m:geometryGeojson>
+      </m:producers>`).join('\n      ')}
+    </m:commodities>`;
+}
+
+function envelope(body: string): string {
+  const created = new Date().toISOString();
+  const expires = new Date(Date.now() + 60 * 1000).toISOString();
+  const nonce = randomBytes(16);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<soapenv:Envelope xmlns:soapenv="${EU_IS_NAMESPACES.soap}" xmlns:base="${EU_IS_NAMESPACES.base}">
+<soapenv:Header>
+  <wsse:Security soapenv:mustUnderstand="1" xmlns:wsse="${EU_IS_NAMESPACES.wsse}" xmlns:wsu="${EU_IS_NAMESPACES.wsu}">
+    <wsu:Timestamp><wsu:Created>${created}</wsu:Created><wsu:Expires>${expires}</wsu:Expires></wsu:Timestamp>
+    <wsse:UsernameToken>
+      <wsse:Username>${escapeXml(EU_IS_USERNAME)}</wsse:Username>
+      <wsse:Password Type="${PASSWORD_DIGEST_TYPE}">${passwordDigest(nonce, created, EU_IS_AUTH_KEY)}</wsse:Password>
+      <wsse:Nonce EncodingType="${BASE64_ENCODING_TYPE}">${nonce.toString('base64')}</wsse:Nonce>
+      <wsu:Created>${created}</wsu:Created>
+    </wsse:UsernameToken>
+  </wsse:Security>
+  <base:WebServiceClientId>${escapeXml(EU_IS_CLIENT_ID)}</base:WebServiceClientId>
+</soapenv:Header>
+<soapenv:Body>
+${body}
+</soapenv:Body>
+</soapenv:Envelope>`;
+}
+
+async function call(service: string, action: string, body: string): Promise<Document> {
+  let response;
+  try {
+    response = await axios.post(`${EU_IS_ENDPOINT}/${service}`, envelope(body), {
+      headers: { 'Content-Type': 'text/xml; charset=utf-8', SOAPAction: action },
+      timeout: REQUEST_TIMEOUT_MS,
+      responseType: 'text',
+      validateStatus: () => true,
+      maxBodyLength: Infinity,
+    });
+  } catch (error) {
+    throw new EUISError(`The EU-IS is unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+  }
+
+  const document = typeof response.data === 'string' && response.data.trim().startsWith('<')
+    ? new DOMParser({ errorHandler: { warning: () => undefined, error: () => undefined } })
+        .parseFromString(response.data, 'text/xml') as unknown as Document
+    : null;
+
+  const fault = document?.getElementsByTagNameNS('*', 'Fault')[0];
+  if (fault) {
+    throw new EUISError(textOf(fault, 'faultstring') || 'The EU-IS rejected the request');
+  }
+  if (response.status >= 500) {
+    throw new EUISError(`The EU-IS responded with HTTP ${response.status}`, true);
+  }
+  if (response.status >= 400 || !document) {
+    throw new EUISError(`The EU-IS responded with HTTP ${response.status}`);
+  }
+  return document;
+}
@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import { fromFile } from 'geotiff';
+import {
+  BBox,
+  bboxIntersects,
+  bboxOf,
+  cellAreaM2,
+  inBBox,
+  pointInPolygons,
+  PolygonRings,
+  polygonsOf,
+  unionBBox,
+} from './geo-utils';
+
+type Position = number[];
+
+/**
+ * A loaded forest-loss dataset. Years are calendar years of canopy loss;
+ * only loss in years after `cutoffYear` is reported.
+ */
+export interface ForestLossSource {
+  name: string;
+  covers(bbox: BBox): boolean;
+  lossHectares(polygons: PolygonRings[], bbox: BBox, cutoffYear: number): Promise<number>;
+  lossAtPoint(position: Position, cutoffYear: number): Promise<boolean>;
+}
+
+export type ForestLossLoader = (filePath: string) => Promise<ForestLossSource>;
+
+const loaders = new Map<string, ForestLossLoader>();
+
+// Vector datasets are sampled on a grid of this many cells per axis over the plot
+const VECTOR_SAMPLE_GRID = 128;
+
+/**
+ * Register a loader for dataset files with the given extensions (e.g. ".geojson").
+ */
+export function registerForestLossLoader(extensions: string[], loader: ForestLossLoader) {
+  extensions.forEach(extension => loaders.set(extension.toLowerCase(), loader));
+}
+
+/**
+ * Load every dataset file in a directory that has a registered loader.
+ * Files that fail to load are logged and skipped.
+ */
+export async function loadForestLossSources(directory: string): Promise<ForestLossSource[]> {
+  if (!fs.existsSync(directory)) return [];
+
+  const sources: ForestLossSource[] = [];
+  for (const file of fs.readdirSync(directory).sort()) {
+    const loader = loaders.get(path.extname(file).toLowerCase());
+    if (!loader) continue;
+    try {
+      sources.push(await loader(path.join(directory, file)));
+    } catch (error) {
+      console.error(`Error loading forest-loss dataset ${file}:`, error);
+    }
+  }
+  return sources;
+}
+
+/**
+ * Forest-loss polygons in a GeoJSON FeatureCollection. Each feature needs a
+ * `lossYear` property (or a `lossDate` ISO date); features without one are skipped.
+ */
+async function loadGeoJSONSource(filePath: string): Promise<ForestLossSource> {
+  const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new Error('Forest-loss GeoJSON must be a FeatureCollection');
+  }
+
+  const areas = data.features.flatMap((feature: any) => {
+    const year = lossYearOf(feature?.properties ?? {});
+    const polygons = polygonsOf(feature?.geometry);
+    if (year === undefined || polygons.length === 0) return [];
+    return [{ year, polygons, bbox: bboxOf(polygons.flat(2)) }];
+  }) as { year: number; polygons: PolygonRings[]; bbox: BBox }[];
+
+  const extent = areas.length > 0 ? unionBBox(areas.map(area => area.bbox)) : undefined;
+  const lossAt = (position: Position, cutoffYear: number) => areas.some(area =>
+    area.year > cutoffYear && inBBox(position, area.bbox) && pointInPolygons(position, area.polygons)
+  );
+
+  return {
+    name: path.basename(filePath),
+    covers: bbox => !!extent && bboxIntersects(bbox, extent),
+    async lossHectares(polygons, bbox, cutoffYear) {
+      const stepLon = (bbox.maxLon - bbox.minLon) / VECTOR_SAMPLE_GRID;
+      const stepLat = (bbox.maxLat - bbox.minLat) / VECTOR_SAMPLE_GRID;
+      if (stepLon <= 0 || stepLat <= 0) return 0;
+
+      let lossM2 = 0;
+      for (let row = 0; row < VECTOR_SAMPLE_GRID; row++) {
+        const lat = bbox.minLat + (row + 0.5) * stepLat;
+        for (let col = 0; col < VECTOR_SAMPLE_GRID; col++) {
+          const position = [bbox.minLon + (col + 0.5) * stepLon, lat];
+          if (pointInPolygons(position, polygons) && lossAt(position, cutoffYear)) {
+            lossM2 += cellAreaM2(lat, stepLon, stepLat);
+          }
+        }
+      }
+      return lossM2 / 10000;
+    },
+    async lossAtPoint(position, cutoffYear) {
+      return lossAt(position, cutoffYear);
+    },
+  };
+}
+
+/**
+ * Single-band GeoTIFF tile in EPSG:4326 whose pixel values are loss years,
+ * either as offsets from 2000 (Hansen Global Forest Change "lossyear") or as
+ * full calendar years. Zero and nodata mean no loss.
+ */
+async function loadGeoTIFFSource(filePath: string): Promise<ForestLossSource> {
+  const tiff = await fromFile(filePath);
+  const image = await tiff.getImage();
+
+  // GTModelTypeGeoKey 2 = geographic latitude/longitude
+  const modelType = (image.getGeoKeys() as any)?.GTModelTypeGeoKey;
+  if (modelType !== undefined && modelType !== 2) {
+    throw new Error('Forest-loss GeoTIFF tiles must use geographic (EPSG:4326) coordinates');
+  }
+
+  const [originLon, minLat, maxLon, originLat] = image.getBoundingBox();
+  const [resLon, resLatSigned] = image.getResolution();
+  const resLat = Math.abs(resLatSigned);
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const noData = image.getGDALNoData();
+  const extent: BBox = { minLon: originLon, minLat, maxLon, maxLat: originLat };
+
+  const readWindow = async (x0: number, y0: number, x1: number, y1: number) => {
+    const rasters = await image.readRasters({ window: [x0, y0, x1, y1], samples: [0] });
+    return (rasters as any)[0] as ArrayLike<number>;
+  };
+  const isLoss = (value: number, cutoffYear: number) => {
+    if (value === noData) return false;
+    const year = rasterLossYear(value);
+    return year !== undefined && year > cutoffYear;
+  };
+
+  return {
+    name: path.basename(filePath),
+    covers: bbox => bboxIntersects(bbox, extent),
+    async lossHectares(polygons, bbox, cutoffYear) {
+      const x0 = clamp(Math.floor((bbox.minLon - originLon) / resLon), 0, width);
+      const x1 = clamp(Math.ceil((bbox.maxLon - originLon) / resLon), 0, width);
+      const y0 = clamp(Math.floor((originLat - bbox.maxLat) / resLat), 0, height);
+      const y1 = clamp(Math.ceil((originLat - bbox.minLat) / resLat), 0, height);
+      if (x1 <= x0 || y1 <= y0) return 0;
+
+      const values = await readWindow(x0, y0, x1, y1);
+      const windowWidth = x1 - x0;
+      let lossM2 = 0;
+      for (let y = y0; y < y1; y++) {
+        const lat = originLat - (y + 0.5) * resLat;
+        for (let x = x0; x < x1; x++) {
+          const value = values[(y - y0) * windowWidth + (x - x0)];
+          if (!isLoss(value, cutoffYear)) continue;
+          if (pointInPolygons([originLon + (x + 0.5) * resLon, lat], polygons)) {
+            lossM2 += cellAreaM2(lat, resLon, resLat);
+          }
+        }
+      }
+      return lossM2 / 10000;
+    },
+    async lossAtPoint(position, cutoffYear) {
+      if (!inBBox(position, extent)) return false;
+      const x = clamp(Math.floor((position[0] - originLon) / resLon), 0, width - 1);
+      const y = clamp(Math.floor((originLat - position[1]) / resLat), 0, height - 1);
+      const values = await readWindow(x, y, x + 1, y + 1);
+      return isLoss(values[0], cutoffYear);
+    },
+  };
+}
+
+registerForestLossLoader(['.geojson', '.json'], loadGeoJSONSource);
+registerForestLossLoader(['.tif', '.tiff'], loadGeoTIFFSource);
+
+function lossYearOf(properties: Record<string, any>): number | undefined {
+  const year = Number(properties.lossYear ?? properties.lossyear ?? properties.loss_year);
+  if (Number.isFinite(year) && year > 0) return year < 100 ? 2000 + year : year;
+
+  const date = properties.lossDate ?? properties.loss_date;
+  if (date) {
+    const parsed = new Date(date);
+    if (!isNaN(parsed.getTime())) return parsed.getUTCFullYear();
+  }
+  return undefined;
+}
+
+function rasterLossYear(value: number): number | undefined {
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+  return value < 100 ? 2000 + value : value;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,330 @@
+import path from 'path';
+import JSZip from 'jszip';
+import proj4 from 'proj4';
+import * as shapefile from 'shapefile';
+import { DOMParser } from '@xmldom/xmldom';
+import { gpx, kml } from '@tmcw/togeojson';
+import { GEO_FILE_EXTENSIONS, GeoFileConversionResult } from '@shared/geojson-validation';
+import { extractFeatures } from './geojson-validation';
+import { distanceMetres } from './geo-utils';
+
+type Position = number[];
+type Reprojection = (position: Position) => Position;
+
+// Lines and GPS tracks ending this close to their start are read as walked plot boundaries
+const CLOSED_LINE_TOLERANCE_M = 50;
+
+// Styling properties added by KML/GPX conversion that carry no plot information
+const STYLE_PROPERTIES = [
+  'styleUrl', 'styleHash', 'styleMapHash', 'stroke', 'stroke-opacity', 'stroke-width',
+  'fill', 'fill-opacity', 'icon', 'icon-scale', 'icon-opacity', 'icon-color', 'icon-offset',
+  'icon-offset-units', 'label-scale', 'label-color', 'label-opacity', '_gpxType',
+];
+
+/**
+ * A file that cannot be converted; the message is shown to the user.
+ */
+export class GeoFileConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoFileConversionError';
+  }
+}
+
+/**
+ * Convert an uploaded GeoJSON, KML, KMZ, zipped Shapefile or GPX file to a
+ * FeatureCollection of WGS84 points and polygons. Projected data is
+ * reprojected when its CRS is known (a Shapefile .prj or a GeoJSON crs member).
+ */
+export async function convertGeoFile(fileName: string, data: Buffer): Promise<GeoFileConversionResult> {
+  const extension = path.extname(fileName).toLowerCase();
+  const format = GEO_FILE_EXTENSIONS[extension];
+  if (!format) {
+    throw new GeoFileConversionError(
+      `Unsupported file type "${extension || fileName}". Upload GeoJSON, KML, KMZ, a zipped Shapefile or GPX.`
+    );
+  }
+
+  const warnings: string[] = [];
+  let features: any[];
+  switch (format) {
+    case 'geojson':
+      features = readGeoJSON(data, warnings);
+      break;
+    case 'kml':
+      features = kml(parseXML(data.toString('utf8'), 'KML'), { skipNullGeometry: true }).features;
+      break;
+    case 'kmz':
+      features = kml(parseXML(await readKMZ(data, warnings), 'KML'), { skipNullGeometry: true }).features;
+      break;
+    case 'shapefile':
+      features = await readZippedShapefile(data, warnings);
+      break;
+    case 'gpx':
+      features = gpx(parseXML(data.toString('utf8'), 'GPX')).features;
+      break;
+  }
+
+  const plots = normalisePlots(features, warnings);
+  if (plots.length === 0) {
+    throw new GeoFileConversionError('The file does not contain any points or polygons that can be used as production plots');
+  }
+
+  return { format, geojsonData: { type: 'FeatureCollection', features: plots }, warnings };
+}
+
+function parseXML(text: string, label: string): Document {
+  const errors: string[] = [];
+  const document = new DOMParser({
+    errorHandler: {
+      warning: () => undefined,
+      error: message => errors.push(message),
+      fatalError: message => errors.push(message),
+    },
+  }).parseFromString(text, 'text/xml');
+
+  if (errors.length > 0 || !document?.documentElement) {
+    throw new GeoFileConversionError(`The ${label} file is not valid XML`);
+  }
+  return document as unknown as Document;
+}
+
+function readGeoJSON(data: Buffer, warnings: string[]): any[] {
+  let geojson: any;
+  try {
+    geojson = JSON.parse(data.toString('utf8'));
+  } catch (error) {
+    throw new GeoFileConversionError('The file could not be parsed as JSON');
+  }
+
+  const features = extractFeatures(geojson);
+  if (!features) {
+    throw new GeoFileConversionError('The file is not a GeoJSON FeatureCollection, Feature or Geometry object');
+  }
+
+  // RFC 7946 GeoJSON is always WGS84, but older files may declare a crs member
+  const crsName: unknown = geojson?.crs?.properties?.name;
+  if (typeof crsName !== 'string' || /CRS84$|EPSG:+4326$/i.test(crsName)) {
+    return features;
+  }
+
+  const epsg = crsName.match(/EPSG:+(\d+)$/i);
+  const code = epsg ? `EPSG:${epsg[1]}` : crsName;
+  if (!proj4.defs(code)) {
+    throw new GeoFileConversionError(`Coordinate reference system ${crsName} is not supported. Export the file as WGS84 (EPSG:4326).`);
+  }
+
+  warnings.push(`Coordinates were reprojected from ${code} to WGS84`);
+  return reprojectFeatures(features, proj4(code, 'WGS84').forward);
+}
+
+async function readKMZ(data: Buffer, warnings: string[]): Promise<string> {
+  const zip = await loadZip(data, 'KMZ');
+  const kmlFiles = zip.file(/\.kml$/i).filter(file => !file.name.startsWith('__MACOSX/'));
+  if (kmlFiles.length === 0) {
+    throw new GeoFileConversionError('The KMZ archive does not contain a KML file');
+  }
+
+  // Google Earth stores the main document as doc.kml
+  const main = kmlFiles.find(file => path.basename(file.name).toLowerCase() === 'doc.kml') ?? kmlFiles[0];
+  if (kmlFiles.length > 1) {
+    warnings.push(`Only ${main.name} was read from the KMZ archive; ${kmlFiles.length - 1} other KML file(s) were ignored`);
+  }
+  return main.async('string');
+}
+
+async function readZippedShapefile(data: Buffer, warnings: string[]): Promise<any[]> {
+  const zip = await loadZip(data, 'Shapefile');
+  const files = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((name, file) => {
+    if (!file.dir && !name.startsWith('__MACOSX/')) files.set(name.toLowerCase(), file);
+  });
+
+  const layers = Array.from(files.keys()).filter(name => name.endsWith('.shp')).sort();
+  if (layers.length === 0) {
+    throw new GeoFileConversionError('The zip archive does not contain a Shapefile (.shp)');
+  }
+
+  const features: any[] = [];
+  for (const shpName of layers) {
+    const base = shpName.slice(0, -'.shp'.length);
+    const layer = path.basename(files.get(shpName)!.name, path.extname(shpName));
+    const dbf = files.get(`${base}.dbf`);
+    const prj = files.get(`${base}.prj`);
+    const cpg = files.get(`${base}.cpg`);
+
+    if (!dbf) {
+      warnings.push(`Layer ${layer} has no .dbf file, so its plots have no attributes`);
+    }
+
+    const collection = await shapefile.read(
+      await files.get(shpName)!.async('uint8array'),
+      dbf ? await dbf.async('uint8array') : undefined,
+      { encoding: cpg ? (await cpg.async('string')).trim() : 'utf-8' }
+    );
+
+    let layerFeatures = collection.features as any[];
+    if (prj) {
+      const reprojection = prjReprojection(await prj.async('string'), layer, warnings);
+      if (reprojection) layerFeatures = reprojectFeatures(layerFeatures, reprojection);
+    } else {
+      warnings.push(`Layer ${layer} has no .prj file; coordinates are assumed to be WGS84 longitude/latitude`);
+      // Projected coordinates (metres) without a .prj cannot be placed on the map
+      mapGeometry({ type: 'GeometryCollection', geometries: layerFeatures.map(feature => feature.geometry).filter(Boolean) }, position => {
+        if (!(Math.abs(position[0]) <= 180 && Math.abs(position[1]) <= 90)) {
+          throw new GeoFileConversionError(
+            `Layer ${layer} has projected coordinates but no .prj file. Include the .prj file in the zip or export the layer as WGS84 (EPSG:4326).`
+          );
+        }
+        return position;
+      });
+    }
+
+    if (layers.length > 1) {
+      layerFeatures.forEach(feature => {
+        feature.properties = { ...feature.properties, layer };
+      });
+    }
+    features.push(...layerFeatures);
+  }
+
+  if (layers.length > 1) {
+    warnings.push(`${layers.length} Shapefile layers were merged; each plot's "layer" property names its source`);
+  }
+  return features;
+}
+
+// Reprojection for a .prj definition, or null when it is already WGS84 longitude/latitude
+function prjReprojection(wkt: string, layer: string, warnings: string[]): Reprojection | null {
+  const isGeographic = !/^\s*PROJCS/i.test(wkt);
+  if (isGeographic && /WGS_?(19)?84/i.test(wkt)) {
+    return null;
+  }
+
+  let converter: proj4.Converter;
+  try {
+    converter = proj4(wkt, 'WGS84');
+  } catch (error) {
+    throw new GeoFileConversionError(`The coordinate system in ${layer}.prj is not supported. Export the layer as WGS84 (EPSG:4326).`);
+  }
+
+  const name = wkt.match(/^\s*\w+\["([^"]+)"/)?.[1] ?? 'its projection';
+  warnings.push(`Layer ${layer} was reprojected from ${name} to WGS84`);
+  return converter.forward;
+}
+
+async function loadZip(data: Buffer, label: string): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new GeoFileConversionError(`The ${label} file is not a valid zip archive`);
+  }
+}
+
+// Reprojected coordinates are rounded to 9 decimals (well below a millimetre)
+function reprojectFeatures(features: any[], reprojection: Reprojection): any[] {
+  const transform = (position: Position) => reprojection(position).map(value => Math.round(value * 1e9) / 1e9);
+  return features.map(feature => ({
+    ...feature,
+    geometry: feature?.geometry ? mapGeometry(feature.geometry, transform) : feature?.geometry,
+  }));
+}
+
+function mapGeometry(geometry: any, transform: Reprojection): any {
+  if (geometry.type === 'GeometryCollection') {
+    return { ...geometry, geometries: (geometry.geometries ?? []).map((part: any) => mapGeometry(part, transform)) };
+  }
+  return { ...geometry, coordinates: mapCoordinates(geometry.coordinates, transform) };
+}
+
+function mapCoordinates(coordinates: any, transform: Reprojection): any {
+  if (!Array.isArray(coordinates)) return coordinates;
+  return typeof coordinates[0] === 'number' ? transform(coordinates) : coordinates.map(part => mapCoordinates(part, transform));
+}
+
+/**
+ * Reduce converted features to Point/MultiPoint/Polygon/MultiPolygon plots in
+ * 2D longitude/latitude, turning closed lines and tracks into polygons.
+ */
+function normalisePlots(features: any[], warnings: string[]): any[] {
+  const plots: any[] = [];
+  let withoutGeometry = 0;
+  let closedLines = 0;
+  let openLines = 0;
+  let unsupported = 0;
+  let droppedAltitude = false;
+
+  features.forEach((feature, index) => {
+    if (!feature?.geometry) {
+      withoutGeometry++;
+      return;
+    }
+
+    const { polygons, points, lines } = splitGeometry(feature.geometry);
+    lines.forEach(line => {
+      if (line.length >= 4 && distanceMetres(line[0], line[line.length - 1]) <= CLOSED_LINE_TOLERANCE_M) {
+        polygons.push([[...line.slice(0, -1), line[0]]]);
+        closedLines++;
+      } else {
+        openLines++;
+      }
+    });
+
+    let geometry: any;
+    if (polygons.length > 0) {
+      geometry = polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+      if (points.length > 0) {
+        warnings.push(`Feature ${index + 1}: ${points.length} point(s) mixed with polygons were dropped`);
+      }
+    } else if (points.length > 0) {
+      geometry = points.length === 1 ? { type: 'Point', coordinates: points[0] } : { type: 'MultiPoint', coordinates: points };
+    } else {
+      if (lines.length === 0) unsupported++;
+      return;
+    }
+
+    geometry = mapGeometry(geometry, position => {
+      if (position.length > 2) droppedAltitude = true;
+      return position.slice(0, 2);
+    });
+
+    const properties = { ...(feature.properties ?? {}) };
+    STYLE_PROPERTIES.forEach(key => delete properties[key]);
+
+    plots.push({
+      type: 'Feature',
+      ...(feature.id !== undefined ? { id: feature.id } : {}),
+      properties,
+      geometry,
+    });
+  });
+
+  if (withoutGeometry > 0) warnings.push(`${withoutGeometry} feature(s) without a geometry were skipped`);
+  if (unsupported > 0) warnings.push(`${unsupported} feature(s) with an unsupported geometry type were skipped`);
+  if (closedLines > 0) warnings.push(`${closedLines} closed line(s) or track(s) were converted to polygons`);
+  if (openLines > 0) {
+    warnings.push(`${openLines} line(s) or track(s) that do not return to their start were skipped; plot boundaries must be closed`);
+  }
+  if (droppedAltitude) warnings.push('Altitude values were removed from the coordinates');
+
+  return plots;
+}
+
+function splitGeometry(geometry: any): { polygons: Position[][][]; points: Position[]; lines: Position[][] } {
+  const parts = { polygons: [] as Position[][][], points: [] as Position[], lines: [] as Position[][] };
+
+  const visit = (part: any) => {
+    if (!part) return;
+    switch (part.type) {
+      case 'Point': parts.points.push(part.coordinates); break;
+      case 'MultiPoint': parts.points.push(...part.coordinates); break;
+      case 'LineString': parts.lines.push(part.coordinates); break;
+      case 'MultiLineString': parts.lines.push(...part.coordinates); break;
+      case 'Polygon': parts.polygons.push(part.coordinates); break;
+      case 'MultiPolygon': parts.polygons.push(...part.coordinates); break;
+      case 'GeometryCollection': (part.geometries ?? []).forEach(visit); break;
+    }
+  };
+  visit(geometry);
+  return parts;
+}
@@ -0,0 +1,116 @@
+type Position = number[];
+export type PolygonRings = Position[][]; // Exterior ring followed by holes
+
+export interface BBox {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+const EARTH_RADIUS_M = 6371008.8;
+
+/**
+ * Polygons of a Polygon or MultiPolygon geometry; empty for anything else.
+ */
+export function polygonsOf(geometry: any): PolygonRings[] {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return [];
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+export function bboxOf(positions: Position[]): BBox {
+  return positions.reduce<BBox>((bbox, [lon, lat]) => ({
+    minLon: Math.min(bbox.minLon, lon),
+    minLat: Math.min(bbox.minLat, lat),
+    maxLon: Math.max(bbox.maxLon, lon),
+    maxLat: Math.max(bbox.maxLat, lat),
+  }), { minLon: Infinity, minLat: Infinity, maxLon: -Infinity, maxLat: -Infinity });
+}
+
+/**
+ * Even-odd point-in-polygon test honouring holes.
+ */
+export function pointInPolygons(position: Position, polygons: PolygonRings[]): boolean {
+  return polygons.some(rings =>
+    rings.length > 0
+    && pointInRing(position, rings[0])
+    && !rings.slice(1).some(hole => pointInRing(position, hole))
+  );
+}
+
+function pointInRing([x, y]: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Area in square metres of a lon/lat grid cell centred on `lat`.
+ */
+export function cellAreaM2(lat: number, stepLon: number, stepLat: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  return EARTH_RADIUS_M * EARTH_RADIUS_M * toRad(stepLon) * toRad(stepLat) * Math.cos(toRad(lat));
+}
+
+/**
+ * Hectares covered by both sets of polygons, estimated by sampling a
+ * grid x grid lattice of cell centres over the overlap of their bounding boxes.
+ */
+export function sharedAreaHectares(a: PolygonRings[], b: PolygonRings[], grid: number): number {
+  const aBBox = bboxOf(a.flatMap(rings => rings[0] ?? []));
+  const bBBox = bboxOf(b.flatMap(rings => rings[0] ?? []));
+  const bbox: BBox = {
+    minLon: Math.max(aBBox.minLon, bBBox.minLon),
+    minLat: Math.max(aBBox.minLat, bBBox.minLat),
+    maxLon: Math.min(aBBox.maxLon, bBBox.maxLon),
+    maxLat: Math.min(aBBox.maxLat, bBBox.maxLat),
+  };
+  const stepLon = (bbox.maxLon - bbox.minLon) / grid;
+  const stepLat = (bbox.maxLat - bbox.minLat) / grid;
+  if (!(stepLon > 0) || !(stepLat > 0)) return 0;
+
+  let sharedM2 = 0;
+  for (let row = 0; row < grid; row++) {
+    const lat = bbox.minLat + (row + 0.5) * stepLat;
+    for (let col = 0; col < grid; col++) {
+      const position = [bbox.minLon + (col + 0.5) * stepLon, lat];
+      if (pointInPolygons(position, a) && pointInPolygons(position, b)) {
+        sharedM2 += cellAreaM2(lat, stepLon, stepLat);
+      }
+    }
+  }
+  return sharedM2 / 10000;
+}
+
+export function inBBox([lon, lat]: Position, bbox: BBox): boolean {
+  return lon >= bbox.minLon && lon <= bbox.maxLon && lat >= bbox.minLat && lat <= bbox.maxLat;
+}
+
+export function bboxIntersects(a: BBox, b: BBox): boolean {
+  return a.minLon <= b.maxLon && a.maxLon >= b.minLon && a.minLat <= b.maxLat && a.maxLat >= b.minLat;
+}
+
+export function unionBBox(boxes: BBox[]): BBox {
+  return boxes.reduce((union, bbox) => ({
+    minLon: Math.min(union.minLon, bbox.minLon),
+    minLat: Math.min(union.minLat, bbox.minLat),
+    maxLon: Math.max(union.maxLon, bbox.maxLon),
+    maxLat: Math.max(union.maxLat, bbox.maxLat),
+  }));
+}
+
+// Equirectangular approximation, accurate at the metre scale used for plots
+export function distanceMetres(a: Position, b: Position): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const x = toRad(b[0] - a[0]) * Math.cos(toRad((a[1] + b[1]) / 2));
+  const y = toRad(b[1] - a[1]);
+  return Math.sqrt(x * x + y * y) * EARTH_RADIUS_M;
+}
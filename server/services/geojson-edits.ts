@@ -0,0 +1,43 @@
+import { GeoJSONEditChange } from '@shared/geojson-validation';
+import { extractFeatures, productionPlaceIdOf } from './geojson-validation';
+
+/**
+ * Plot-level changes between two versions of a declaration's GeoJSON.
+ * Plots are matched by production place id.
+ */
+export function diffGeoJSON(before: unknown, after: unknown): GeoJSONEditChange[] {
+  const previous = plotsById(before);
+  const next = plotsById(after);
+  const changes: GeoJSONEditChange[] = [];
+
+  next.forEach((feature, plotId) => {
+    const old = previous.get(plotId);
+    if (!old) {
+      changes.push({ plotId, change: 'added', geometryType: geometryTypeOf(feature) });
+    } else if (JSON.stringify(old.geometry ?? null) !== JSON.stringify(feature.geometry ?? null)) {
+      changes.push({ plotId, change: 'geometry-changed', geometryType: geometryTypeOf(feature) });
+    } else if (JSON.stringify(old.properties ?? {}) !== JSON.stringify(feature.properties ?? {})) {
+      changes.push({ plotId, change: 'properties-changed', geometryType: geometryTypeOf(feature) });
+    }
+  });
+
+  previous.forEach((feature, plotId) => {
+    if (!next.has(plotId)) {
+      changes.push({ plotId, change: 'deleted', geometryType: geometryTypeOf(feature) });
+    }
+  });
+
+  return changes;
+}
+
+function plotsById(geojson: unknown): Map<string, any> {
+  const plots = new Map<string, any>();
+  (extractFeatures(geojson) ?? []).forEach((feature, index) => {
+    plots.set(productionPlaceIdOf(feature, index), feature);
+  });
+  return plots;
+}
+
+function geometryTypeOf(feature: any): string | null {
+  return typeof feature?.geometry?.type === 'string' ? feature.geometry.type : null;
+}
@@ -0,0 +1,482 @@
+import {
+  GeoJSONValidationResult,
+  ValidationIssue,
+  ValidationLocation,
+  ValidationPlot,
+  ValidationStatus,
+} from '@shared/geojson-validation';
+import { geodesicAreaHectares, parseDeclaredHectares, POINT_AREA_LIMIT_HA, requiresPolygon } from './plot-area';
+import { sharedAreaHectares } from './geo-utils';
+
+type Position = number[];
+
+// Geometry types accepted for production places (EUDR Article 9(1)(d))
+const SUPPORTED_GEOMETRY_TYPES = ['Point', 'MultiPoint', 'Polygon', 'MultiPolygon'];
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+// Rings enclosing less than this (1 m²) have collinear or coincident vertices
+const MIN_RING_AREA_HA = 0.0001;
+// Shared area between the polygons of a MultiPolygon is sampled on this grid,
+// and overlaps below this share of the smaller polygon are digitising noise
+const PART_OVERLAP_SAMPLE_GRID = 64;
+const MIN_PART_OVERLAP_PERCENT = 1;
+
+/**
+ * Validate a declaration's GeoJSON payload feature by feature.
+ * Accepts a FeatureCollection, a single Feature or a bare geometry.
+ *
+ * Polygon areas are computed geodesically in hectares; point geolocation is
+ * rejected for plots declared above the EUDR 4 hectare limit.
+ *
+ * Only geometry checks are performed here; satellite checks run separately,
+ * so every plot is returned with a compliant satellite status.
+ */
+export function validateGeoJSON(geojson: unknown): GeoJSONValidationResult {
+  const features = extractFeatures(geojson);
+  if (!features) {
+    return {
+      valid: false,
+      featureCount: 0,
+      errors: ['Payload is not a GeoJSON FeatureCollection, Feature or Geometry object'],
+      locations: [],
+      plots: [],
+    };
+  }
+
+  if (features.length === 0) {
+    return {
+      valid: false,
+      featureCount: 0,
+      errors: ['FeatureCollection does not contain any features'],
+      locations: [],
+      plots: [],
+    };
+  }
+
+  const validatedOn = new Date().toISOString().split('T')[0];
+  const locations: ValidationLocation[] = [];
+  const plots: ValidationPlot[] = [];
+
+  features.forEach((feature, index) => {
+    const { location, plot } = validateFeature(feature, index, validatedOn);
+    locations.push(location);
+    plots.push(plot);
+  });
+
+  return {
+    valid: locations.every(location => location.status === 'valid'),
+    featureCount: features.length,
+    errors: [],
+    locations,
+    plots,
+  };
+}
+
+/**
+ * Features of a FeatureCollection, Feature or bare geometry; null if none of those.
+ */
+export function extractFeatures(geojson: unknown): any[] | null {
+  if (!geojson || typeof geojson !== 'object') return null;
+  const data = geojson as any;
+
+  if (data.type === 'FeatureCollection') {
+    return Array.isArray(data.features) ? data.features : null;
+  }
+  if (data.type === 'Feature') {
+    return [data];
+  }
+  if (typeof data.type === 'string' && 'coordinates' in data) {
+    return [{ type: 'Feature', properties: {}, geometry: data }];
+  }
+  return null;
+}
+
+function validateFeature(feature: any, index: number, validatedOn: string) {
+  const properties = featureProperties(feature);
+  const productionPlaceId = productionPlaceIdOf(feature, index);
+  const producerName: string | undefined = properties.ProducerName ?? properties.producerName ?? properties.name;
+  const declaredArea = parseDeclaredHectares(properties.area ?? properties.Area);
+
+  const issues: ValidationIssue[] = [];
+  const geometry = feature?.type === 'Feature' ? feature.geometry : undefined;
+
+  if (feature?.type !== 'Feature') {
+    issues.push(geometryError('Invalid feature', `Feature ${index + 1} has type "${feature?.type}" instead of "Feature"`));
+  } else if (!geometry) {
+    issues.push(geometryError('Missing geometry', 'Feature has no geometry and cannot be located'));
+  } else if (!SUPPORTED_GEOMETRY_TYPES.includes(geometry.type)) {
+    issues.push(geometryError(
+      'Invalid geometry type',
+      `Geometry type "${geometry.type}" is not allowed; use ${SUPPORTED_GEOMETRY_TYPES.join(', ')}`
+    ));
+  } else {
+    issues.push(...validateGeometry(geometry));
+    if (requiresPolygon(geometry.type, declaredArea)) {
+      issues.push(geometryError(
+        'Polygon required',
+        `Plot is declared as ${declaredArea} hectares but located by ${geometry.type === 'Point' ? 'a single point' : 'points'}; plots above ${POINT_AREA_LIMIT_HA} hectares must be described with a polygon`
+      ));
+    }
+  }
+
+  const exteriorRings = geometry ? collectExteriorRings(geometry) : [];
+  const points = geometry ? collectPositions(geometry).filter(isValidPosition) : [];
+  const centroid = points.length > 0 ? averagePosition(points) : undefined;
+  const perimeterKm = exteriorRings.reduce((sum, ring) => sum + ringLengthKm(ring), 0);
+  const vertices = exteriorRings.length > 0
+    ? exteriorRings.reduce((sum, ring) => sum + Math.max(ring.length - 1, 0), 0)
+    : points.length;
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  // Only measure rings that passed the geometry checks
+  const computedArea = geometry && errors.length === 0 ? geodesicAreaHectares(geometry) : null;
+  const geometryStatus: ValidationStatus = errors.length > 0
+    ? 'non-compliant'
+    : issues.length > 0 ? 'warning' : 'compliant';
+
+  const location: ValidationLocation = {
+    id: String(index + 1),
+    productionPlaceId,
+    producerName,
+    area: declaredArea !== undefined ? `${declaredArea} hectares` : undefined,
+    status: errors.length > 0 ? 'invalid' : 'valid',
+    coordinates: centroid ? [round(centroid[0], 6), round(centroid[1], 6)] : undefined,
+    errors: errors.length > 0 ? errors.map(issue => issue.message) : undefined,
+  };
+
+  const plot: ValidationPlot = {
+    id: `plot-${index + 1}`,
+    name: producerName || `Plot ${index + 1}`,
+    plotId: productionPlaceId,
+    area: computedArea !== null ? round(computedArea, 4) : declaredArea ?? 0,
+    areaUnit: 'hectares',
+    geometryType: geometry?.type,
+    computedArea: computedArea !== null ? round(computedArea, 4) : undefined,
+    declaredArea,
+    perimeter: round(perimeterKm, 2),
+    perimeterUnit: 'km',
+    coordinates: centroid ? formatCoordinates(centroid) : 'Unknown',
+    vertices,
+    status: geometryStatus,
+    geometryStatus,
+    satelliteStatus: 'compliant',
+    lastValidated: validatedOn,
+    createdAt: validatedOn,
+    issues,
+  };
+
+  return { location, plot };
+}
+
+/**
+ * Plot identifier used across validation results: ProductionPlace property, id, or position.
+ */
+export function productionPlaceIdOf(feature: any, index: number): string {
+  const properties = featureProperties(feature);
+  return String(
+    properties.ProductionPlace ?? properties.productionPlaceId ?? properties.id ?? feature?.id ?? `PP-${index + 1}`
+  );
+}
+
+function featureProperties(feature: any): Record<string, any> {
+  return (feature && typeof feature.properties === 'object' && feature.properties) || {};
+}
+
+function validateGeometry(geometry: any): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(geometry.coordinates)) {
+    return [geometryError('Missing coordinates', `${geometry.type} geometry has no coordinate array`)];
+  }
+
+  switch (geometry.type) {
+    case 'Point':
+      issues.push(...validatePositions([geometry.coordinates]));
+      break;
+    case 'MultiPoint':
+      issues.push(...validatePositions(geometry.coordinates));
+      break;
+    case 'Polygon':
+      issues.push(...validatePolygon(geometry.coordinates, ''));
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach((polygon: any, i: number) => {
+        issues.push(...validatePolygon(polygon, `Polygon ${i + 1}: `));
+      });
+      if (!issues.some(issue => issue.severity === 'error')) {
+        issues.push(...findOverlappingPolygons(geometry.coordinates));
+      }
+      break;
+  }
+
+  return dedupeIssues(issues);
+}
+
+function validatePositions(positions: any[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const position of positions) {
+    if (!isNumericPosition(position)) {
+      issues.push(geometryError('Malformed coordinates', `Position ${JSON.stringify(position)} is not a [longitude, latitude] pair`));
+    } else if (!isWithinWGS84(position)) {
+      issues.push(geometryError(
+        'Coordinates outside WGS84 bounds',
+        `Position [${position[0]}, ${position[1]}] is outside longitude -180..180 / latitude -90..90; check the coordinate reference system`
+      ));
+    }
+  }
+  return issues;
+}
+
+function validatePolygon(rings: any, prefix: string): ValidationIssue[] {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return [geometryError('Missing coordinates', `${prefix}Polygon has no linear rings`)];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  rings.forEach((ring: any, ringIndex: number) => {
+    const label = `${prefix}${ringIndex === 0 ? 'Exterior ring' : `Hole ${ringIndex}`}`;
+
+    if (!Array.isArray(ring)) {
+      issues.push(geometryError('Malformed coordinates', `${label} is not an array of positions`));
+      return;
+    }
+
+    const positionIssues = validatePositions(ring);
+    issues.push(...positionIssues);
+    if (positionIssues.length > 0) return;
+
+    const closed = isClosed(ring);
+    if (!closed) {
+      issues.push(geometryError(
+        'Ring not closed',
+        `${label} starts at [${ring[0]}] but ends at [${ring[ring.length - 1]}]; the first and last positions must be identical`
+      ));
+    }
+
+    const workingRing: Position[] = closed ? ring : [...ring, ring[0]];
+    if (workingRing.length < 4) {
+      issues.push(geometryError('Insufficient vertex count', `${label} has ${workingRing.length - 1} distinct vertices; at least 3 are required`));
+      return;
+    }
+
+    const duplicate = findDuplicateVertex(workingRing);
+    if (duplicate) {
+      issues.push(geometryError('Duplicate vertices', `${label} repeats vertex [${duplicate}]`));
+    }
+
+    const intersection = findSelfIntersection(workingRing);
+    if (intersection) {
+      issues.push(geometryError(
+        'Self-intersection detected',
+        `${label} crosses itself near ${formatCoordinates(intersection)}`
+      ));
+    }
+
+    const hectares = geodesicAreaHectares({ type: 'Polygon', coordinates: [workingRing] }) ?? 0;
+    if (hectares < MIN_RING_AREA_HA) {
+      issues.push(geometryError(
+        'Zero-area ring',
+        `${label} encloses ${round(hectares * 10000, 2)} m²; its vertices are collinear or too close together to describe a plot`
+      ));
+      return;
+    }
+
+    // RFC 7946 section 3.1.6: exterior rings counterclockwise, holes clockwise
+    const area = signedPlanarArea(workingRing);
+    const expectCounterClockwise = ringIndex === 0;
+    if (area !== 0 && (area > 0) !== expectCounterClockwise) {
+      issues.push({
+        type: 'geometry',
+        message: 'Wrong winding order',
+        details: `${label} is ${area > 0 ? 'counterclockwise' : 'clockwise'}; RFC 7946 requires ${expectCounterClockwise ? 'counterclockwise exterior rings' : 'clockwise holes'}`,
+        severity: 'warning',
+      });
+    }
+  });
+
+  return issues;
+}
+
+// RFC 7946 section 3.1.7: the polygons of a MultiPolygon may touch but not overlap
+function findOverlappingPolygons(polygons: Position[][][]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (let i = 0; i < polygons.length; i++) {
+    for (let j = i + 1; j < polygons.length; j++) {
+      const shared = sharedAreaHectares([polygons[i]], [polygons[j]], PART_OVERLAP_SAMPLE_GRID);
+      const smaller = Math.min(
+        geodesicAreaHectares({ type: 'Polygon', coordinates: polygons[i] }) ?? 0,
+        geodesicAreaHectares({ type: 'Polygon', coordinates: polygons[j] }) ?? 0
+      );
+      if (smaller > 0 && (shared / smaller) * 100 >= MIN_PART_OVERLAP_PERCENT) {
+        issues.push(geometryError(
+          'Overlapping polygons',
+          `Polygon ${i + 1} and Polygon ${j + 1} overlap by about ${round(shared, 4)} hectares; the polygons of a MultiPolygon must not overlap`
+        ));
+      }
+    }
+  }
+  return issues;
+}
+
+function geometryError(message: string, details: string): ValidationIssue {
+  return { type: 'geometry', message, details, severity: 'error' };
+}
+
+function dedupeIssues(issues: ValidationIssue[]): ValidationIssue[] {
+  const seen = new Set<string>();
+  return issues.filter(issue => {
+    const key = `${issue.message}|${issue.details}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function isNumericPosition(position: any): position is Position {
+  return Array.isArray(position)
+    && position.length >= 2
+    && Number.isFinite(position[0])
+    && Number.isFinite(position[1]);
+}
+
+function isWithinWGS84(position: Position): boolean {
+  return position[0] >= -180 && position[0] <= 180 && position[1] >= -90 && position[1] <= 90;
+}
+
+function isValidPosition(position: any): position is Position {
+  return isNumericPosition(position) && isWithinWGS84(position);
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function isClosed(ring: Position[]): boolean {
+  return ring.length > 1 && samePosition(ring[0], ring[ring.length - 1]);
+}
+
+function findDuplicateVertex(ring: Position[]): Position | undefined {
+  const seen = new Set<string>();
+  // The closing position is expected to repeat the first one
+  for (const position of ring.slice(0, -1)) {
+    const key = `${position[0]},${position[1]}`;
+    if (seen.has(key)) return position;
+    seen.add(key);
+  }
+  return undefined;
+}
+
+function findSelfIntersection(ring: Position[]): Position | undefined {
+  // Zero-length segments are reported as duplicate vertices, not intersections
+  const vertices = ring.filter((position, i) => i === 0 || !samePosition(position, ring[i - 1]));
+  const segmentCount = vertices.length - 1;
+
+  for (let i = 0; i < segmentCount; i++) {
+    for (let j = i + 2; j < segmentCount; j++) {
+      // The first and last segments share the closing vertex
+      if (i === 0 && j === segmentCount - 1) continue;
+      const point = segmentIntersection(vertices[i], vertices[i + 1], vertices[j], vertices[j + 1]);
+      if (point) return point;
+    }
+  }
+  return undefined;
+}
+
+function segmentIntersection(p1: Position, p2: Position, p3: Position, p4: Position): Position | undefined {
+  const d1 = orientation(p3, p4, p1);
+  const d2 = orientation(p3, p4, p2);
+  const d3 = orientation(p1, p2, p3);
+  const d4 = orientation(p1, p2, p4);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    const t = d1 / (d1 - d2);
+    return [p1[0] + t * (p2[0] - p1[0]), p1[1] + t * (p2[1] - p1[1])];
+  }
+
+  // Touching or collinear overlap between non-adjacent segments
+  if (d1 === 0 && onSegment(p3, p4, p1)) return p1;
+  if (d2 === 0 && onSegment(p3, p4, p2)) return p2;
+  if (d3 === 0 && onSegment(p1, p2, p3)) return p3;
+  if (d4 === 0 && onSegment(p1, p2, p4)) return p4;
+  return undefined;
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+function onSegment(a: Position, b: Position, p: Position): boolean {
+  return Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0])
+    && Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1]);
+}
+
+function signedPlanarArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+}
+
+function collectExteriorRings(geometry: any): Position[][] {
+  if (!Array.isArray(geometry.coordinates)) return [];
+  let rings: any[] = [];
+  if (geometry.type === 'Polygon') rings = [geometry.coordinates[0]];
+  if (geometry.type === 'MultiPolygon') rings = geometry.coordinates.map((polygon: any) => polygon?.[0]);
+  return rings.filter((ring): ring is Position[] => Array.isArray(ring) && ring.every(isValidPosition));
+}
+
+function collectPositions(geometry: any): any[] {
+  const coordinates = geometry?.coordinates;
+  if (!Array.isArray(coordinates)) return [];
+  switch (geometry.type) {
+    case 'Point':
+      return [coordinates];
+    case 'MultiPoint':
+      return coordinates;
+    case 'Polygon':
+      return ringVertices(coordinates[0]);
+    case 'MultiPolygon':
+      return coordinates.flatMap((polygon: any) => ringVertices(polygon?.[0]));
+    default:
+      return [];
+  }
+}
+
+function ringVertices(ring: any): any[] {
+  if (!Array.isArray(ring)) return [];
+  return ring.every(isNumericPosition) && isClosed(ring) ? ring.slice(0, -1) : ring;
+}
+
+function averagePosition(positions: Position[]): Position {
+  const sum = positions.reduce((acc, position) => [acc[0] + position[0], acc[1] + position[1]], [0, 0]);
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+function ringLengthKm(ring: Position[]): number {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    total += haversineKm(ring[i], ring[i + 1]);
+  }
+  return total;
+}
+
+function haversineKm(a: Position, b: Position): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b[1] - a[1]);
+  const dLon = toRad(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function formatCoordinates(position: Position): string {
+  const [lon, lat] = position;
+  return `${Math.abs(lat).toFixed(3)}°${lat >= 0 ? 'N' : 'S'}, ${Math.abs(lon).toFixed(3)}°${lon >= 0 ? 'E' : 'W'}`;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,169 @@
+import { Declaration, DeclarationReference, InsertDeclarationReference } from '@shared/schema';
+import { lifecycleStateOf } from '@shared/declaration-lifecycle';
+import {
+  EUReferenceSource,
+  EUReferenceValidationStatus,
+  normalizeReferenceNumber,
+  referenceValidationStatus,
+} from '@shared/eu-reference-numbers';
+
+// Inbound declarations whose quantities may be drawn by outbound declarations
+const ALLOCATABLE_STATES = ['approved', 'filed', 'amended'];
+
+// Outbound declarations whose allocations hold inbound stock. Drafts have not
+// claimed it yet; rejected and withdrawn declarations have given it back.
+const HOLDING_STATES = ['submitted', 'under_review', ...ALLOCATABLE_STATES];
+
+/**
+ * An outbound declaration that cannot draw the requested quantities; the
+ * message is shown to the user.
+ */
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AllocationError';
+  }
+}
+
+export interface AllocationRequest {
+  inboundDeclarationId: number;
+  quantity: number; // In the inbound declaration's unit
+}
+
+export interface InboundBalance {
+  declarationId: number;
+  productName: string;
+  hsnCode: string | null;
+  status: string;
+  quantity: number;
+  unit: string | null;
+  allocated: number;
+  remaining: number;
+  eudrReferenceNumber: string | null;
+  eudrVerificationNumber: string | null;
+}
+
+export interface EUReferencePair {
+  referenceNumber: string;
+  verificationNumber: string;
+}
+
+export function isAllocatable(declaration: Declaration): boolean {
+  return declaration.type === 'inbound' && ALLOCATABLE_STATES.includes(lifecycleStateOf(declaration.status));
+}
+
+export function holdsAllocations(status: string | null | undefined): boolean {
+  return HOLDING_STATES.includes(lifecycleStateOf(status));
+}
+
+/**
+ * Quantities drawn per inbound declaration, counting only allocations whose
+ * outbound declaration still holds them
+ */
+export function allocatedQuantities(
+  allocations: { inboundDeclarationId: number; quantity: number; outboundStatus: string }[]
+): Map<number, number> {
+  const allocated = new Map<number, number>();
+  for (const allocation of allocations) {
+    if (holdsAllocations(allocation.outboundStatus)) {
+      allocated.set(allocation.inboundDeclarationId, (allocated.get(allocation.inboundDeclarationId) ?? 0) + allocation.quantity);
+    }
+  }
+  return allocated;
+}
+
+export function inboundBalanceOf(declaration: Declaration, allocated: number): InboundBalance {
+  const quantity = declaration.quantity ?? 0;
+  return {
+    declarationId: declaration.id,
+    productName: declaration.productName,
+    hsnCode: declaration.hsnCode,
+    status: declaration.status,
+    quantity,
+    unit: declaration.unit,
+    allocated,
+    remaining: Math.max(quantity - allocated, 0),
+    eudrReferenceNumber: declaration.eudrReferenceNumber,
+    eudrVerificationNumber: declaration.eudrVerificationNumber,
+  };
+}
+
+/**
+ * Check requested quantities against what is left of each inbound declaration.
+ * `allocated` holds the quantities already drawn per inbound declaration.
+ */
+export function checkAllocations(
+  requests: AllocationRequest[],
+  inbound: Map<number, Declaration>,
+  allocated: Map<number, number>
+): void {
+  if (requests.length === 0) {
+    throw new AllocationError('Select at least one inbound declaration to draw from');
+  }
+
+  const requested = new Map<number, number>();
+  for (const request of requests) {
+    const declaration = inbound.get(request.inboundDeclarationId);
+    if (!declaration) {
+      throw new AllocationError(`Inbound declaration #${request.inboundDeclarationId} not found`);
+    }
+    if (!isAllocatable(declaration)) {
+      throw new AllocationError(`Declaration #${request.inboundDeclarationId} is not an approved inbound declaration`);
+    }
+    if (!Number.isFinite(request.quantity) || request.quantity <= 0) {
+      throw new AllocationError(`Quantity drawn from declaration #${request.inboundDeclarationId} must be greater than zero`);
+    }
+    requested.set(request.inboundDeclarationId, (requested.get(request.inboundDeclarationId) ?? 0) + request.quantity);
+  }
+
+  requested.forEach((quantity, inboundDeclarationId) => {
+    const balance = inboundBalanceOf(inbound.get(inboundDeclarationId)!, allocated.get(inboundDeclarationId) ?? 0);
+    if (quantity > balance.remaining) {
+      throw new AllocationError(
+        `Declaration #${inboundDeclarationId} has ${balance.remaining} ${balance.unit || 'units'} left; ${quantity} requested`
+      );
+    }
+  });
+}
+
+/**
+ * EU reference numbers an outbound DDS refers to: the registration of each
+ * upstream declaration and the statements those refer to in turn. Duplicates
+ * are dropped.
+ */
+export function upstreamReferences(
+  declarations: Declaration[],
+  references: DeclarationReference[]
+): Omit<InsertDeclarationReference, 'declarationId'>[] {
+  const upstream = new Map<string, Omit<InsertDeclarationReference, 'declarationId'>>();
+
+  const add = (reference: Omit<InsertDeclarationReference, 'declarationId'>) => {
+    if (reference.referenceNumber && !upstream.has(reference.referenceNumber)) {
+      upstream.set(reference.referenceNumber, reference);
+    }
+  };
+
+  for (const declaration of declarations) {
+    if (!declaration.eudrReferenceNumber) continue;
+    const referenceNumber = normalizeReferenceNumber(declaration.eudrReferenceNumber);
+    const verificationNumber = normalizeReferenceNumber(declaration.eudrVerificationNumber ?? '');
+    // Registered through our own EU-IS submission, or entered from the supplier's DDS
+    const selfFiled = declaration.ddsStatus === 'available';
+    add({
+      referenceNumber,
+      verificationNumber: verificationNumber || null,
+      source: selfFiled ? 'self_filed' : 'supplier',
+      validationStatus: selfFiled ? 'verified' : referenceValidationStatus(referenceNumber, verificationNumber),
+    });
+  }
+  for (const { referenceNumber, verificationNumber, source, validationStatus } of references) {
+    add({
+      referenceNumber,
+      verificationNumber,
+      source: source as EUReferenceSource,
+      validationStatus: validationStatus as EUReferenceValidationStatus,
+    });
+  }
+
+  return Array.from(upstream.values());
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from '@shared/password-policy';
+
+// Newline-separated list of known breached passwords; lines starting with # are comments
+const BREACHED_PASSWORDS_FILE = process.env.BREACHED_PASSWORDS_FILE
+  || path.resolve(process.cwd(), 'server/data/breached-passwords.txt');
+
+let breachedPasswords: Set<string> | null = null;
+
+function getBreachedPasswords(): Set<string> {
+  if (!breachedPasswords) {
+    try {
+      const lines = fs.readFileSync(BREACHED_PASSWORDS_FILE, 'utf8').split(/\r?\n/);
+      breachedPasswords = new Set(
+        lines.map(line => line.trim().toLowerCase()).filter(line => line && !line.startsWith('#'))
+      );
+      console.log(`Loaded ${breachedPasswords.size} breached password(s) from ${BREACHED_PASSWORDS_FILE}`);
+    } catch (error) {
+      console.error(`Error loading breached passwords from ${BREACHED_PASSWORDS_FILE}:`, error);
+      breachedPasswords = new Set();
+    }
+  }
+  return breachedPasswords;
+}
+
+/**
+ * Why a new password is not acceptable, or null when it is
+ */
+export function passwordPolicyError(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  if (getBreachedPasswords().has(password.toLowerCase())) {
+    return 'This password has appeared in a data breach. Choose a different one.';
+  }
+  return null;
+}
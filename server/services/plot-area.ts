@@ -0,0 +1,87 @@
+import { GeoJSONValidationResult, PlotArea } from '@shared/geojson-validation';
+
+type Position = number[];
+
+// EUDR Article 2(28): plots above 4 hectares must be described with polygons
+export const POINT_AREA_LIMIT_HA = 4;
+
+// Authalic (equal-area) radius of the WGS84 ellipsoid, in metres
+const AUTHALIC_RADIUS_M = 6371007.181;
+
+/**
+ * Geodesic area of a Polygon or MultiPolygon in hectares, holes excluded.
+ * Returns null for geometries that have no area (points, lines).
+ */
+export function geodesicAreaHectares(geometry: any): number | null {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return null;
+
+  if (geometry.type === 'Polygon') {
+    return polygonAreaM2(geometry.coordinates) / 10000;
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return geometry.coordinates.reduce((sum: number, polygon: any) => sum + polygonAreaM2(polygon), 0) / 10000;
+  }
+  return null;
+}
+
+/**
+ * Parse a declared area property such as 15.2, "15.2" or "15.2 hectares".
+ */
+export function parseDeclaredHectares(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/hectares?|ha/i, '').trim());
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * A single point only describes a plot of at most 4 hectares
+ */
+export function requiresPolygon(geometryType: string | undefined, declaredHectares: number | undefined): boolean {
+  return (geometryType === 'Point' || geometryType === 'MultiPoint')
+    && declaredHectares !== undefined
+    && declaredHectares > POINT_AREA_LIMIT_HA;
+}
+
+/**
+ * Per-plot area summary stored on the declaration alongside its GeoJSON
+ */
+export function summarizePlotAreas(result: GeoJSONValidationResult): PlotArea[] {
+  return result.plots.map(plot => ({
+    plotId: plot.plotId,
+    geometryType: plot.geometryType ?? null,
+    computedHectares: plot.computedArea ?? null,
+    declaredHectares: plot.declaredArea ?? null,
+    requiresPolygon: requiresPolygon(plot.geometryType, plot.declaredArea),
+  }));
+}
+
+function polygonAreaM2(rings: any): number {
+  if (!Array.isArray(rings) || rings.length === 0) return 0;
+  const [exterior, ...holes] = rings;
+  const holeArea = holes.reduce((sum: number, ring: any) => sum + Math.abs(ringAreaM2(ring)), 0);
+  return Math.max(Math.abs(ringAreaM2(exterior)) - holeArea, 0);
+}
+
+// Spherical excess of a ring on the authalic sphere (Chamberlain & Duquette, 2007)
+function ringAreaM2(ring: any): number {
+  if (!Array.isArray(ring) || ring.length < 3) return 0;
+  const positions = ring.filter(
+    (position: any): position is Position =>
+      Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1])
+  );
+  const count = positions.length;
+  if (count < 3) return 0;
+
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const lower = positions[i];
+    const middle = positions[(i + 1) % count];
+    const upper = positions[(i + 2) % count];
+    total += (toRad(upper[0]) - toRad(lower[0])) * Math.sin(toRad(middle[1]));
+  }
+  return (total * AUTHALIC_RADIUS_M * AUTHALIC_RADIUS_M) / 2;
+}
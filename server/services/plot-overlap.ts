@@ -0,0 +1,228 @@
+import { Declaration } from '@shared/schema';
+import { PlotOverlap } from '@shared/geojson-validation';
+import { extractFeatures, productionPlaceIdOf } from './geojson-validation';
+import { geodesicAreaHectares } from './plot-area';
+import {
+  BBox,
+  bboxIntersects,
+  bboxOf,
+  distanceMetres,
+  pointInPolygons,
+  PolygonRings,
+  polygonsOf,
+  sharedAreaHectares,
+} from './geo-utils';
+
+type Position = number[];
+
+interface IndexedPlot {
+  declarationId: number;
+  supplierId: number;
+  productName: string;
+  plotId: string;
+  explicitPlotId: boolean; // false when the id was generated from the feature position
+  polygons: PolygonRings[];
+  points: Position[];
+  bbox: BBox;
+  areaHectares: number | null;
+  geometryKey: string;
+}
+
+// Spatial index cell size in degrees (about 11 km at the equator)
+const INDEX_CELL_DEG = 0.1;
+// Shared area is estimated on a grid of this many samples per axis
+const OVERLAP_SAMPLE_GRID = 64;
+// Slivers below this share of the smaller plot are digitising noise along shared borders
+const MIN_OVERLAP_PERCENT = 1;
+// Points closer than this are treated as the same production place
+const POINT_MATCH_METRES = 10;
+
+/**
+ * Grid-bucketed index of every plot in every declaration's GeoJSON.
+ */
+export class PlotIndex {
+  private plots: IndexedPlot[] = [];
+  private cells = new Map<string, number[]>();
+  private byPlotId = new Map<string, IndexedPlot[]>();
+
+  constructor(declarations: Declaration[]) {
+    declarations.forEach(declaration => this.addDeclaration(declaration));
+  }
+
+  plotsOf(declarationId: number): IndexedPlot[] {
+    return this.plots.filter(plot => plot.declarationId === declarationId);
+  }
+
+  // Plots declared with the same explicit production place id
+  plotsWithId(plotId: string): IndexedPlot[] {
+    return this.byPlotId.get(plotId) ?? [];
+  }
+
+  candidates(bbox: BBox): IndexedPlot[] {
+    const ids = new Set<number>();
+    forEachCell(bbox, key => this.cells.get(key)?.forEach(id => ids.add(id)));
+    return Array.from(ids, id => this.plots[id]).filter(plot => bboxIntersects(plot.bbox, bbox));
+  }
+
+  private addDeclaration(declaration: Declaration) {
+    if (!declaration.geojsonData) return;
+    const features = extractFeatures(declaration.geojsonData) ?? [];
+
+    features.forEach((feature, index) => {
+      const plot = indexPlot(declaration, feature, index);
+      if (!plot) return;
+
+      const id = this.plots.push(plot) - 1;
+      if (plot.explicitPlotId) {
+        this.byPlotId.set(plot.plotId, [...this.plotsWithId(plot.plotId), plot]);
+      }
+      forEachCell(plot.bbox, key => {
+        const bucket = this.cells.get(key);
+        if (bucket) bucket.push(id);
+        else this.cells.set(key, [id]);
+      });
+    });
+  }
+}
+
+let cachedIndex: { signature: string; index: PlotIndex } | null = null;
+
+/**
+ * Index for the given declarations, rebuilt only when one of them changed.
+ */
+export function plotIndexFor(declarations: Declaration[]): PlotIndex {
+  const signature = declarations
+    .map(declaration => `${declaration.id}:${declaration.lastUpdated ? new Date(declaration.lastUpdated).getTime() : ''}`)
+    .sort()
+    .join(',');
+
+  if (!cachedIndex || cachedIndex.signature !== signature) {
+    cachedIndex = { signature, index: new PlotIndex(declarations) };
+  }
+  return cachedIndex.index;
+}
+
+/**
+ * Plots of a declaration that coincide with plots of other declarations:
+ * identical geometry, overlapping land, or a reused production place id.
+ */
+export function findPlotOverlaps(declarationId: number, index: PlotIndex): PlotOverlap[] {
+  const overlaps: PlotOverlap[] = [];
+
+  for (const plot of index.plotsOf(declarationId)) {
+    const seen = new Set<string>();
+
+    for (const other of index.candidates(plot.bbox)) {
+      if (other.declarationId === declarationId) continue;
+      const overlap = comparePlots(plot, other);
+      if (overlap) {
+        overlaps.push(overlap);
+        seen.add(`${other.declarationId}:${other.plotId}`);
+      }
+    }
+
+    // The same production place id may be declared with a different location
+    if (plot.explicitPlotId) {
+      for (const other of index.plotsWithId(plot.plotId)) {
+        if (other.declarationId === declarationId || seen.has(`${other.declarationId}:${other.plotId}`)) continue;
+        overlaps.push(toOverlap(plot, other, 'duplicate-production-place', null, null));
+      }
+    }
+  }
+
+  return overlaps.sort((a, b) =>
+    Number(b.differentSupplier) - Number(a.differentSupplier)
+    || (b.overlapPercent ?? 100) - (a.overlapPercent ?? 100)
+  );
+}
+
+function comparePlots(plot: IndexedPlot, other: IndexedPlot): PlotOverlap | null {
+  if (plot.geometryKey === other.geometryKey) {
+    const hectares = plot.areaHectares !== null ? round(plot.areaHectares, 4) : null;
+    return toOverlap(plot, other, 'identical-geometry', hectares, hectares !== null ? 100 : null);
+  }
+
+  // Polygon against polygon: estimate the shared area
+  if (plot.polygons.length > 0 && other.polygons.length > 0) {
+    const sharedHectares = sharedAreaHectares(plot.polygons, other.polygons, OVERLAP_SAMPLE_GRID);
+    const smaller = Math.min(plot.areaHectares ?? 0, other.areaHectares ?? 0);
+    const percent = smaller > 0 ? Math.min((sharedHectares / smaller) * 100, 100) : 0;
+    if (percent < MIN_OVERLAP_PERCENT) return null;
+    return toOverlap(plot, other, 'overlap', round(sharedHectares, 4), round(percent, 2));
+  }
+
+  // A point inside the other plot's polygon, or two points at the same spot
+  const touches = plot.points.some(point => pointInPolygons(point, other.polygons))
+    || other.points.some(point => pointInPolygons(point, plot.polygons))
+    || plot.points.some(point => other.points.some(otherPoint => distanceMetres(point, otherPoint) <= POINT_MATCH_METRES));
+
+  return touches ? toOverlap(plot, other, 'overlap', null, null) : null;
+}
+
+function toOverlap(
+  plot: IndexedPlot,
+  other: IndexedPlot,
+  kind: PlotOverlap['kind'],
+  overlapHectares: number | null,
+  overlapPercent: number | null
+): PlotOverlap {
+  return {
+    plotId: plot.plotId,
+    kind,
+    otherDeclarationId: other.declarationId,
+    otherPlotId: other.plotId,
+    otherSupplierId: other.supplierId,
+    otherProductName: other.productName,
+    differentSupplier: other.supplierId !== plot.supplierId,
+    overlapHectares,
+    overlapPercent,
+  };
+}
+
+function indexPlot(declaration: Declaration, feature: any, index: number): IndexedPlot | null {
+  const geometry = feature?.geometry;
+  const polygons = polygonsOf(geometry);
+  const points: Position[] = geometry?.type === 'Point'
+    ? [geometry.coordinates]
+    : geometry?.type === 'MultiPoint' ? geometry.coordinates : [];
+
+  const positions = polygons.length > 0 ? polygons.flat(2) : points;
+  if (!Array.isArray(positions) || positions.length === 0 || !positions.every(isPosition)) return null;
+
+  const properties = feature?.properties ?? {};
+  return {
+    declarationId: declaration.id,
+    supplierId: declaration.supplierId,
+    productName: declaration.productName,
+    plotId: productionPlaceIdOf(feature, index),
+    explicitPlotId: (properties.ProductionPlace ?? properties.productionPlaceId ?? properties.id ?? feature?.id) !== undefined,
+    polygons,
+    points,
+    bbox: bboxOf(positions),
+    areaHectares: geodesicAreaHectares(geometry),
+    geometryKey: `${geometry.type}:${JSON.stringify(geometry.coordinates, (_key, value) =>
+      typeof value === 'number' ? round(value, 6) : value
+    )}`,
+  };
+}
+
+function forEachCell(bbox: BBox, visit: (key: string) => void) {
+  const minX = Math.floor(bbox.minLon / INDEX_CELL_DEG);
+  const maxX = Math.floor(bbox.maxLon / INDEX_CELL_DEG);
+  const minY = Math.floor(bbox.minLat / INDEX_CELL_DEG);
+  const maxY = Math.floor(bbox.maxLat / INDEX_CELL_DEG);
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      visit(`${x}:${y}`);
+    }
+  }
+}
+
+function isPosition(position: any): boolean {
+  return Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1]);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,241 @@
+import { Product, ProductConversion } from '@shared/schema';
+import { netMassKgOf } from './declaration-items';
+import { AllocationRequest } from './mass-balance';
+
+// Processing stages of catalogue products, in supply-chain order
+export const PRODUCT_STAGES = ['raw_material', 'semi_finished_good', 'finished_good'];
+
+/**
+ * A conversion factor that cannot be saved; the message is shown to the user.
+ */
+export class ConversionFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversionFactorError';
+  }
+}
+
+// Outbound line item whose upstream input is computed
+export interface ConversionOutput {
+  productName: string;
+  quantity: number;
+  unit: string | null;
+  netMassKg?: number | null; // Required when the unit is not a mass
+}
+
+// Inbound declaration drawn by the outbound declaration
+export interface ConversionInput {
+  inboundDeclarationId: number;
+  productName: string;
+  quantity: number; // Drawn quantity, in the inbound declaration's unit
+  unit: string | null;
+  remaining: number; // Balance left before this draw
+}
+
+export interface RequiredInput {
+  productName: string;
+  requiredKg: number; // At the configured yield
+  minimumKg: number; // At the highest yield the tolerance allows
+  maximumKg: number; // At the lowest yield the tolerance allows
+  drawnKg: number;
+  outputs: string[];
+}
+
+export interface ConversionCheck {
+  requiredInputs: RequiredInput[];
+  warnings: string[];
+  suggestedAllocations: AllocationRequest[];
+}
+
+interface ConversionPath {
+  yieldRatio: number;
+  lowYield: number;
+  highYield: number;
+  steps: number;
+}
+
+/**
+ * Check that a conversion runs downstream (an input cannot be at a later stage
+ * than its output) and that the yield is a plausible mass ratio.
+ */
+export function validateConversion(input: Product, output: Product, yieldRatio: number, tolerancePercent: number): void {
+  if (input.id === output.id) {
+    throw new ConversionFactorError('Input and output must be different products');
+  }
+  const inputStage = PRODUCT_STAGES.indexOf(input.productType);
+  const outputStage = PRODUCT_STAGES.indexOf(output.productType);
+  if (inputStage > outputStage) {
+    throw new ConversionFactorError(`${input.name} is processed further than ${output.name} and cannot be its input`);
+  }
+  if (!Number.isFinite(yieldRatio) || yieldRatio <= 0 || yieldRatio > 1) {
+    throw new ConversionFactorError('Yield must be greater than 0 and at most 1 kg of output per kg of input');
+  }
+  if (!Number.isFinite(tolerancePercent) || tolerancePercent < 0 || tolerancePercent >= 100) {
+    throw new ConversionFactorError('Tolerance must be between 0 and 100 percent');
+  }
+}
+
+/**
+ * Upstream input consumed by an outbound declaration. Each output is produced
+ * from the drawn input product with the shortest chain of conversion factors;
+ * the drawn mass of every input is compared with what its outputs require at
+ * the configured yield, give or take the tolerance.
+ */
+export function checkConversions(
+  outputs: ConversionOutput[],
+  inputs: ConversionInput[],
+  products: Product[],
+  conversions: ProductConversion[]
+): ConversionCheck {
+  const warnings: string[] = [];
+  const productByName = new Map(products.map(product => [product.name.trim().toLowerCase(), product]));
+  const productOf = (name: string) => productByName.get(name.trim().toLowerCase());
+
+  // Drawn mass per input product
+  const drawn = new Map<number, { product: Product; kg: number; inputs: ConversionInput[] }>();
+  for (const input of inputs) {
+    const product = productOf(input.productName);
+    const kg = netMassKgOf(input.quantity, input.unit);
+    if (!product) {
+      warnings.push(`${input.productName} (declaration #${input.inboundDeclarationId}) is not in the product catalogue`);
+      continue;
+    }
+    if (kg === null) {
+      warnings.push(`Declaration #${input.inboundDeclarationId} is measured in ${input.unit || 'units'}; only mass units can be converted`);
+      continue;
+    }
+    const entry = drawn.get(product.id) ?? { product, kg: 0, inputs: [] };
+    entry.kg += kg;
+    entry.inputs.push(input);
+    drawn.set(product.id, entry);
+  }
+
+  const required = new Map<number, RequiredInput>();
+  for (const output of outputs) {
+    const product = productOf(output.productName);
+    const kg = output.netMassKg ?? netMassKgOf(output.quantity, output.unit);
+    if (!product) {
+      warnings.push(`${output.productName} is not in the product catalogue; its input cannot be computed`);
+      continue;
+    }
+    if (kg === null) {
+      warnings.push(`Enter the net mass of ${output.productName} to compute its input`);
+      continue;
+    }
+
+    let best: { inputId: number; path: ConversionPath } | null = null;
+    for (const inputId of Array.from(drawn.keys())) {
+      const path = conversionPath(inputId, product.id, conversions);
+      if (path && (!best || path.steps < best.path.steps)) {
+        best = { inputId, path };
+      }
+    }
+    if (!best) {
+      if (drawn.size > 0) {
+        warnings.push(`No conversion factor leads from the selected inputs to ${output.productName}`);
+      }
+      continue;
+    }
+
+    const { inputId, path } = best;
+    const entry = required.get(inputId) ?? {
+      productName: drawn.get(inputId)!.product.name,
+      requiredKg: 0,
+      minimumKg: 0,
+      maximumKg: 0,
+      drawnKg: drawn.get(inputId)!.kg,
+      outputs: [],
+    };
+    entry.requiredKg += kg / path.yieldRatio;
+    entry.minimumKg += kg / path.highYield;
+    entry.maximumKg += kg / path.lowYield;
+    if (!entry.outputs.includes(product.name)) entry.outputs.push(product.name);
+    required.set(inputId, entry);
+  }
+
+  drawn.forEach((entry, inputId) => {
+    const need = required.get(inputId);
+    if (!need) {
+      if (outputs.length > 0) {
+        warnings.push(`${entry.product.name} is not an input of any declared product`);
+      }
+      return;
+    }
+    if (entry.kg < need.minimumKg) {
+      warnings.push(
+        `${formatKg(entry.kg)} of ${entry.product.name} cannot yield ${need.outputs.join(', ')}; ` +
+        `at least ${formatKg(need.minimumKg)} is needed`
+      );
+    } else if (entry.kg > need.maximumKg) {
+      warnings.push(
+        `${formatKg(entry.kg)} of ${entry.product.name} is more than ${need.outputs.join(', ')} should consume ` +
+        `(${formatKg(need.maximumKg)} at most); the implied yield is implausibly low`
+      );
+    }
+  });
+
+  return {
+    requiredInputs: Array.from(required.values()),
+    warnings,
+    suggestedAllocations: suggestAllocations(required, drawn),
+  };
+}
+
+// Draw the required mass of each input from its declarations in order, up to their
+// balances; declarations that are not needed get a zero quantity
+function suggestAllocations(
+  required: Map<number, RequiredInput>,
+  drawn: Map<number, { inputs: ConversionInput[] }>
+): AllocationRequest[] {
+  const suggestions: AllocationRequest[] = [];
+  required.forEach((need, inputId) => {
+    let outstandingKg = need.requiredKg;
+    for (const input of drawn.get(inputId)!.inputs) {
+      const kgPerUnit = netMassKgOf(1, input.unit)!;
+      const quantity = Math.max(Math.min(input.remaining, roundUp(outstandingKg / kgPerUnit)), 0);
+      suggestions.push({ inboundDeclarationId: input.inboundDeclarationId, quantity });
+      outstandingKg -= quantity * kgPerUnit;
+    }
+  });
+  return suggestions;
+}
+
+// Combined yield from one product to another over the fewest conversion steps
+function conversionPath(fromId: number, toId: number, conversions: ProductConversion[]): ConversionPath | null {
+  if (fromId === toId) {
+    return { yieldRatio: 1, lowYield: 1, highYield: 1, steps: 0 };
+  }
+
+  const visited = new Set([fromId]);
+  let frontier: { productId: number; path: ConversionPath }[] = [
+    { productId: fromId, path: { yieldRatio: 1, lowYield: 1, highYield: 1, steps: 0 } },
+  ];
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+    for (const { productId, path } of frontier) {
+      for (const conversion of conversions.filter(c => c.inputProductId === productId)) {
+        if (visited.has(conversion.outputProductId)) continue;
+        const tolerance = conversion.tolerancePercent / 100;
+        const extended = {
+          yieldRatio: path.yieldRatio * conversion.yieldRatio,
+          lowYield: path.lowYield * conversion.yieldRatio * (1 - tolerance),
+          highYield: path.highYield * conversion.yieldRatio * (1 + tolerance),
+          steps: path.steps + 1,
+        };
+        if (conversion.outputProductId === toId) return extended;
+        visited.add(conversion.outputProductId);
+        next.push({ productId: conversion.outputProductId, path: extended });
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
+
+function roundUp(value: number): number {
+  return Math.ceil(value * 1000) / 1000;
+}
+
+function formatKg(kg: number): string {
+  return `${Number(kg.toFixed(2)).toLocaleString('en')} kg`;
+}
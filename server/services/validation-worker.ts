@@ -0,0 +1,210 @@
+import { Declaration, ValidationJob } from '@shared/schema';
+import { storage } from '../storage';
+import { validateGeoJSON } from './geojson-validation';
+import { POINT_AREA_LIMIT_HA, summarizePlotAreas } from './plot-area';
+import { checkDeforestation } from './deforestation';
+
+export const VALIDATION_JOB_TYPES = ['geometry', 'satellite'] as const;
+
+const POLL_INTERVAL_MS = 2000;
+const RETRY_BASE_DELAY_MS = 10000;
+// Jobs still "running" after this long belonged to a worker that stopped
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+type JobHandler = (declaration: Declaration) => Promise<Record<string, unknown>>;
+
+const handlers: Record<string, JobHandler> = {
+  geometry: runGeometryCheck,
+  satellite: runSatelliteCheck,
+};
+
+let pollTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+/**
+ * Queue a geometry and a satellite check for a declaration, replacing any
+ * checks of the same type that have not started yet.
+ */
+export async function enqueueValidationJobs(declarationId: number): Promise<ValidationJob[]> {
+  const jobs: ValidationJob[] = [];
+  for (const type of VALIDATION_JOB_TYPES) {
+    await storage.cancelQueuedValidationJobs(declarationId, type);
+    jobs.push(await storage.createValidationJob({ declarationId, type, status: 'queued' }));
+  }
+  return jobs;
+}
+
+/**
+ * Start polling the validation_jobs table. Safe to call more than once.
+ */
+export function startValidationWorker() {
+  if (pollTimer) return;
+
+  storage.requeueStaleValidationJobs(new Date(Date.now() - STALE_JOB_MS))
+    .then(count => {
+      if (count > 0) console.log(`Requeued ${count} interrupted validation job(s)`);
+    })
+    .catch(error => console.error('Error requeueing validation jobs:', error));
+
+  pollTimer = setInterval(() => {
+    void drainQueue();
+  }, POLL_INTERVAL_MS);
+}
+
+export function stopValidationWorker() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+async function drainQueue() {
+  if (draining) return;
+  draining = true;
+  try {
+    let job = await storage.claimNextValidationJob();
+    while (job) {
+      await runJob(job);
+      job = await storage.claimNextValidationJob();
+    }
+  } catch (error) {
+    console.error('Validation worker error:', error);
+  } finally {
+    draining = false;
+  }
+}
+
+async function runJob(job: ValidationJob) {
+  // A worker stopped mid-run on the final attempt
+  if (job.attempts > job.maxAttempts) {
+    await failJob(job, job.failureReason || 'Validation was interrupted and retries are exhausted');
+    return;
+  }
+
+  const handler = handlers[job.type];
+  if (!handler) {
+    await failJob(job, `Unknown validation job type "${job.type}"`);
+    return;
+  }
+
+  const declaration = await storage.getDeclaration(job.declarationId);
+  if (!declaration) {
+    await failJob(job, `Declaration ${job.declarationId} no longer exists`);
+    return;
+  }
+
+  try {
+    const result = await handler(declaration);
+    await storage.updateValidationJob(job.id, {
+      status: 'succeeded',
+      result,
+      failureReason: null,
+      completedAt: new Date(),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Validation job ${job.id} (${job.type}) failed:`, error);
+
+    if (job.attempts < job.maxAttempts) {
+      await storage.updateValidationJob(job.id, {
+        status: 'queued',
+        failureReason: reason,
+        runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+      });
+    } else {
+      await failJob(job, reason);
+    }
+  }
+}
+
+async function failJob(job: ValidationJob, reason: string) {
+  await storage.updateValidationJob(job.id, {
+    status: 'failed',
+    failureReason: reason,
+    completedAt: new Date(),
+  });
+}
+
+/**
+ * Validate a declaration's geolocation and compute its plot areas. Invalid
+ * geometry and the EUDR 4 hectare rule (plots above 4 ha must be geolocated
+ * with polygons) make the geometry check fail.
+ */
+export function checkGeometry(geojsonData: unknown) {
+  const validation = validateGeoJSON(geojsonData);
+  const plotAreas = summarizePlotAreas(validation);
+  const oversizedPointPlots = plotAreas.filter(plot => plot.requiresPolygon).map(plot => plot.plotId);
+  return {
+    validation,
+    plotAreas,
+    oversizedPointPlots,
+    geometryFailed: !validation.valid || oversizedPointPlots.length > 0,
+  };
+}
+
+async function runGeometryCheck(declaration: Declaration) {
+  if (!declaration.geojsonData) {
+    return { skipped: true, reason: 'Declaration has no GeoJSON data' };
+  }
+
+  // A failed check flags the declaration; the flag is cleared once the
+  // corrected geometry passes
+  const { validation, plotAreas, oversizedPointPlots, geometryFailed } = checkGeometry(declaration.geojsonData);
+  const complianceStatus = geometryFailed
+    ? { complianceStatus: 'non-compliant-geometry' }
+    : declaration.complianceStatus === 'non-compliant-geometry' ? { complianceStatus: null } : {};
+  await storage.updateDeclaration(declaration.id, {
+    plotAreas,
+    ...complianceStatus,
+  });
+
+  if (oversizedPointPlots.length > 0) {
+    await storage.createActivity({
+      type: 'declaration',
+      description: `${oversizedPointPlots.length} plot(s) above ${POINT_AREA_LIMIT_HA} hectares are geolocated by a point instead of a polygon`,
+      userId: declaration.createdBy, // The check runs on the declaration author's behalf
+      entityType: 'declaration',
+      entityId: declaration.id,
+      metadata: { plotIds: oversizedPointPlots },
+      tenantEntityId: declaration.entityId,
+    });
+  }
+
+  return {
+    valid: validation.valid,
+    featureCount: validation.featureCount,
+    errors: validation.errors,
+    invalidPlots: validation.locations
+      .filter(location => location.status === 'invalid')
+      .map(location => location.productionPlaceId),
+    oversizedPointPlots,
+  };
+}
+
+async function runSatelliteCheck(declaration: Declaration) {
+  if (!declaration.geojsonData) {
+    return { skipped: true, reason: 'Declaration has no GeoJSON data' };
+  }
+
+  const deforestation = await checkDeforestation(declaration.geojsonData);
+  const lossPlots = deforestation.plots
+    .filter(plot => plot.lossDetected)
+    .map(plot => ({ plotId: plot.plotId, overlapHectares: plot.overlapHectares }));
+
+  // Risk level follows the deforestation check when a dataset is available.
+  // Forest loss flags the declaration unless its geometry is already flagged;
+  // the satellite flag is cleared once a check finds no loss.
+  if (deforestation.checked) {
+    const complianceStatus = lossPlots.length > 0
+      ? declaration.complianceStatus === 'non-compliant-geometry' ? {} : { complianceStatus: 'non-compliant-satellite' }
+      : declaration.complianceStatus === 'non-compliant-satellite' ? { complianceStatus: null } : {};
+    await storage.updateDeclaration(declaration.id, { riskLevel: deforestation.riskLevel, ...complianceStatus });
+  }
+
+  return {
+    checked: deforestation.checked,
+    riskLevel: deforestation.riskLevel,
+    datasets: deforestation.datasets,
+    lossPlots,
+  };
+}
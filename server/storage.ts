@@ -11,6 +11,8 @@ import {
   declarations,
   type Declaration,
   type InsertDeclaration,
+  type DeclarationUpdate,
+  type NewDeclaration,
   documents,
   type Document,
   type InsertDocument,
@@ -46,8 +48,31 @@ import {
   type InsertRole,
   products,
   type Product,
-  type InsertProduct
+  type InsertProduct,
+  type ValidationJob,
+  type InsertValidationJob,
+  type GeojsonEdit,
+  type InsertGeojsonEdit,
+  type DeclarationItem,
+  type InsertDeclarationItem,
+  type DeclarationTransition,
+  type InsertDeclarationTransition,
+  type DeclarationAllocation,
+  type ProductConversion,
+  type InsertProductConversion,
+  type DeclarationVersion,
+  type InsertDeclarationVersion,
+  type EUISSubmission,
+  type InsertEUISSubmission,
+  type EUFiling,
+  type InsertEUFiling,
+  type DeclarationReference,
+  type InsertDeclarationReference,
+  type DeclarationImport,
+  type InsertDeclarationImport
 } from "@shared/schema";
+import type { AllocationRequest, InboundBalance } from "./services/mass-balance";
+import { DEFAULT_ENTITY_ID } from "./utils/tenant-context";
 
 export interface IStorage {
   // User management
@@ -56,6 +81,7 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   listUsers(): Promise<User[]>;
+  updateUserRole(id: number, roleId: number | null): Promise<User | undefined>;
 
   // Supplier management
   getSupplier(id: number): Promise<Supplier | undefined>;
@@ -84,9 +110,16 @@ export interface IStorage {
   // Declaration management
   getDeclaration(id: number): Promise<Declaration | undefined>;
   createDeclaration(declaration: InsertDeclaration): Promise<Declaration>;
+  createDeclarationWithContent(
+    declaration: NewDeclaration,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    references: Omit<InsertDeclarationReference, "declarationId">[],
+    sealedBy?: number
+  ): Promise<Declaration>;
   updateDeclaration(
     id: number,
-    declaration: Partial<InsertDeclaration>,
+    declaration: DeclarationUpdate,
+    expectedStatus?: string,
   ): Promise<Declaration | undefined>;
   listDeclarations(type?: string): Promise<Declaration[]>;
   listDeclarationsBySupplier(supplierId: number): Promise<Declaration[]>;
@@ -191,6 +224,88 @@ export interface IStorage {
   searchProducts(query: string): Promise<Product[]>;
   getProduct(id: number): Promise<Product | undefined>;
 
+  // Validation job queue
+  createValidationJob(job: InsertValidationJob): Promise<ValidationJob>;
+  updateValidationJob(id: number, job: Partial<InsertValidationJob>): Promise<ValidationJob | undefined>;
+  claimNextValidationJob(): Promise<ValidationJob | undefined>;
+  cancelQueuedValidationJobs(declarationId: number, type: string): Promise<number>;
+  requeueStaleValidationJobs(startedBefore: Date): Promise<number>;
+  listValidationJobs(declarationId: number): Promise<ValidationJob[]>;
+  listLatestValidationJobs(): Promise<ValidationJob[]>;
+
+  // GeoJSON edit history
+  editDeclarationGeojson(
+    edit: InsertGeojsonEdit,
+    expectedStatus: string
+  ): Promise<{ declaration: Declaration; edit: GeojsonEdit } | undefined>;
+  listGeojsonEdits(declarationId: number): Promise<GeojsonEdit[]>;
+
+  // Declaration line items
+  createDeclarationItems(items: InsertDeclarationItem[]): Promise<DeclarationItem[]>;
+  listDeclarationItems(declarationId: number): Promise<DeclarationItem[]>;
+
+  // Declaration lifecycle
+  transitionDeclaration(
+    id: number,
+    expectedStatus: string,
+    transition: InsertDeclarationTransition,
+    seal?: { createdBy: number; reason: string | null }
+  ): Promise<Declaration | undefined>;
+  listDeclarationTransitions(declarationId: number): Promise<DeclarationTransition[]>;
+
+  // Declaration versions
+  listDeclarationVersions(declarationId: number): Promise<DeclarationVersion[]>;
+
+  // Mass-balance ledger
+  createOutboundDeclaration(
+    declaration: InsertDeclaration,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    allocations: AllocationRequest[],
+    references: Omit<InsertDeclarationReference, "declarationId">[],
+    sealedBy?: number
+  ): Promise<Declaration>;
+  listDeclarationAllocations(declarationId: number): Promise<DeclarationAllocation[]>;
+  listInboundBalances(): Promise<InboundBalance[]>;
+
+  // Product conversion factors
+  listProductConversions(): Promise<ProductConversion[]>;
+  getProductConversion(id: number): Promise<ProductConversion | undefined>;
+  getProductConversionByPair(inputProductId: number, outputProductId: number): Promise<ProductConversion | undefined>;
+  createProductConversion(conversion: InsertProductConversion): Promise<ProductConversion>;
+  updateProductConversion(id: number, conversion: Partial<InsertProductConversion>): Promise<ProductConversion | undefined>;
+  deleteProductConversion(id: number): Promise<boolean>;
+
+  // EU Information System submissions
+  claimEUISSubmission(submission: InsertEUISSubmission): Promise<EUISSubmission | undefined>;
+  createEUISSubmission(submission: InsertEUISSubmission): Promise<EUISSubmission>;
+  updateEUISSubmission(id: number, submission: Partial<InsertEUISSubmission>): Promise<EUISSubmission | undefined>;
+  listEUISSubmissions(declarationId: number): Promise<EUISSubmission[]>;
+  listPendingEUISSubmissions(): Promise<EUISSubmission[]>;
+  listUnconfirmedEUISSubmissions(claimedBefore: Date): Promise<EUISSubmission[]>;
+
+  // Declarations filed in EU TRACES by hand
+  createEUFiledDeclaration(
+    declaration: InsertDeclaration,
+    filing: Omit<InsertEUFiling, "filedDeclarationId">,
+    sealedBy?: number
+  ): Promise<{ declaration: Declaration; filing: EUFiling }>;
+  listEUFilings(): Promise<EUFiling[]>;
+
+  // EU reference numbers of the statements a declaration refers to
+  createDeclarationReferences(references: InsertDeclarationReference[]): Promise<DeclarationReference[]>;
+  listDeclarationReferences(declarationId: number): Promise<DeclarationReference[]>;
+  searchDeclarationsByReference(term: string): Promise<number[]>;
+
+  // Bulk declaration imports
+  createImportedDeclaration(
+    declaration: InsertDeclaration,
+    shipmentReference: string,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    references: Omit<InsertDeclarationReference, "declarationId">[]
+  ): Promise<Declaration | undefined>;
+  createDeclarationImport(declarationImport: InsertDeclarationImport): Promise<DeclarationImport>;
+  getDeclarationImport(id: number): Promise<DeclarationImport | undefined>;
+
   // Export/Import methods
   getAllSuppliers(): Promise<Supplier[]>;
   getAllDeclarations(): Promise<Declaration[]>;
@@ -317,6 +432,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values());
   }
 
+  async updateUserRole(id: number, roleId: number | null): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, roleId };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Supplier methods
   async getSupplier(id: number): Promise<Supplier | undefined> {
     return this.suppliers.get(id);
@@ -325,7 +449,7 @@ export class MemStorage implements IStorage {
   async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
     const id = this.supplierIdCounter++;
     const now = new Date();
-    const supplier: Supplier = { ...insertSupplier, id, lastUpdated: now };
+    const supplier: Supplier = { ...insertSupplier, id, entityId: DEFAULT_ENTITY_ID, lastUpdated: now };
     this.suppliers.set(id, supplier);
     return supplier;
   }
@@ -370,6 +494,7 @@ export class MemStorage implements IStorage {
     const customer: Customer = {
       ...insertCustomer,
       id,
+      entityId: DEFAULT_ENTITY_ID,
       createdAt: now,
       updatedAt: now,
     };
@@ -447,6 +572,10 @@ export class MemStorage implements IStorage {
     const declaration: Declaration = {
       ...insertDeclaration,
       id,
+      entityId: DEFAULT_ENTITY_ID,
+      euReferenceNumbers: null,
+      plotAreas: null,
+      shipmentReference: null,
       createdAt: now,
       lastUpdated: now,
     };
@@ -454,12 +583,29 @@ export class MemStorage implements IStorage {
     return declaration;
   }
 
+  // Refused before anything is written, so no declaration is left without its content
+  async createDeclarationWithContent(
+    declaration: NewDeclaration,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    references: Omit<InsertDeclarationReference, "declarationId">[],
+    sealedBy?: number
+  ): Promise<Declaration> {
+    if (items.length > 0 || references.length > 0 || sealedBy !== undefined) {
+      throw new Error("Declaration items, references and versions require database storage");
+    }
+    const created = await this.createDeclaration(declaration);
+    const withPlotAreas: Declaration = { ...created, plotAreas: declaration.plotAreas ?? null };
+    this.declarations.set(created.id, withPlotAreas);
+    return withPlotAreas;
+  }
+
   async updateDeclaration(
     id: number,
-    updateData: Partial<InsertDeclaration>,
+    updateData: DeclarationUpdate,
+    expectedStatus?: string,
   ): Promise<Declaration | undefined> {
     const declaration = this.declarations.get(id);
-    if (!declaration) {
+    if (!declaration || (expectedStatus !== undefined && declaration.status !== expectedStatus)) {
       return undefined;
     }
 
@@ -526,6 +672,7 @@ export class MemStorage implements IStorage {
     const document: Document = {
       ...insertDocument,
       id,
+      entityId: DEFAULT_ENTITY_ID,
       uploadedAt: now,
     };
     this.documents.set(id, document);
@@ -550,6 +697,7 @@ export class MemStorage implements IStorage {
       ...insertActivity,
       id,
       timestamp: now,
+      tenantEntityId: insertActivity.tenantEntityId ?? DEFAULT_ENTITY_ID,
     };
     this.activities.set(id, activity);
     return activity;
@@ -575,6 +723,7 @@ export class MemStorage implements IStorage {
     const task: Task = {
       ...insertTask,
       id,
+      entityId: DEFAULT_ENTITY_ID,
       completed: false,
       createdAt: now,
     };
@@ -674,6 +823,7 @@ export class MemStorage implements IStorage {
     const saq: Saq = {
       ...insertSaq,
       id,
+      entityId: DEFAULT_ENTITY_ID,
       createdAt: now,
       updatedAt: now,
     };
@@ -2158,6 +2308,188 @@ export class MemStorage implements IStorage {
     // This will be implemented in database-storage.ts
     return undefined;
   }
+
+  // Validation job methods (placeholder - the queue relies on Postgres row locking in database-storage.ts)
+  async createValidationJob(job: InsertValidationJob): Promise<ValidationJob> {
+    throw new Error("Validation jobs require database storage");
+  }
+
+  async updateValidationJob(id: number, job: Partial<InsertValidationJob>): Promise<ValidationJob | undefined> {
+    return undefined;
+  }
+
+  async claimNextValidationJob(): Promise<ValidationJob | undefined> {
+    return undefined;
+  }
+
+  async cancelQueuedValidationJobs(declarationId: number, type: string): Promise<number> {
+    return 0;
+  }
+
+  async requeueStaleValidationJobs(startedBefore: Date): Promise<number> {
+    return 0;
+  }
+
+  async listValidationJobs(declarationId: number): Promise<ValidationJob[]> {
+    return [];
+  }
+
+  async listLatestValidationJobs(): Promise<ValidationJob[]> {
+    return [];
+  }
+
+  // GeoJSON edit history methods (placeholder - actual implementation in database-storage.ts)
+  async editDeclarationGeojson(
+    edit: InsertGeojsonEdit,
+    expectedStatus: string
+  ): Promise<{ declaration: Declaration; edit: GeojsonEdit } | undefined> {
+    throw new Error("GeoJSON edit history requires database storage");
+  }
+
+  async listGeojsonEdits(declarationId: number): Promise<GeojsonEdit[]> {
+    return [];
+  }
+
+  // Declaration line item methods (placeholder - actual implementation in database-storage.ts)
+  async createDeclarationItems(items: InsertDeclarationItem[]): Promise<DeclarationItem[]> {
+    throw new Error("Declaration items require database storage");
+  }
+
+  async listDeclarationItems(declarationId: number): Promise<DeclarationItem[]> {
+    return [];
+  }
+
+  // Declaration lifecycle methods (placeholder - actual implementation in database-storage.ts)
+  async transitionDeclaration(
+    id: number,
+    expectedStatus: string,
+    transition: InsertDeclarationTransition,
+    seal?: { createdBy: number; reason: string | null }
+  ): Promise<Declaration | undefined> {
+    throw new Error("Declaration transitions require database storage");
+  }
+
+  async listDeclarationTransitions(declarationId: number): Promise<DeclarationTransition[]> {
+    return [];
+  }
+
+  // Declaration version methods (placeholder - actual implementation in database-storage.ts)
+  async listDeclarationVersions(declarationId: number): Promise<DeclarationVersion[]> {
+    return [];
+  }
+
+  // Mass-balance ledger methods (placeholder - actual implementation in database-storage.ts)
+  async createOutboundDeclaration(
+    declaration: InsertDeclaration,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    allocations: AllocationRequest[],
+    references: Omit<InsertDeclarationReference, "declarationId">[],
+    sealedBy?: number
+  ): Promise<Declaration> {
+    throw new Error("Mass-balance allocations require database storage");
+  }
+
+  async listDeclarationAllocations(declarationId: number): Promise<DeclarationAllocation[]> {
+    return [];
+  }
+
+  async listInboundBalances(): Promise<InboundBalance[]> {
+    return [];
+  }
+
+  // Product conversion factor methods (placeholder - actual implementation in database-storage.ts)
+  async listProductConversions(): Promise<ProductConversion[]> {
+    return [];
+  }
+
+  async getProductConversion(id: number): Promise<ProductConversion | undefined> {
+    return undefined;
+  }
+
+  async getProductConversionByPair(inputProductId: number, outputProductId: number): Promise<ProductConversion | undefined> {
+    return undefined;
+  }
+
+  async createProductConversion(conversion: InsertProductConversion): Promise<ProductConversion> {
+    throw new Error("Product conversions require database storage");
+  }
+
+  async updateProductConversion(id: number, conversion: Partial<InsertProductConversion>): Promise<ProductConversion | undefined> {
+    return undefined;
+  }
+
+  async deleteProductConversion(id: number): Promise<boolean> {
+    return false;
+  }
+
+  // EU Information System submission methods (placeholder - actual implementation in database-storage.ts)
+  async claimEUISSubmission(submission: InsertEUISSubmission): Promise<EUISSubmission | undefined> {
+    throw new Error("EU-IS submissions require database storage");
+  }
+
+  async createEUISSubmission(submission: InsertEUISSubmission): Promise<EUISSubmission> {
+    throw new Error("EU-IS submissions require database storage");
+  }
+
+  async updateEUISSubmission(id: number, submission: Partial<InsertEUISSubmission>): Promise<EUISSubmission | undefined> {
+    return undefined;
+  }
+
+  async listEUISSubmissions(declarationId: number): Promise<EUISSubmission[]> {
+    return [];
+  }
+
+  async listPendingEUISSubmissions(): Promise<EUISSubmission[]> {
+    return [];
+  }
+
+  async listUnconfirmedEUISSubmissions(claimedBefore: Date): Promise<EUISSubmission[]> {
+    return [];
+  }
+
+  // EU filing methods (placeholder - actual implementation in database-storage.ts)
+  async createEUFiledDeclaration(
+    declaration: InsertDeclaration,
+    filing: Omit<InsertEUFiling, "filedDeclarationId">,
+    sealedBy?: number
+  ): Promise<{ declaration: Declaration; filing: EUFiling }> {
+    throw new Error("EU filings require database storage");
+  }
+
+  async listEUFilings(): Promise<EUFiling[]> {
+    return [];
+  }
+
+  // Declaration reference methods (placeholder - actual implementation in database-storage.ts)
+  async createDeclarationReferences(references: InsertDeclarationReference[]): Promise<DeclarationReference[]> {
+    throw new Error("Declaration references require database storage");
+  }
+
+  async listDeclarationReferences(declarationId: number): Promise<DeclarationReference[]> {
+    return [];
+  }
+
+  async searchDeclarationsByReference(term: string): Promise<number[]> {
+    return [];
+  }
+
+  // Declaration import methods (placeholder - actual implementation in database-storage.ts)
+  async createImportedDeclaration(
+    declaration: InsertDeclaration,
+    shipmentReference: string,
+    items: Omit<InsertDeclarationItem, "declarationId">[],
+    references: Omit<InsertDeclarationReference, "declarationId">[]
+  ): Promise<Declaration | undefined> {
+    throw new Error("Declaration imports require database storage");
+  }
+
+  async createDeclarationImport(declarationImport: InsertDeclarationImport): Promise<DeclarationImport> {
+    throw new Error("Declaration imports require database storage");
+  }
+
+  async getDeclarationImport(id: number): Promise<DeclarationImport | undefined> {
+    return undefined;
+  }
 }
 
 // Import database storage
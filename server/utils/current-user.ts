@@ -0,0 +1,64 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { User } from '@shared/schema';
+import type { Impersonator } from './impersonation';
+
+/**
+ * The signed-in user a request acts as, taken from the session. While a
+ * platform admin impersonates this user, impersonator is the admin.
+ */
+export interface CurrentUser {
+  id: number;
+  username: string;
+  role: string | null;
+  roleId: number | null;
+  entityId: number | null;
+  impersonator: Impersonator | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: CurrentUser;
+    }
+  }
+}
+
+// Writes that have to work before anyone is signed in
+const PUBLIC_WRITE_PATHS = ['/api/auth/', '/api/supplier-activation/'];
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Attach the session user to the request as req.currentUser and refuse API
+ * writes without one, so every recorded actor is a real user
+ */
+export function currentUser(req: Request, res: Response, next: NextFunction) {
+  const user = req.user as Omit<User, 'password'> | undefined;
+  req.currentUser = user
+    ? {
+        id: user.id,
+        username: user.username,
+        role: user.role ?? null,
+        roleId: user.roleId ?? null,
+        entityId: user.entityId ?? null,
+        impersonator: req.session?.impersonator ?? null,
+      }
+    : undefined;
+
+  const isWrite = !READ_METHODS.includes(req.method);
+  const isPublic = PUBLIC_WRITE_PATHS.some(path => req.path.startsWith(path));
+  if (!req.currentUser && isWrite && req.path.startsWith('/api/') && !isPublic) {
+    return res.status(401).json({ message: 'Sign in to make changes' });
+  }
+  next();
+}
+
+/**
+ * Id of the user acting on a request. Writes without a session never reach
+ * the routes, so this only throws on a read route that forgot isAuthenticated.
+ */
+export function actorId(req: Request): number {
+  if (!req.currentUser) {
+    throw new Error('Request has no signed-in user');
+  }
+  return req.currentUser.id;
+}
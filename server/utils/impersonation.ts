@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Platform admin acting as another user, kept in the session while the
+ * impersonation lasts
+ */
+export interface Impersonator {
+  id: number;
+  username: string;
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    impersonator?: Impersonator;
+  }
+}
+
+/**
+ * Both identities behind an impersonated request
+ */
+export interface Impersonation {
+  impersonator: Impersonator;
+  user: { id: number; username: string };
+}
+
+const impersonations = new AsyncLocalStorage<Impersonation | undefined>();
+
+/**
+ * Run fn, and everything it awaits, as part of an impersonated request.
+ * Activities recorded inside carry both identities.
+ */
+export function runAsImpersonation<T>(impersonation: Impersonation | undefined, fn: () => T): T {
+  return impersonations.run(impersonation, fn);
+}
+
+export function currentImpersonation(): Impersonation | undefined {
+  return impersonations.getStore();
+}
+
+/**
+ * Activity metadata with the impersonation that caused it added under
+ * "impersonation"
+ */
+export function withImpersonation(metadata: unknown, impersonation: Impersonation): Record<string, unknown> {
+  const existing = metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? metadata as Record<string, unknown>
+    : metadata === null || metadata === undefined ? {} : { value: metadata };
+  return {
+    ...existing,
+    impersonation: {
+      impersonatorId: impersonation.impersonator.id,
+      impersonatorUsername: impersonation.impersonator.username,
+      userId: impersonation.user.id,
+      username: impersonation.user.username,
+    },
+  };
+}
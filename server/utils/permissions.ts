@@ -0,0 +1,153 @@
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { DEFAULT_ENTITY_ID, TenantScope, runInTenantScope } from './tenant-context';
+import { Impersonation, runAsImpersonation } from './impersonation';
+import {
+  GrantedPermissions,
+  PermissionAction,
+  PermissionModule,
+  PermissionTrigger,
+  PERMISSION_MODULES,
+  PERMISSION_TRIGGERS,
+  PLATFORM_ADMIN_ROLES,
+  grantedPermissions,
+  hasPermission,
+  permissionMatrix,
+} from '@shared/permissions';
+
+declare global {
+  namespace Express {
+    interface Request {
+      permissions?: GrantedPermissions;
+    }
+  }
+}
+
+/**
+ * The module a route acts on: a fixed module, any one of several (for routes
+ * serving both declaration directions), or one looked up from the request
+ */
+export type ModuleOf = PermissionModule | PermissionModule[] | ((req: Request) => Promise<PermissionModule>);
+
+export function isPlatformAdmin(req: Request): boolean {
+  return PLATFORM_ADMIN_ROLES.includes(req.currentUser?.role ?? '');
+}
+
+/**
+ * Tenant the signed-in user acts for: their entity, or every entity for
+ * platform admins. Users without an entity belong to the default one.
+ */
+export function tenantScopeOf(req: Request): TenantScope {
+  return {
+    entityId: req.currentUser?.entityId ?? DEFAULT_ENTITY_ID,
+    crossTenant: isPlatformAdmin(req),
+  };
+}
+
+/**
+ * Permissions of the signed-in user: everything for platform admins, otherwise
+ * what their role grants. Users without an active role may do nothing.
+ */
+export async function permissionsOf(req: Request): Promise<GrantedPermissions> {
+  if (req.permissions) {
+    return req.permissions;
+  }
+
+  let granted: GrantedPermissions = {};
+  if (isPlatformAdmin(req)) {
+    granted = grantedPermissions(permissionMatrix('all'));
+  } else if (req.currentUser?.roleId) {
+    const role = await storage.getRole(req.currentUser.roleId);
+    if (role?.isActive) {
+      granted = grantedPermissions(role.permissions);
+    }
+  }
+  req.permissions = granted;
+  return granted;
+}
+
+export async function can(req: Request, module: PermissionModule, action: PermissionAction | PermissionTrigger): Promise<boolean> {
+  return hasPermission(await permissionsOf(req), module, action);
+}
+
+// Message for a request the user's role does not allow
+export function forbiddenMessage(modules: PermissionModule[], action: PermissionAction | PermissionTrigger): string {
+  const actionLabel = action in PERMISSION_TRIGGERS ? `"${PERMISSION_TRIGGERS[action as PermissionTrigger]}"` : action;
+  const moduleLabels = modules.map(module => PERMISSION_MODULES[module].label).join(' or ');
+  return `Your role does not allow ${actionLabel} in ${moduleLabels}`;
+}
+
+/**
+ * Both identities behind a request made while a platform admin impersonates
+ * the signed-in user
+ */
+export function impersonationOf(req: Request): Impersonation | undefined {
+  const user = req.currentUser;
+  return user?.impersonator
+    ? { impersonator: user.impersonator, user: { id: user.id, username: user.username } }
+    : undefined;
+}
+
+/**
+ * Guard a cross-tenant route, such as entity and invitation management, so
+ * only platform admins reach it. Place it before requirePermission.
+ */
+export function requirePlatformAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.currentUser) {
+    return res.status(401).json({ message: 'Unauthorized' });
+  }
+  if (!isPlatformAdmin(req)) {
+    return res.status(403).json({ message: 'Only platform admins can manage entities and invitations' });
+  }
+  next();
+}
+
+/**
+ * Check a permission before an upload body is parsed, so requests the role
+ * does not allow are refused before anything is buffered. It needs no tenant
+ * scope; requirePermission still guards the handler after the body parser.
+ */
+export function requirePermissionBeforeBody(module: PermissionModule | PermissionModule[], action: PermissionAction | PermissionTrigger) {
+  const modules = Array.isArray(module) ? module : [module];
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.currentUser) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    try {
+      const granted = await permissionsOf(req);
+      if (!modules.some(candidate => hasPermission(granted, candidate, action))) {
+        return res.status(403).json({ message: forbiddenMessage(modules, action) });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Guard a route with a permission from the user's role: 401 without a
+ * session, 403 when the role does not grant the action on the module.
+ * The check and the route handler run in the user's tenant scope, and as
+ * part of any impersonation, so this must be the last middleware before the handler.
+ */
+export function requirePermission(module: ModuleOf, action: PermissionAction | PermissionTrigger) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.currentUser) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    runInTenantScope(tenantScopeOf(req), () => runAsImpersonation(impersonationOf(req), async () => {
+      try {
+        const modules = typeof module === 'function' ? [await module(req)] : Array.isArray(module) ? module : [module];
+        const granted = await permissionsOf(req);
+        if (!modules.some(candidate => hasPermission(granted, candidate, action))) {
+          return res.status(403).json({ message: forbiddenMessage(modules, action) });
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    }));
+  };
+}
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Entity that owns records created outside any tenant's request (seed data,
+ * rows from before tenancy) and users without an entity of their own
+ */
+export const DEFAULT_ENTITY_ID = 1;
+
+/**
+ * The tenant a request acts for. Storage reads only see the entity's records
+ * and writes are stamped with it; cross-tenant requests see every entity's.
+ */
+export interface TenantScope {
+  entityId: number;
+  crossTenant: boolean;
+}
+
+const scopes = new AsyncLocalStorage<TenantScope>();
+
+/**
+ * Run fn, and everything it awaits, as the given tenant
+ */
+export function runInTenantScope<T>(scope: TenantScope, fn: () => T): T {
+  return scopes.run(scope, fn);
+}
+
+/**
+ * Entity reads are limited to, or undefined when they are not limited:
+ * for platform admins and for work outside a signed-in request
+ */
+export function tenantFilterId(): number | undefined {
+  const scope = scopes.getStore();
+  return scope && !scope.crossTenant ? scope.entityId : undefined;
+}
+
+/**
+ * Entity a new record belongs to. Tenants always write to their own entity;
+ * platform admins and background work may name another one.
+ */
+export function tenantEntityIdFor(requested?: number | null): number {
+  const scope = scopes.getStore();
+  if (scope && !scope.crossTenant) {
+    return scope.entityId;
+  }
+  return requested ?? scope?.entityId ?? DEFAULT_ENTITY_ID;
+}
@@ -0,0 +1,94 @@
+// Declaration lifecycle shared by the transition endpoint and the detail view.
+// declarations.status holds one of these states; transitions are only made
+// through POST /api/declarations/:id/transitions.
+
+import type { PermissionAction, PermissionTrigger } from "./permissions";
+
+export const DECLARATION_STATES = [
+  "draft",
+  "submitted",
+  "under_review",
+  "approved",
+  "rejected",
+  "filed",
+  "amended",
+  "withdrawn",
+] as const;
+
+export type DeclarationState = typeof DECLARATION_STATES[number];
+
+export type DeclarationAction =
+  | "submit"
+  | "start_review"
+  | "approve"
+  | "reject"
+  | "rework"
+  | "file"
+  | "amend"
+  | "resubmit"
+  | "withdraw";
+
+export interface DeclarationTransitionRule {
+  action: DeclarationAction;
+  label: string;
+  from: DeclarationState[];
+  to: DeclarationState;
+  permission: PermissionAction | PermissionTrigger; // Role permission on the declaration's module needed to take this step
+  requiresReason: boolean;
+}
+
+// States whose content may still change; entering "submitted" seals the content
+// as a new declaration version
+export const EDITABLE_STATES: DeclarationState[] = ["draft", "amended"];
+
+export const DECLARATION_TRANSITIONS: DeclarationTransitionRule[] = [
+  { action: "submit", label: "Submit", from: ["draft"], to: "submitted", permission: "edit", requiresReason: false },
+  { action: "start_review", label: "Start review", from: ["submitted"], to: "under_review", permission: "approve", requiresReason: false },
+  { action: "approve", label: "Approve", from: ["under_review"], to: "approved", permission: "approve", requiresReason: false },
+  { action: "reject", label: "Reject", from: ["under_review"], to: "rejected", permission: "approve", requiresReason: true },
+  { action: "rework", label: "Return to draft", from: ["rejected"], to: "draft", permission: "edit", requiresReason: false },
+  { action: "file", label: "Mark as filed", from: ["approved"], to: "filed", permission: "file_eu_is", requiresReason: false },
+  { action: "amend", label: "Amend", from: ["filed"], to: "amended", permission: "edit", requiresReason: true },
+  { action: "resubmit", label: "Resubmit", from: ["amended"], to: "submitted", permission: "edit", requiresReason: false },
+  { action: "withdraw", label: "Withdraw", from: ["filed", "amended"], to: "withdrawn", permission: "edit", requiresReason: true },
+];
+
+export const DECLARATION_STATE_LABELS: Record<DeclarationState, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  under_review: "Under review",
+  approved: "Approved",
+  rejected: "Rejected",
+  filed: "Filed",
+  amended: "Amended",
+  withdrawn: "Withdrawn",
+};
+
+/**
+ * Lifecycle state of a stored status. Declarations saved before the
+ * lifecycle used free-text statuses, which map onto the nearest state.
+ */
+export function lifecycleStateOf(status: string | null | undefined): DeclarationState {
+  if ((DECLARATION_STATES as readonly string[]).includes(status ?? "")) {
+    return status as DeclarationState;
+  }
+  switch (status) {
+    case "pending":
+      return "submitted";
+    case "review":
+    case "validating":
+    case "non-compliant-geometry":
+    case "non-compliant-satellite":
+      return "under_review";
+    default:
+      return "draft";
+  }
+}
+
+/**
+ * Steps available from a state. Who may take each one is decided by the
+ * rule's permission in the user's role.
+ */
+export function availableTransitions(state: DeclarationState): DeclarationTransitionRule[] {
+  return DECLARATION_TRANSITIONS.filter(rule => rule.from.includes(state));
+}
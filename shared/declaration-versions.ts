@@ -0,0 +1,71 @@
+// Immutable declaration versions shared by the versions endpoints and the detail
+// view. A version is sealed each time a declaration is submitted; amending a
+// filed declaration reopens it, and its resubmission seals the next version.
+
+import type { GeoJSONEditChange } from "./geojson-validation";
+
+// Declaration fields that make up a submission, with their display labels
+export const VERSIONED_DECLARATION_FIELDS = {
+  type: "Type",
+  supplierId: "Supplier",
+  customerId: "Customer",
+  productName: "Product",
+  productDescription: "Description",
+  hsnCode: "HSN code",
+  quantity: "Quantity",
+  unit: "Unit",
+  riskLevel: "Risk level",
+  startDate: "Valid from",
+  endDate: "Valid until",
+  industry: "Industry",
+  rmId: "RM ID",
+  eudrReferenceNumber: "EUDR reference number",
+  eudrVerificationNumber: "EUDR verification number",
+  previousReferenceNumber: "Previous reference number",
+  euReferenceNumbers: "Upstream EU reference numbers",
+} as const;
+
+export type VersionedDeclarationField = keyof typeof VERSIONED_DECLARATION_FIELDS;
+
+export interface DeclarationSnapshotItem {
+  productName: string;
+  scientificName: string | null;
+  hsCode: string | null;
+  quantity: number | null;
+  unit: string | null;
+  netMassKg: number | null;
+  countryOfProduction: string | null;
+  rmId: string | null;
+  skuCode: string | null;
+  batchId: string | null;
+}
+
+// Content of a declaration as it was submitted
+export interface DeclarationSnapshot {
+  fields: Record<VersionedDeclarationField, unknown>;
+  items: DeclarationSnapshotItem[];
+  geojsonData: unknown;
+}
+
+export interface DeclarationFieldChange {
+  field: VersionedDeclarationField;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface DeclarationItemChange {
+  key: string; // Product name and batch, which identify an item across versions
+  change: "added" | "removed" | "changed";
+  before: DeclarationSnapshotItem | null;
+  after: DeclarationSnapshotItem | null;
+}
+
+// Differences between two versions, or a version and the working copy
+export interface DeclarationVersionDiff {
+  from: number;
+  to: number | "current";
+  fields: DeclarationFieldChange[];
+  items: DeclarationItemChange[];
+  geometry: GeoJSONEditChange[];
+}
@@ -0,0 +1,60 @@
+// EU Information System reference numbers shared by the declaration endpoints,
+// the declaration wizard and the detail view. The EU-IS registers each DDS
+// under a reference number (two-digit year, ISO country code and ten letters
+// or digits, e.g. 25FRA1B2C3D4E5) and a verification number of eight letters
+// or digits; a DDS refers to upstream statements by both.
+
+export const EU_REFERENCE_NUMBER_PATTERN = /^\d{2}[A-Z]{2}[A-Z0-9]{10}$/;
+export const EU_VERIFICATION_NUMBER_PATTERN = /^[A-Z0-9]{8}$/;
+
+// Who filed the referenced statement: a supplier, or we did in the EU-IS
+export const EU_REFERENCE_SOURCES = ["supplier", "self_filed"] as const;
+export type EUReferenceSource = typeof EU_REFERENCE_SOURCES[number];
+
+export const EU_REFERENCE_SOURCE_LABELS: Record<EUReferenceSource, string> = {
+  supplier: "Supplier-provided",
+  self_filed: "Self-filed",
+};
+
+// "verified" pairs were returned by the EU-IS itself; the others were entered
+// by hand. Invalid pairs are refused on entry, so only older data has them.
+export const EU_REFERENCE_VALIDATION_STATUSES = ["verified", "valid_format", "invalid_format"] as const;
+export type EUReferenceValidationStatus = typeof EU_REFERENCE_VALIDATION_STATUSES[number];
+
+export const EU_REFERENCE_VALIDATION_LABELS: Record<EUReferenceValidationStatus, string> = {
+  verified: "Verified in EU-IS",
+  valid_format: "Valid format",
+  invalid_format: "Invalid format",
+};
+
+// Reference numbers are printed in groups and in either case; compare them without either
+export function normalizeReferenceNumber(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Why a reference/verification pair does not look like one the EU-IS issued,
+ * or null when it does. Both numbers are normalized first.
+ */
+export function referenceFormatError(referenceNumber: string, verificationNumber: string): string | null {
+  const reference = normalizeReferenceNumber(referenceNumber);
+  const verification = normalizeReferenceNumber(verificationNumber);
+  if (!reference) {
+    return "Reference number is required";
+  }
+  if (!EU_REFERENCE_NUMBER_PATTERN.test(reference)) {
+    return `${reference} is not an EU-IS reference number (two-digit year, country code and 10 letters or digits)`;
+  }
+  if (!verification) {
+    return `Verification number is required for ${reference}`;
+  }
+  if (!EU_VERIFICATION_NUMBER_PATTERN.test(verification)) {
+    return `Verification number for ${reference} must be 8 letters or digits`;
+  }
+  return null;
+}
+
+// Status of a pair entered by hand
+export function referenceValidationStatus(referenceNumber: string, verificationNumber: string): EUReferenceValidationStatus {
+  return referenceFormatError(referenceNumber, verificationNumber) ? "invalid_format" : "valid_format";
+}
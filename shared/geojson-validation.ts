@@ -0,0 +1,158 @@
+// Shapes shared between the GeoJSON validation service and the validation
+// dialogs in the declaration wizards.
+
+export type ValidationStatus = "compliant" | "non-compliant" | "warning";
+export type CheckType = "geometry" | "satellite";
+
+export interface ValidationIssue {
+  type: CheckType;
+  message: string;
+  details?: string;
+  severity: "error" | "warning";
+}
+
+export interface ValidationPlot {
+  id: string;
+  name: string;
+  plotId: string;
+  area: number;
+  areaUnit: string;
+  geometryType?: string;
+  computedArea?: number; // Geodesic area in hectares (polygons only)
+  declaredArea?: number; // Area from the feature's properties, in hectares
+  perimeter: number;
+  perimeterUnit: string;
+  coordinates: string;
+  vertices: number;
+  status: ValidationStatus;
+  geometryStatus: ValidationStatus;
+  satelliteStatus: ValidationStatus;
+  lastValidated: string;
+  createdAt: string;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationLocation {
+  id: string;
+  productionPlaceId: string;
+  producerName?: string;
+  area?: string;
+  status: "valid" | "invalid";
+  coordinates?: [number, number]; // [longitude, latitude]
+  errors?: string[];
+}
+
+// Stored per plot on declarations.plotAreas
+export interface PlotArea {
+  plotId: string;
+  geometryType: string | null;
+  computedHectares: number | null;
+  declaredHectares: number | null;
+  requiresPolygon: boolean; // Point geolocation for a plot above 4 ha
+}
+
+export interface GeoJSONValidationResult {
+  valid: boolean;
+  featureCount: number;
+  errors: string[]; // Document-level problems (not tied to a single feature)
+  locations: ValidationLocation[];
+  plots: ValidationPlot[];
+}
+
+// Result of intersecting plots with the forest-loss datasets
+export interface DeforestationPlotResult {
+  plotId: string;
+  status: ValidationStatus;
+  lossDetected: boolean;
+  overlapHectares: number | null; // null for point plots and plots without data coverage
+  overlapPercent: number | null;
+  issues: ValidationIssue[];
+}
+
+export interface DeforestationCheckResult {
+  checked: boolean; // false when no forest-loss dataset is configured
+  cutoffDate: string;
+  datasets: string[];
+  riskLevel: "low" | "medium" | "high";
+  plots: DeforestationPlotResult[];
+}
+
+/**
+ * Merge satellite (deforestation) results into geometry-validated plots.
+ */
+export function applySatelliteResults(
+  plots: ValidationPlot[],
+  result: DeforestationCheckResult
+): ValidationPlot[] {
+  return plots.map(plot => {
+    const satellite = result.plots.find(entry => entry.plotId === plot.plotId);
+    if (!satellite) return plot;
+
+    const statuses = [plot.geometryStatus, satellite.status];
+    const status: ValidationStatus = statuses.includes("non-compliant")
+      ? "non-compliant"
+      : statuses.includes("warning") ? "warning" : "compliant";
+
+    return {
+      ...plot,
+      status,
+      satelliteStatus: satellite.status,
+      issues: [...plot.issues.filter(issue => issue.type !== "satellite"), ...satellite.issues],
+    };
+  });
+}
+
+// A plot of one declaration that coincides with a plot of another declaration
+export interface PlotOverlap {
+  plotId: string;
+  kind: "identical-geometry" | "overlap" | "duplicate-production-place";
+  otherDeclarationId: number;
+  otherPlotId: string;
+  otherSupplierId: number;
+  otherSupplierName?: string;
+  otherProductName: string;
+  differentSupplier: boolean;
+  overlapHectares: number | null; // null when either plot is a point
+  overlapPercent: number | null; // Share of the smaller plot
+}
+
+export interface DeclarationOverlapResult {
+  declarationId: number;
+  checkedPlots: number;
+  overlaps: PlotOverlap[];
+}
+
+// A plot-level difference between two versions of a declaration's GeoJSON
+export interface GeoJSONEditChange {
+  plotId: string;
+  change: "added" | "deleted" | "geometry-changed" | "properties-changed";
+  geometryType: string | null;
+}
+
+// Plot files the server can convert to a WGS84 FeatureCollection
+export type GeoFileFormat = "geojson" | "kml" | "kmz" | "shapefile" | "gpx";
+
+export const GEO_FILE_EXTENSIONS: Record<string, GeoFileFormat> = {
+  ".geojson": "geojson",
+  ".json": "geojson",
+  ".kml": "kml",
+  ".kmz": "kmz",
+  ".zip": "shapefile", // Zipped .shp/.dbf/.prj set
+  ".gpx": "gpx",
+};
+
+export interface GeoFileConversionResult {
+  format: GeoFileFormat;
+  geojsonData: {
+    type: "FeatureCollection";
+    features: any[];
+  };
+  warnings: string[]; // Anything changed or dropped while converting
+}
+
+// A plot left out of an EU Information System GeoJSON export
+export interface EUISExportRejection {
+  plotId: string;
+  geometryType: string | null;
+  reasons: string[];
+}
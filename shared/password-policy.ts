@@ -0,0 +1,6 @@
+// Password rules for new accounts, shared by the register and supplier
+// activation forms and the server-side check in services/password-policy.ts.
+// The server also rejects passwords found on its bundled breach list.
+
+export const PASSWORD_MIN_LENGTH = 12;
+export const PASSWORD_MAX_LENGTH = 128;
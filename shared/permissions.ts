@@ -0,0 +1,232 @@
+// Role permissions shared by the permission middleware, the role editor in
+// settings and the client-side action checks. roles.permissions holds the
+// matrix the role editor saves: one row per module with a value per action,
+// and a sub-module row per trigger (e.g. "File in EU-IS") on declarations.
+
+export const PERMISSION_ACTIONS = ["view", "create", "edit", "delete", "approve"] as const;
+export type PermissionAction = typeof PERMISSION_ACTIONS[number];
+
+// Sub-module triggers, named as in the role editor
+export const PERMISSION_TRIGGERS = {
+  geometry_check: "Geometry Check",
+  satellite_check: "Satellite Check",
+  notify_suppliers: "Notify Non-Compliant Suppliers",
+  file_eu_is: "File in EU-IS",
+} as const;
+export type PermissionTrigger = keyof typeof PERMISSION_TRIGGERS;
+
+interface PermissionModuleDefinition {
+  label: string;
+  actions: readonly PermissionAction[];
+  triggers: readonly PermissionTrigger[];
+}
+
+const DECLARATION_TRIGGERS = Object.keys(PERMISSION_TRIGGERS) as PermissionTrigger[];
+
+export const PERMISSION_MODULES = {
+  dashboard: { label: "Dashboard", actions: ["view"], triggers: [] },
+  products: { label: "Product Masters", actions: ["view", "create", "edit", "delete"], triggers: [] },
+  suppliers: { label: "Supplier Management", actions: ["view", "create", "edit"], triggers: [] },
+  customers: { label: "Customer Management", actions: ["view", "create", "edit"], triggers: [] },
+  inbound_declarations: { label: "Inbound Declaration", actions: ["view", "create", "edit", "approve"], triggers: DECLARATION_TRIGGERS },
+  outbound_declarations: { label: "Outbound Declaration", actions: ["view", "create", "edit", "approve"], triggers: DECLARATION_TRIGGERS },
+  locations: { label: "Location Masters", actions: ["view", "create", "edit"], triggers: [] },
+  documents: { label: "Documents", actions: ["view", "create"], triggers: [] },
+  saqs: { label: "Supplier Assessments", actions: ["view", "create", "edit"], triggers: [] },
+  tasks: { label: "Tasks", actions: ["view", "create", "edit"], triggers: [] },
+  administration: { label: "Administration", actions: ["view", "create", "edit", "delete"], triggers: [] },
+} satisfies Record<string, PermissionModuleDefinition>;
+export type PermissionModule = keyof typeof PERMISSION_MODULES;
+
+// Platform administrators are not bound to any role
+export const PLATFORM_ADMIN_ROLES = ["platformAdmin", "platform_admin"];
+
+// Matrix values are booleans from checkboxes, or the editor's labels: "N/A" for
+// actions a module does not have, "denied", and "allowed"/"trigger" or a
+// trigger description such as "Submit to EU-IS" when granted.
+export type PermissionValue = boolean | string;
+
+export interface SubModulePermission {
+  name: string;
+  view: PermissionValue;
+  create: PermissionValue;
+  edit: PermissionValue;
+  delete: PermissionValue;
+  approve: PermissionValue;
+}
+
+export interface ModulePermission {
+  module: string;
+  view: PermissionValue;
+  create: PermissionValue;
+  edit: PermissionValue;
+  delete: PermissionValue;
+  approve: PermissionValue;
+  isExpandable: boolean;
+  subModules: SubModulePermission[];
+}
+
+// What a user may do: granted actions and triggers per module
+export type GrantedPermissions = Partial<Record<PermissionModule, (PermissionAction | PermissionTrigger)[]>>;
+
+function isGranted(value: PermissionValue | undefined): boolean {
+  if (typeof value === "boolean") return value;
+  return !!value && value !== "N/A" && value !== "denied";
+}
+
+/**
+ * Actions and triggers a role's permission matrix grants. Rows are matched by
+ * module label; rows for unknown modules and values in the wrong shape grant
+ * nothing. A trigger without its own sub-module row follows the module's approve.
+ */
+export function grantedPermissions(matrix: unknown): GrantedPermissions {
+  const rows = Array.isArray(matrix) ? (matrix as Partial<ModulePermission>[]) : [];
+  const granted: GrantedPermissions = {};
+
+  for (const [key, definition] of Object.entries(PERMISSION_MODULES) as [PermissionModule, PermissionModuleDefinition][]) {
+    const row = rows.find(candidate => candidate?.module === definition.label);
+    if (!row) continue;
+
+    const allowed: (PermissionAction | PermissionTrigger)[] =
+      definition.actions.filter(action => isGranted(row[action]));
+    for (const trigger of definition.triggers) {
+      const subModule = Array.isArray(row.subModules)
+        ? row.subModules.find(candidate => candidate?.name === PERMISSION_TRIGGERS[trigger])
+        : undefined;
+      if (subModule ? isGranted(subModule.approve) : isGranted(row.approve)) {
+        allowed.push(trigger);
+      }
+    }
+    if (allowed.length > 0) {
+      granted[key] = allowed;
+    }
+  }
+  return granted;
+}
+
+export function hasPermission(granted: GrantedPermissions, module: PermissionModule, action: PermissionAction | PermissionTrigger): boolean {
+  return granted[module]?.includes(action) ?? false;
+}
+
+/**
+ * Permission matrix in the role editor's shape. Modules and actions not
+ * listed in `grants` are denied; use "all" for a role with full access.
+ */
+export function permissionMatrix(grants: GrantedPermissions | "all"): ModulePermission[] {
+  return (Object.entries(PERMISSION_MODULES) as [PermissionModule, PermissionModuleDefinition][]).map(([key, definition]) => {
+    const allowed = grants === "all" ? [...definition.actions, ...definition.triggers] : grants[key] ?? [];
+    const value = (action: PermissionAction): PermissionValue =>
+      !definition.actions.includes(action) ? "N/A" : allowed.includes(action);
+
+    return {
+      module: definition.label,
+      view: value("view"),
+      create: value("create"),
+      edit: value("edit"),
+      delete: value("delete"),
+      approve: definition.actions.includes("approve") ? (allowed.includes("approve") ? "trigger" : "denied") : "N/A",
+      isExpandable: definition.triggers.length > 0,
+      subModules: definition.triggers.map(trigger => ({
+        name: PERMISSION_TRIGGERS[trigger],
+        view: "N/A",
+        create: "N/A",
+        edit: "N/A",
+        delete: "N/A",
+        approve: allowed.includes(trigger) ? "trigger" : "denied",
+      })),
+    };
+  });
+}
+
+const DECLARATION_WORK: (PermissionAction | PermissionTrigger)[] = ["view", "create", "edit", "geometry_check", "satellite_check"];
+const DECLARATION_REVIEW: (PermissionAction | PermissionTrigger)[] = ["view", "edit", "approve", "geometry_check", "satellite_check", "notify_suppliers", "file_eu_is"];
+const DECLARATION_FILING: (PermissionAction | PermissionTrigger)[] = [...DECLARATION_WORK, "approve", "notify_suppliers", "file_eu_is"];
+
+// Roles seeded for the demo personas, keyed by users.role
+export const DEFAULT_ROLE_GRANTS: Record<string, GrantedPermissions | "all"> = {
+  admin: "all",
+  compliance_officer: {
+    dashboard: ["view"],
+    products: ["view"],
+    suppliers: ["view"],
+    customers: ["view"],
+    inbound_declarations: DECLARATION_REVIEW,
+    outbound_declarations: DECLARATION_REVIEW,
+    locations: ["view"],
+    documents: ["view", "create"],
+    saqs: ["view"],
+    tasks: ["view", "create", "edit"],
+  },
+  supplier_manager: {
+    dashboard: ["view"],
+    products: ["view"],
+    suppliers: ["view", "create", "edit"],
+    inbound_declarations: ["view"],
+    locations: ["view"],
+    documents: ["view", "create"],
+    saqs: ["view", "create", "edit"],
+    tasks: ["view", "create", "edit"],
+  },
+  declaration_specialist: {
+    dashboard: ["view"],
+    products: ["view"],
+    suppliers: ["view"],
+    customers: ["view"],
+    inbound_declarations: DECLARATION_WORK,
+    outbound_declarations: DECLARATION_WORK,
+    locations: ["view", "create", "edit"],
+    documents: ["view", "create"],
+    tasks: ["view", "create", "edit"],
+  },
+  auditor: {
+    dashboard: ["view"],
+    products: ["view"],
+    suppliers: ["view"],
+    customers: ["view"],
+    inbound_declarations: ["view"],
+    outbound_declarations: ["view"],
+    locations: ["view"],
+    documents: ["view"],
+    saqs: ["view"],
+    tasks: ["view"],
+  },
+  supplier: {
+    dashboard: ["view"],
+    products: ["view"],
+    outbound_declarations: DECLARATION_WORK,
+    locations: ["view", "create", "edit"],
+    documents: ["view", "create"],
+    saqs: ["view", "edit"],
+    tasks: ["view", "edit"],
+  },
+  customer: {
+    dashboard: ["view"],
+    inbound_declarations: ["view"],
+    documents: ["view"],
+    tasks: ["view"],
+  },
+  eu_operator: {
+    dashboard: ["view"],
+    products: ["view", "create", "edit"],
+    suppliers: ["view", "create", "edit"],
+    customers: ["view", "create", "edit"],
+    inbound_declarations: DECLARATION_FILING,
+    outbound_declarations: DECLARATION_FILING,
+    locations: ["view", "create", "edit"],
+    documents: ["view", "create"],
+    saqs: ["view"],
+    tasks: ["view", "create", "edit"],
+  },
+  eu_entity: {
+    dashboard: ["view"],
+    products: ["view", "create", "edit", "delete"],
+    suppliers: ["view", "create", "edit"],
+    customers: ["view", "create", "edit"],
+    inbound_declarations: DECLARATION_FILING,
+    outbound_declarations: DECLARATION_FILING,
+    locations: ["view", "create", "edit"],
+    documents: ["view", "create"],
+    saqs: ["view", "create", "edit"],
+    tasks: ["view", "create", "edit"],
+  },
+};
@@ -0,0 +1,87 @@
+// Demo personas, one per role, seeded as users of the default entity only when
+// the DEMO_PERSONA_PASSWORD environment variable gives them a password.
+// Platform admins can also act as them through impersonation.
+
+export interface Persona {
+  id: number;
+  name: string;
+  role: string;
+  description: string;
+  avatar: string;
+  email: string;
+}
+
+export const PERSONAS: Persona[] = [
+  {
+    id: 1,
+    name: "Admin",
+    role: "admin",
+    description: "Full access to all features",
+    avatar: "A",
+    email: "admin@eudrportal.com"
+  },
+  {
+    id: 2,
+    name: "Compliance Officer",
+    role: "compliance_officer",
+    description: "Reviews and approves declarations",
+    avatar: "C",
+    email: "compliance@eudrportal.com"
+  },
+  {
+    id: 3,
+    name: "Supplier Manager",
+    role: "supplier_manager",
+    description: "Manages supplier relationships",
+    avatar: "S",
+    email: "supplier@eudrportal.com"
+  },
+  {
+    id: 4,
+    name: "Declaration Specialist",
+    role: "declaration_specialist",
+    description: "Creates and manages declarations",
+    avatar: "D",
+    email: "declarations@eudrportal.com"
+  },
+  {
+    id: 5,
+    name: "Auditor",
+    role: "auditor",
+    description: "Reviews compliance data",
+    avatar: "Au",
+    email: "auditor@eudrportal.com"
+  },
+  {
+    id: 6,
+    name: "Supplier",
+    role: "supplier",
+    description: "External supplier with limited access",
+    avatar: "Su",
+    email: "external@supplier.com"
+  },
+  {
+    id: 7,
+    name: "Customer",
+    role: "customer",
+    description: "Receives and processes inbound declarations",
+    avatar: "Cu",
+    email: "customer@eudrportal.com"
+  },
+  {
+    id: 8,
+    name: "EU Operator",
+    role: "eu_operator",
+    description: "Responsible for EU market entry compliance",
+    avatar: "EU",
+    email: "operator@eudrportal.com"
+  },
+  {
+    id: 9,
+    name: "EU Entity",
+    role: "eu_entity",
+    description: "EU-based entity with comprehensive compliance access",
+    avatar: "EE",
+    email: "entity@eudrportal.com"
+  }
+];
@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { EU_REFERENCE_SOURCES, EU_REFERENCE_VALIDATION_STATUSES } from "./eu-reference-numbers";
 
 // Users
 export const users = pgTable("users", {
@@ -18,6 +19,7 @@ export const users = pgTable("users", {
   trialEndDate: timestamp("trial_end_date"),
   subscriptionStatus: text("subscription_status").default("trial"), // 'trial', 'licensed'
   entityId: integer("entity_id"), // Reference to the entity this user belongs to
+  roleId: integer("role_id"), // Role whose permissions this user has
   registrationStatus: text("registration_status").default("approved"), // 'pending', 'approved', 'rejected'
 });
 
@@ -99,12 +101,13 @@ export const suppliers = pgTable("suppliers", {
   status: text("status").notNull().default("pending"),
   riskLevel: text("risk_level").default("low"),
   riskScore: integer("risk_score").default(0),
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this supplier belongs to
   createdAt: timestamp("created_at").defaultNow(),
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
 export const insertSupplierSchema = createInsertSchema(suppliers)
-  .omit({ id: true, createdAt: true, lastUpdated: true })
+  .omit({ id: true, createdAt: true, lastUpdated: true, entityId: true })
   .extend({
     // Make some fields optional for the API
     riskLevel: z.string().optional(),
@@ -133,11 +136,12 @@ export const declarations = pgTable("declarations", {
   productName: text("product_name").notNull(),
   productDescription: text("product_description"),
   hsnCode: text("hsn_code"),
-  quantity: integer("quantity"),
+  quantity: doublePrecision("quantity"), // Exact, as inbound quantities are the stock of the mass-balance ledger
   unit: text("unit"),
   status: text("status").notNull().default("pending"), // "approved", "review", "rejected", "pending"
   riskLevel: text("risk_level").notNull().default("medium"), // "low", "medium", "high"
   geojsonData: json("geojson_data"),
+  plotAreas: json("plot_areas"), // Computed hectares per plot (PlotArea[]), derived from geojsonData
   startDate: timestamp("start_date"),
   endDate: timestamp("end_date"),
   createdBy: integer("created_by").notNull(),
@@ -148,10 +152,15 @@ export const declarations = pgTable("declarations", {
   eudrReferenceNumber: text("eudr_reference_number"),
   eudrVerificationNumber: text("eudr_verification_number"),
   previousReferenceNumber: text("previous_reference_number"),
-  euReferenceNumbers: text("eu_reference_numbers"), // JSON string storing multiple reference number pairs
+  euReferenceNumbers: text("eu_reference_numbers"), // Legacy JSON list of reference pairs; now kept in declaration_references
   ddsStatus: text("dds_status"),
   complianceStatus: text("compliance_status"),
-});
+  shipmentReference: text("shipment_reference"), // Shipment reference of a bulk-imported declaration
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this declaration belongs to
+}, (table) => [
+  // An entity can import each shipment only once
+  uniqueIndex("declarations_entity_shipment_reference_idx").on(table.entityId, table.shipmentReference),
+]);
 
 export const insertDeclarationSchema = createInsertSchema(declarations).pick({
   type: true,
@@ -173,7 +182,6 @@ export const insertDeclarationSchema = createInsertSchema(declarations).pick({
   eudrReferenceNumber: true,
   eudrVerificationNumber: true,
   previousReferenceNumber: true,
-  euReferenceNumbers: true,
   ddsStatus: true,
   complianceStatus: true,
 });
@@ -189,6 +197,7 @@ export const documents = pgTable("documents", {
   expiresAt: timestamp("expires_at"),
   documentType: text("document_type").notNull(),
   filePath: text("file_path"),
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this document belongs to
 });
 
 export const insertDocumentSchema = createInsertSchema(documents).pick({
@@ -211,6 +220,7 @@ export const activities = pgTable("activities", {
   entityType: text("entity_type"),
   entityId: integer("entity_id"),
   metadata: json("metadata"),
+  tenantEntityId: integer("tenant_entity_id").notNull().default(1), // Tenant entity the activity happened in; entityId is its subject
 });
 
 export const insertActivitySchema = createInsertSchema(activities).pick({
@@ -220,6 +230,7 @@ export const insertActivitySchema = createInsertSchema(activities).pick({
   entityType: true,
   entityId: true,
   metadata: true,
+  tenantEntityId: true,
 });
 
 // Tasks
@@ -232,6 +243,7 @@ export const tasks = pgTable("tasks", {
   status: text("status").notNull().default("pending"),
   priority: text("priority").notNull().default("medium"),
   completed: boolean("completed").default(false),
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this task belongs to
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -286,6 +298,9 @@ export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
 
 export type Declaration = typeof declarations.$inferSelect;
 export type InsertDeclaration = z.infer<typeof insertDeclarationSchema>;
+// Updates may also carry fields only the server computes, such as plot areas
+export type DeclarationUpdate = Partial<InsertDeclaration> & Partial<Pick<Declaration, "plotAreas">>;
+export type NewDeclaration = InsertDeclaration & Partial<Pick<Declaration, "plotAreas">>;
 
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
@@ -315,6 +330,7 @@ export const saqs = pgTable("saqs", {
   completedAt: timestamp("completed_at"),
   score: integer("score"),
   answers: json("answers"), // Store answers as JSON
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this SAQ belongs to
 });
 
 export const insertSaqSchema = createInsertSchema(saqs).pick({
@@ -342,6 +358,7 @@ export const customers = pgTable("customers", {
   email: text("email").notNull(),
   workPhone: text("work_phone"),
   mobilePhone: text("mobile_phone"),
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this customer belongs to
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -482,3 +499,250 @@ export const insertRoleSchema = createInsertSchema(roles)
 
 export type Role = typeof roles.$inferSelect;
 export type InsertRole = z.infer<typeof insertRoleSchema>;
+
+// Background geometry / satellite validation jobs for declarations
+export const validationJobs = pgTable("validation_jobs", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  type: text("type").notNull(), // "geometry" or "satellite"
+  status: text("status").notNull().default("queued"), // "queued", "running", "succeeded", "failed", "cancelled"
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow(),
+  failureReason: text("failure_reason"),
+  result: json("result"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertValidationJobSchema = createInsertSchema(validationJobs)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+export type ValidationJob = typeof validationJobs.$inferSelect;
+export type InsertValidationJob = z.infer<typeof insertValidationJobSchema>;
+
+// History of GeoJSON edits made on the map, one row per save
+export const geojsonEdits = pgTable("geojson_edits", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  userId: integer("user_id").notNull(),
+  changes: json("changes").notNull(), // GeoJSONEditChange[] - which plots were added, moved or deleted
+  previousGeojson: json("previous_geojson"),
+  geojson: json("geojson").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertGeojsonEditSchema = createInsertSchema(geojsonEdits)
+  .omit({ id: true, createdAt: true });
+
+export type GeojsonEdit = typeof geojsonEdits.$inferSelect;
+export type InsertGeojsonEdit = z.infer<typeof insertGeojsonEditSchema>;
+
+// Line items of a declaration, one row per product
+export const declarationItems = pgTable("declaration_items", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  productId: integer("product_id"), // Matching catalogue product, if any
+  productName: text("product_name").notNull(),
+  scientificName: text("scientific_name"),
+  hsCode: text("hs_code"),
+  quantity: doublePrecision("quantity"),
+  unit: text("unit"),
+  netMassKg: doublePrecision("net_mass_kg"),
+  countryOfProduction: text("country_of_production"),
+  rmId: text("rm_id"),
+  skuCode: text("sku_code"),
+  batchId: text("batch_id"), // Outbound batch ID
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeclarationItemSchema = createInsertSchema(declarationItems)
+  .omit({ id: true, createdAt: true });
+
+export type DeclarationItem = typeof declarationItems.$inferSelect;
+export type InsertDeclarationItem = z.infer<typeof insertDeclarationItemSchema>;
+
+// Lifecycle transitions of a declaration, one row per status change
+export const declarationTransitions = pgTable("declaration_transitions", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  action: text("action").notNull(), // DeclarationAction, e.g. "submit", "approve"
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  actorId: integer("actor_id").notNull(),
+  actorRole: text("actor_role"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeclarationTransitionSchema = createInsertSchema(declarationTransitions)
+  .omit({ id: true, createdAt: true });
+
+export type DeclarationTransition = typeof declarationTransitions.$inferSelect;
+export type InsertDeclarationTransition = z.infer<typeof insertDeclarationTransitionSchema>;
+
+// Mass-balance ledger: quantities of inbound declarations consumed by outbound declarations
+export const declarationAllocations = pgTable("declaration_allocations", {
+  id: serial("id").primaryKey(),
+  outboundDeclarationId: integer("outbound_declaration_id").notNull(),
+  inboundDeclarationId: integer("inbound_declaration_id").notNull(),
+  quantity: doublePrecision("quantity").notNull(), // In the inbound declaration's unit
+  unit: text("unit"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeclarationAllocationSchema = createInsertSchema(declarationAllocations)
+  .omit({ id: true, createdAt: true });
+
+export type DeclarationAllocation = typeof declarationAllocations.$inferSelect;
+export type InsertDeclarationAllocation = z.infer<typeof insertDeclarationAllocationSchema>;
+
+// Conversion factors between catalogue products, e.g. cocoa beans -> cocoa butter
+export const productConversions = pgTable("product_conversions", {
+  id: serial("id").primaryKey(),
+  inputProductId: integer("input_product_id").notNull(),
+  outputProductId: integer("output_product_id").notNull(),
+  yieldRatio: doublePrecision("yield_ratio").notNull(), // kg of output per kg of input
+  tolerancePercent: doublePrecision("tolerance_percent").notNull().default(5), // Accepted deviation from the yield
+  notes: text("notes"),
+  entityId: integer("entity_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertProductConversionSchema = createInsertSchema(productConversions)
+  .omit({ id: true, createdAt: true });
+
+export type ProductConversion = typeof productConversions.$inferSelect;
+export type InsertProductConversion = z.infer<typeof insertProductConversionSchema>;
+
+// Immutable versions of a declaration, one per submission
+export const declarationVersions = pgTable("declaration_versions", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  version: integer("version").notNull(), // 1 for the first submission
+  previousVersionId: integer("previous_version_id"), // Version this one supersedes
+  snapshot: json("snapshot").notNull(), // DeclarationSnapshot - fields, items and geometry as submitted
+  reason: text("reason"), // Why the previous version was amended or rejected
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeclarationVersionSchema = createInsertSchema(declarationVersions)
+  .omit({ id: true, createdAt: true });
+
+export type DeclarationVersion = typeof declarationVersions.$inferSelect;
+export type InsertDeclarationVersion = z.infer<typeof insertDeclarationVersionSchema>;
+
+// Submissions of a declaration's DDS to the EU Information System (TRACES)
+export const euisSubmissions = pgTable("eu_is_submissions", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  declarationVersion: integer("declaration_version"), // Sealed version the DDS was built from
+  ddsIdentifier: text("dds_identifier"), // Returned by the EU-IS when it accepts the submission
+  status: text("status").notNull().default("submitted"), // "submitting", "submitted", "available", "rejected", "failed"
+  internalReferenceNumber: text("internal_reference_number"), // Our reference on the statement, for finding it in the EU-IS
+  claimedAt: timestamp("claimed_at"), // When a request claimed the submission and started sending it
+  referenceNumber: text("reference_number"),
+  verificationNumber: text("verification_number"),
+  errorMessage: text("error_message"),
+  payload: json("payload"), // DueDiligenceStatement as submitted
+  submittedBy: integer("submitted_by").notNull(),
+  pollAttempts: integer("poll_attempts").notNull().default(0),
+  lastPolledAt: timestamp("last_polled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertEUISSubmissionSchema = createInsertSchema(euisSubmissions)
+  .omit({ id: true, createdAt: true, updatedAt: true });
+
+export type EUISSubmission = typeof euisSubmissions.$inferSelect;
+export type InsertEUISSubmission = z.infer<typeof insertEUISSubmissionSchema>;
+
+// Declarations filed in EU TRACES by hand; one row per eu_filed declaration
+export const euFilings = pgTable("eu_filings", {
+  id: serial("id").primaryKey(),
+  filedDeclarationId: integer("filed_declaration_id").notNull(), // The eu_filed declaration
+  declarationId: integer("declaration_id"), // Source declaration the filing was made for, if any
+  reference: text("reference").notNull(),
+  activityType: text("activity_type").notNull(), // "import", "export" or "domestic"
+  traderName: text("trader_name").notNull(),
+  traderCountry: text("trader_country").notNull(),
+  vatCode: text("vat_code"),
+  countryOfActivity: text("country_of_activity").notNull(),
+  countryOfEntry: text("country_of_entry").notNull(),
+  additionalInfo: text("additional_info"),
+  eudrReference: text("eudr_reference"),
+  verificationReference: text("verification_reference"),
+  inspectionReference: text("inspection_reference"),
+  products: json("products").notNull(), // EUFilingProduct[]
+  submittedBy: integer("submitted_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const euFilingProductSchema = z.object({
+  name: z.string().trim().min(1, "Product name is required"),
+  hsCode: z.string().trim().regex(/^\d{4,10}$/, "HS code must be 4 to 10 digits"),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  unit: z.string().min(1, "Unit is required"),
+});
+
+export const insertEUFilingSchema = createInsertSchema(euFilings)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    reference: z.string().trim().min(1, "Reference number is required"),
+    activityType: z.enum(["import", "export", "domestic"]),
+    traderName: z.string().trim().min(1, "Trader name is required"),
+    traderCountry: z.string().trim().min(1, "Trader country is required"),
+    countryOfActivity: z.string().trim().min(1, "Country of activity is required"),
+    countryOfEntry: z.string().trim().min(1, "Country of entry is required"),
+    products: z.array(euFilingProductSchema).min(1, "At least one product is required"),
+  });
+
+export type EUFilingProduct = z.infer<typeof euFilingProductSchema>;
+export type EUFiling = typeof euFilings.$inferSelect;
+export type InsertEUFiling = z.infer<typeof insertEUFilingSchema>;
+
+// EU-IS reference and verification numbers of the statements a declaration refers to
+export const declarationReferences = pgTable("declaration_references", {
+  id: serial("id").primaryKey(),
+  declarationId: integer("declaration_id").notNull(),
+  referenceNumber: text("reference_number").notNull(),
+  verificationNumber: text("verification_number"),
+  source: text("source").notNull(), // "supplier" or "self_filed"
+  validationStatus: text("validation_status").notNull(), // "verified", "valid_format" or "invalid_format"
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeclarationReferenceSchema = createInsertSchema(declarationReferences)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    source: z.enum(EU_REFERENCE_SOURCES),
+    validationStatus: z.enum(EU_REFERENCE_VALIDATION_STATUSES),
+  });
+
+export type DeclarationReference = typeof declarationReferences.$inferSelect;
+export type InsertDeclarationReference = z.infer<typeof insertDeclarationReferenceSchema>;
+
+// Bulk imports of inbound declarations from ERP spreadsheets
+export const declarationImports = pgTable("declaration_imports", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull(),
+  totalRows: integer("total_rows").notNull(),
+  importedRows: integer("imported_rows").notNull(),
+  rejectedRows: integer("rejected_rows").notNull(),
+  declarations: json("declarations").notNull(), // { declarationId, shipmentReference }[] created by the import
+  errors: json("errors").notNull(), // { row, shipmentReference, reason }[] for the rejected rows
+  createdBy: integer("created_by").notNull(),
+  entityId: integer("entity_id").notNull().default(1), // Tenant entity this import belongs to
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDeclarationImportSchema = createInsertSchema(declarationImports)
+  .omit({ id: true, createdAt: true, entityId: true });
+
+export type DeclarationImport = typeof declarationImports.$inferSelect;
+export type InsertDeclarationImport = z.infer<typeof insertDeclarationImportSchema>;